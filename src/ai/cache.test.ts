@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { AICache, configureAICache, hashInput, type CacheKey } from './cache.js';
+import { AIService } from './service.js';
+import { configureLimits, getLimitsConfig } from '../limits.js';
+import { createAPIRoutes } from '../api/routes.js';
+import { APIKeyStore } from '../api/auth.js';
+import { logger } from '../logger.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const JOB = { title: 'Engineer', company: 'Corp', location: 'NYC', description: 'Build things' };
+
+function groqJob(job: object = JOB) {
+    return { ok: true, json: async () => ({ choices: [{ message: { content: JSON.stringify(job) } }] }) };
+}
+
+describe('AI response cache', () => {
+    let dir: string;
+    let cache: AICache;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'letsmcp-cache-'));
+        cache = configureAICache({ dir, enabled: true });
+        mockFetch.mockReset();
+    });
+
+    afterEach(() => {
+        configureAICache();
+        vi.useRealTimers();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('AICache', () => {
+        const key: CacheKey = { operation: 'extractJob', input: 'Engineer at Corp', provider: 'groq', model: 'llama-3.1-70b-versatile' };
+
+        it('should ignore whitespace and key order in the input', () => {
+            expect(hashInput({ a: ' Engineer\r\n at  Corp ', b: 1 })).toBe(hashInput({ b: 1, a: 'Engineer at Corp' }));
+            expect(hashInput('Engineer at Corp')).not.toBe(hashInput('Engineer at Corp Inc'));
+        });
+
+        it('should store results per operation, provider and model', async () => {
+            await cache.set(key, JOB);
+
+            expect(await cache.get({ ...key, input: 'Engineer   at Corp\n' })).toEqual(JOB);
+            expect(await cache.get({ ...key, provider: 'claude' })).toBeUndefined();
+            expect(await cache.get({ ...key, model: 'llama-3.1-8b-instant' })).toBeUndefined();
+            expect(await cache.get({ ...key, operation: 'analyzeResume' })).toBeUndefined();
+        });
+
+        it('should expire entries after the operation TTL', async () => {
+            vi.useFakeTimers({ toFake: ['Date'] });
+            await cache.set(key, JOB);
+
+            vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000);
+            expect(await cache.get(key)).toBeUndefined();
+        });
+
+        it('should not cache operations with a TTL of 0', async () => {
+            await cache.set({ ...key, operation: 'draftEmail' }, { subject: 'Hi', body: '', confidence: 90 });
+
+            expect(await cache.get({ ...key, operation: 'draftEmail' })).toBeUndefined();
+            expect(fs.existsSync(path.join(dir, 'draftEmail'))).toBe(false);
+        });
+
+        it('should survive concurrent writes of the same entry', async () => {
+            const warning = vi.spyOn(logger, 'warning');
+
+            await Promise.all(Array.from({ length: 10 }, () => cache.set(key, JOB)));
+
+            expect(warning).not.toHaveBeenCalled();
+            expect(await cache.get(key)).toEqual(JOB);
+            expect(fs.readdirSync(path.join(dir, 'extractJob'))).toHaveLength(1);
+            warning.mockRestore();
+        });
+
+        it('should purge only its own entries from a shared directory', async () => {
+            await cache.set(key, JOB);
+            fs.writeFileSync(path.join(dir, 'extractJob', 'damaged.json'), '{');
+            fs.writeFileSync(path.join(dir, 'api-keys.json'), '[]');
+            fs.mkdirSync(path.join(dir, 'audit'));
+
+            expect(await cache.purge()).toBe(2);
+            expect(fs.existsSync(path.join(dir, 'api-keys.json'))).toBe(true);
+            expect(fs.existsSync(path.join(dir, 'audit'))).toBe(true);
+            expect(fs.readdirSync(path.join(dir, 'extractJob'))).toHaveLength(0);
+        });
+
+        it('should count entries and purge by provider', async () => {
+            await cache.set(key, JOB);
+            await cache.set({ ...key, provider: 'claude' }, JOB);
+            await cache.get(key);
+
+            expect(await cache.stats()).toMatchObject({ entries: 2, hits: 1, misses: 0, operations: { extractJob: { entries: 2, ttlSeconds: 604800 } } });
+            expect(await cache.purge({ provider: 'claude' })).toBe(1);
+            expect(await cache.purge()).toBe(1);
+            expect((await cache.stats()).entries).toBe(0);
+        });
+    });
+
+    describe('AIService', () => {
+        const service = () => new AIService({ groq: { apiKey: 'test-groq' } });
+
+        it('should answer the same posting from the cache', async () => {
+            mockFetch.mockResolvedValue(groqJob());
+
+            const first = await service().extractJobDetails('Engineer at Corp in NYC');
+            const second = await service().extractJobDetails('  Engineer at Corp\nin NYC ');
+
+            expect(first).toEqual({ data: JOB, provider: 'groq' });
+            expect(second).toEqual({ data: JOB, provider: 'groq', cached: true });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should answer from the cache without waiting for a provider slot', async () => {
+            mockFetch.mockResolvedValue(groqJob());
+            await service().extractJobDetails('Engineer at Corp');
+
+            const limits = configureLimits({ ...getLimitsConfig(), maxProviderCalls: 1, queueMaxWaitMs: 10 });
+            let release!: () => void;
+            const busy = limits.providers.run(() => new Promise<void>(resolve => { release = resolve; }));
+            try {
+                expect(await service().extractJobDetails('Engineer at Corp')).toMatchObject({ cached: true });
+            } finally {
+                release();
+                await busy;
+                configureLimits();
+            }
+        });
+
+        it('should skip the cache on bypass and replace the entry on refresh', async () => {
+            mockFetch.mockResolvedValueOnce(groqJob()).mockResolvedValue(groqJob({ ...JOB, title: 'Senior Engineer' }));
+            await service().extractJobDetails('Engineer at Corp');
+
+            expect((await service().extractJobDetails('Engineer at Corp', undefined, { cache: 'bypass' })).data.title).toBe('Senior Engineer');
+            expect((await service().extractJobDetails('Engineer at Corp')).data.title).toBe('Engineer');
+
+            expect(await service().extractJobDetails('Engineer at Corp', undefined, { cache: 'refresh' })).not.toHaveProperty('cached');
+            expect(await service().extractJobDetails('Engineer at Corp')).toMatchObject({ data: { title: 'Senior Engineer' }, cached: true });
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not keep placeholder answers', async () => {
+            mockFetch.mockResolvedValue({ ok: true, json: async () => ({ choices: [{ message: { content: 'not JSON' } }] }) });
+
+            await service().extractJobDetails('Engineer at Corp');
+            await service().extractJobDetails('Engineer at Corp');
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('REST API', () => {
+        let app: express.Application;
+
+        beforeEach(() => {
+            app = express();
+            app.use(express.json());
+            app.use('/api', createAPIRoutes({ keys: new APIKeyStore(path.join(dir, 'api-keys.json')) }));
+        });
+
+        it('should report stats and purge entries', async () => {
+            await cache.set({ operation: 'analyzeResume', input: { jobDescription: 'a', resumeText: 'b' }, provider: 'groq', model: 'm' }, { matchScore: 80 });
+
+            const stats = await request(app).get('/api/cache');
+            const invalid = await request(app).delete('/api/cache?operation=everything');
+            const purged = await request(app).delete('/api/cache?operation=analyzeResume');
+
+            expect(stats.status).toBe(200);
+            expect(stats.body).toMatchObject({ enabled: true, entries: 1, operations: { analyzeResume: { entries: 1 } } });
+            expect(invalid.status).toBe(400);
+            expect(purged.body).toEqual({ success: true, removed: 1 });
+        });
+
+        it('should reject unknown cache modes', async () => {
+            const response = await request(app).post('/api/analyze-resume').send({ jobDescription: 'a', resumeText: 'b', cache: 'never' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('cache must be "bypass" or "refresh"');
+        });
+    });
+});
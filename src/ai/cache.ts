@@ -0,0 +1,312 @@
+/**
+ * AI response cache
+ * Results of AI operations are kept on disk (AI_CACHE_DIR, default .letsmcp/cache), keyed on the
+ * operation, a hash of the normalized input, the provider and the model, so running the same
+ * posting or resume again doesn't pay for another call. Each operation has its own TTL.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../logger.js';
+import { readInteger } from '../env.js';
+
+export type CacheOperation = 'extractJob' | 'analyzeResume' | 'draftEmail' | 'generateText';
+
+// bypass: don't read or write the cache; refresh: don't read it, but store the new result
+export type CacheMode = 'bypass' | 'refresh';
+
+export const CACHE_OPERATIONS: CacheOperation[] = ['extractJob', 'analyzeResume', 'draftEmail', 'generateText'];
+export const CACHE_MODES: CacheMode[] = ['bypass', 'refresh'];
+
+export interface AICacheOptions {
+    dir: string;
+    enabled: boolean;
+    // 0 turns caching off for the operation
+    ttlSeconds: Record<CacheOperation, number>;
+    // Oldest entries beyond this are removed (0: no limit)
+    maxEntries: number;
+}
+
+/**
+ * What a cached result is looked up by
+ */
+export interface CacheKey {
+    operation: CacheOperation;
+    input: unknown;
+    provider: string;
+    model: string;
+}
+
+export interface CacheFilter {
+    operation?: CacheOperation;
+    provider?: string;
+    // Only remove entries past their TTL
+    expiredOnly?: boolean;
+}
+
+export interface CacheStats {
+    enabled: boolean;
+    dir: string;
+    entries: number;
+    bytes: number;
+    expired: number;
+    // Since the server started
+    hits: number;
+    misses: number;
+    operations: Record<CacheOperation, { entries: number; ttlSeconds: number }>;
+}
+
+interface CacheEntry {
+    operation: CacheOperation;
+    provider: string;
+    model: string;
+    createdAt: string;
+    expiresAt: string;
+    value: unknown;
+}
+
+const DAY = 24 * 60 * 60;
+
+// Drafts and free-form text are usually re-run to get a different answer
+const DEFAULT_TTL_SECONDS: Record<CacheOperation, number> = {
+    extractJob: 7 * DAY,
+    analyzeResume: 7 * DAY,
+    draftEmail: 0,
+    generateText: 0,
+};
+
+const TTL_ENV: Record<CacheOperation, string> = {
+    extractJob: 'AI_CACHE_TTL_EXTRACT_JOB',
+    analyzeResume: 'AI_CACHE_TTL_ANALYZE_RESUME',
+    draftEmail: 'AI_CACHE_TTL_DRAFT_EMAIL',
+    generateText: 'AI_CACHE_TTL_GENERATE_TEXT',
+};
+
+// Bump when prompts or result shapes change, so old answers are not served
+const CACHE_VERSION = 1;
+
+// Entries are pruned every this many writes
+const PRUNE_INTERVAL = 100;
+
+export function getAICacheOptions(): AICacheOptions {
+    return {
+        dir: path.resolve(process.cwd(), process.env.AI_CACHE_DIR || path.join('.letsmcp', 'cache')),
+        enabled: process.env.AI_CACHE !== 'off',
+        ttlSeconds: Object.fromEntries(
+            CACHE_OPERATIONS.map(operation => [operation, readInteger(TTL_ENV[operation], DEFAULT_TTL_SECONDS[operation])])
+        ) as Record<CacheOperation, number>,
+        maxEntries: readInteger('AI_CACHE_MAX_ENTRIES', 10_000),
+    };
+}
+
+export function isCacheMode(value: unknown): value is CacheMode | undefined {
+    return value === undefined || CACHE_MODES.includes(value as CacheMode);
+}
+
+/**
+ * Inputs that differ only in whitespace, line endings, Unicode form or key order are the same input
+ */
+export function normalizeInput(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return value.normalize('NFC').replace(/\s+/g, ' ').trim();
+    }
+    if (Array.isArray(value)) {
+        return value.map(normalizeInput);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, item]) => [key, normalizeInput(item)]));
+    }
+    return value;
+}
+
+export function hashInput(value: unknown): string {
+    return createHash('sha256').update(JSON.stringify(normalizeInput(value))).digest('hex');
+}
+
+/**
+ * One JSON file per entry, grouped in a directory per operation
+ */
+export class AICache {
+    private hits = 0;
+    private misses = 0;
+    private writes = 0;
+
+    constructor(readonly options: AICacheOptions = getAICacheOptions()) {}
+
+    isEnabled(operation: CacheOperation): boolean {
+        return this.options.enabled && this.options.ttlSeconds[operation] > 0;
+    }
+
+    private file(key: CacheKey): string {
+        const id = createHash('sha256')
+            .update(JSON.stringify([CACHE_VERSION, key.operation, hashInput(key.input), key.provider, key.model]))
+            .digest('hex');
+        return path.join(this.options.dir, key.operation, `${id}.json`);
+    }
+
+    /**
+     * The cached result, or undefined on a miss. Read errors count as misses.
+     */
+    async get<T>(key: CacheKey): Promise<T | undefined> {
+        if (!this.isEnabled(key.operation)) return undefined;
+
+        const file = this.file(key);
+        try {
+            const entry = JSON.parse(await fs.readFile(file, 'utf-8')) as CacheEntry;
+            if (Date.parse(entry.expiresAt) > Date.now()) {
+                this.hits++;
+                return entry.value as T;
+            }
+            await fs.rm(file, { force: true });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.warning('cache', 'Ignoring unreadable cache entry', { file, error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+        this.misses++;
+        return undefined;
+    }
+
+    /**
+     * Store a result. Failures are logged, never thrown: the cache must not break the call.
+     */
+    async set(key: CacheKey, value: unknown): Promise<void> {
+        if (!this.isEnabled(key.operation)) return;
+
+        const now = Date.now();
+        const entry: CacheEntry = {
+            operation: key.operation,
+            provider: key.provider,
+            model: key.model,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + this.options.ttlSeconds[key.operation] * 1000).toISOString(),
+            value,
+        };
+
+        try {
+            const file = this.file(key);
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            // Write then rename, so readers never see half an entry. Results can hold resume details.
+            // Each write gets its own temp file: concurrent misses on the same key must not share one.
+            const temp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+            await fs.writeFile(temp, JSON.stringify(entry), { mode: 0o600 });
+            await fs.rename(temp, file);
+
+            if (++this.writes % PRUNE_INTERVAL === 0) {
+                await this.prune();
+            }
+        } catch (error) {
+            logger.warning('cache', 'Failed to write cache entry', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    private async entries(operation?: CacheOperation): Promise<Array<{ file: string; size: number; entry: CacheEntry }>> {
+        const results = [];
+        for (const op of operation ? [operation] : CACHE_OPERATIONS) {
+            const dir = path.join(this.options.dir, op);
+            let names: string[];
+            try {
+                names = await fs.readdir(dir);
+            } catch {
+                continue;
+            }
+
+            for (const name of names.filter(name => name.endsWith('.json'))) {
+                const file = path.join(dir, name);
+                try {
+                    const raw = await fs.readFile(file, 'utf-8');
+                    results.push({ file, size: Buffer.byteLength(raw), entry: JSON.parse(raw) as CacheEntry });
+                } catch {
+                    // Removed meanwhile, or damaged: purge() with no filter still clears the directory
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Remove expired entries, then the oldest ones beyond maxEntries
+     */
+    async prune(): Promise<number> {
+        let removed = await this.purge({ expiredOnly: true });
+        if (this.options.maxEntries === 0) return removed;
+
+        const entries = (await this.entries()).sort((a, b) => a.entry.createdAt.localeCompare(b.entry.createdAt));
+        for (const { file } of entries.slice(0, Math.max(0, entries.length - this.options.maxEntries))) {
+            await fs.rm(file, { force: true });
+            removed++;
+        }
+        return removed;
+    }
+
+    /**
+     * Remove entries matching the filter (everything without one); returns how many were removed
+     */
+    async purge(filter: CacheFilter = {}): Promise<number> {
+        if (!filter.operation && !filter.provider && !filter.expiredOnly) {
+            // Damaged entries too, but only the cache's own files: AI_CACHE_DIR may be shared
+            let count = 0;
+            for (const operation of CACHE_OPERATIONS) {
+                const dir = path.join(this.options.dir, operation);
+                const names = await fs.readdir(dir).catch(() => [] as string[]);
+                for (const name of names.filter(name => name.endsWith('.json'))) {
+                    await fs.rm(path.join(dir, name), { force: true });
+                    count++;
+                }
+            }
+            return count;
+        }
+
+        const now = Date.now();
+        let removed = 0;
+        for (const { file, entry } of await this.entries(filter.operation)) {
+            if (filter.provider && entry.provider !== filter.provider) continue;
+            if (filter.expiredOnly && Date.parse(entry.expiresAt) > now) continue;
+
+            await fs.rm(file, { force: true });
+            removed++;
+        }
+        return removed;
+    }
+
+    async stats(): Promise<CacheStats> {
+        const now = Date.now();
+        const entries = await this.entries();
+        const operations = Object.fromEntries(CACHE_OPERATIONS.map(operation => [operation, {
+            entries: entries.filter(({ entry }) => entry.operation === operation).length,
+            ttlSeconds: this.options.enabled ? this.options.ttlSeconds[operation] : 0,
+        }])) as CacheStats['operations'];
+
+        return {
+            enabled: this.options.enabled,
+            dir: this.options.dir,
+            entries: entries.length,
+            bytes: entries.reduce((total, { size }) => total + size, 0),
+            expired: entries.filter(({ entry }) => Date.parse(entry.expiresAt) <= now).length,
+            hits: this.hits,
+            misses: this.misses,
+            operations,
+        };
+    }
+}
+
+let aiCacheInstance: AICache | null = null;
+
+export function getAICache(): AICache {
+    if (!aiCacheInstance) {
+        aiCacheInstance = new AICache();
+    }
+    return aiCacheInstance;
+}
+
+/**
+ * Replace the cache (e.g. to point it at another directory or turn it off)
+ */
+export function configureAICache(options?: Partial<AICacheOptions>): AICache {
+    aiCacheInstance = new AICache({ ...getAICacheOptions(), ...options });
+    return aiCacheInstance;
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { AIConfigStore, configureAIConfigStore } from './configStore.js';
+import { configureAIService, getAIService, mergeConfig, updateAIConfig } from './service.js';
+import { createAPIRoutes } from '../api/routes.js';
+import { APIKeyStore } from '../api/auth.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const GROQ_KEY = 'gsk_saved_groq_key_1234567890';
+
+function okResponse() {
+    return { ok: true, json: async () => ({ choices: [{ message: { content: 'OK' } }] }) };
+}
+
+describe('saved provider configuration', () => {
+    let dir: string;
+    let store: AIConfigStore;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'letsmcp-config-'));
+        store = configureAIConfigStore(new AIConfigStore(path.join(dir, 'ai-config.enc')));
+        mockFetch.mockReset();
+    });
+
+    afterEach(() => {
+        configureAIConfigStore(new AIConfigStore());
+        configureAIService({});
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('AIConfigStore', () => {
+        it('should encrypt the saved configuration', () => {
+            store.save({ groq: { apiKey: GROQ_KEY, model: 'llama-3.1-8b-instant' } });
+
+            expect(fs.readFileSync(store.file, 'utf-8')).not.toContain(GROQ_KEY);
+            expect(fs.statSync(store.keyFile).mode & 0o777).toBe(0o600);
+            expect(new AIConfigStore(store.file).load()).toEqual({ groq: { apiKey: GROQ_KEY, model: 'llama-3.1-8b-instant' } });
+        });
+
+        it('should refuse to decrypt with another key', () => {
+            const withSecret = new AIConfigStore(store.file, 'correct horse battery staple');
+            withSecret.save({ defaultProvider: 'claude' });
+
+            expect(new AIConfigStore(store.file, 'correct horse battery staple').load()).toEqual({ defaultProvider: 'claude' });
+            expect(() => new AIConfigStore(store.file, 'wrong').load()).toThrow('Cannot decrypt');
+        });
+
+        it('should load nothing before the first save', () => {
+            expect(store.load()).toEqual({});
+            expect(fs.existsSync(store.keyFile)).toBe(false);
+        });
+    });
+
+    describe('mergeConfig', () => {
+        it('should keep providers and fields that are left out', () => {
+            const merged = mergeConfig(
+                { groq: { apiKey: 'groq-key', model: 'a' }, claude: { apiKey: 'claude-key' }, defaultProvider: 'groq' },
+                { groq: { model: 'b' }, claude: null },
+            );
+
+            expect(merged).toEqual({ groq: { apiKey: 'groq-key', model: 'b' }, claude: null, defaultProvider: 'groq' });
+        });
+    });
+
+    describe('updateAIConfig', () => {
+        it('should test the key, save it and survive a restart', async () => {
+            mockFetch.mockResolvedValue(okResponse());
+
+            await updateAIConfig({ groq: { apiKey: GROQ_KEY } });
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+
+            // A fresh service (as after a restart) reads the saved file
+            configureAIService({});
+            await updateAIConfig({ defaultProvider: 'groq' });
+            expect(getAIService().getProviderSettings('groq')?.apiKey).toBe(GROQ_KEY);
+        });
+
+        it('should not save a key that fails the test call', async () => {
+            mockFetch.mockResolvedValue({ ok: false, status: 401, text: async () => 'invalid api key' });
+
+            await expect(updateAIConfig({ groq: { apiKey: GROQ_KEY } })).rejects.toThrow('groq: test call failed: Groq API error: 401');
+            expect(store.exists()).toBe(false);
+        });
+
+        it('should add a local server without a key', async () => {
+            mockFetch.mockResolvedValue(okResponse());
+
+            const service = await updateAIConfig({ local: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' }, defaultProvider: 'local' });
+
+            expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+            expect(service.getConfiguredProviders()).toContain('local');
+            expect(store.load().local).toEqual({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+            await expect(updateAIConfig({ local: { model: 'x' } }, { store: new AIConfigStore(path.join(dir, 'other.enc')) }))
+                .rejects.toThrow('local: baseUrl is required');
+        });
+
+        it('should require a key for a new provider', async () => {
+            await expect(updateAIConfig({ claude: { model: 'claude-3-5-haiku-latest' } })).rejects.toThrow('claude: apiKey is required');
+        });
+    });
+
+    describe('REST API', () => {
+        let app: express.Application;
+
+        beforeEach(() => {
+            app = express();
+            app.use(express.json());
+            app.use('/api', createAPIRoutes({ keys: new APIKeyStore(path.join(dir, 'api-keys.json')) }));
+        });
+
+        it('should return masked keys, models and the default provider', async () => {
+            configureAIService({ groq: { apiKey: GROQ_KEY }, claude: { apiKey: 'claude-key-abcdefgh', model: 'claude-3-5-haiku-latest' }, defaultProvider: 'claude' });
+
+            const response = await request(app).get('/api/config');
+
+            expect(response.status).toBe(200);
+            expect(JSON.stringify(response.body)).not.toContain(GROQ_KEY);
+            expect(response.body).toEqual({
+                providers: {
+                    groq: { apiKey: 'gsk_…7890', model: 'llama-3.1-70b-versatile' },
+                    claude: { apiKey: 'clau…efgh', model: 'claude-3-5-haiku-latest' },
+                },
+                defaultProvider: 'claude',
+            });
+        });
+
+        it('should update one provider without dropping the others', async () => {
+            mockFetch.mockResolvedValue(okResponse());
+            await updateAIConfig({ claude: { apiKey: 'claude-key-abcdefgh' } }, { validate: false });
+
+            const response = await request(app).post('/api/config').send({ groq: { apiKey: GROQ_KEY } });
+
+            expect(response.status).toBe(200);
+            expect(response.body.providers).toEqual(expect.arrayContaining(['groq', 'claude']));
+        });
+
+        it('should reject invalid bodies and failed test calls with 400', async () => {
+            mockFetch.mockResolvedValue({ ok: false, status: 401, text: async () => 'invalid api key' });
+
+            const invalid = await request(app).post('/api/config').send({ groq: { apiKey: 42 } });
+            const failed = await request(app).post('/api/config').send({ groq: { apiKey: GROQ_KEY } });
+
+            expect(invalid.status).toBe(400);
+            expect(invalid.body.error).toContain('groq.apiKey');
+            expect(failed.status).toBe(400);
+            expect(failed.body.error).toContain('test call failed');
+        });
+    });
+});
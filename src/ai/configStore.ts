@@ -0,0 +1,125 @@
+/**
+ * Saved provider configuration
+ * Changes made through POST /api/config are kept in an AES-256-GCM encrypted file
+ * (AI_CONFIG_FILE, default .letsmcp/ai-config.enc) so they survive a restart. The encryption
+ * key is derived from LETSMCP_CONFIG_KEY, or from a random key file created next to the config.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AIConfigUpdate } from './types.js';
+
+interface EncryptedConfig {
+    version: 1;
+    // base64
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+export function getAIConfigFile(): string {
+    return path.resolve(process.cwd(), process.env.AI_CONFIG_FILE || path.join('.letsmcp', 'ai-config.enc'));
+}
+
+export class AIConfigStore {
+    constructor(
+        readonly file: string = getAIConfigFile(),
+        // Defaults to LETSMCP_CONFIG_KEY, then the key file
+        private secret?: string,
+    ) {}
+
+    get keyFile(): string {
+        return path.join(path.dirname(this.file), 'config.key');
+    }
+
+    /**
+     * Secret the encryption key is derived from. The key file is only created when saving.
+     */
+    private getSecret(create: boolean): string {
+        const secret = this.secret ?? process.env.LETSMCP_CONFIG_KEY;
+        if (secret) return secret;
+
+        try {
+            return fs.readFileSync(this.keyFile, 'utf-8').trim();
+        } catch {
+            if (!create) {
+                throw new Error(`Cannot decrypt ${this.file}: set LETSMCP_CONFIG_KEY or restore ${this.keyFile}`);
+            }
+        }
+
+        const generated = randomBytes(32).toString('base64');
+        fs.mkdirSync(path.dirname(this.keyFile), { recursive: true });
+        fs.writeFileSync(this.keyFile, generated + '\n', { mode: 0o600 });
+        return generated;
+    }
+
+    exists(): boolean {
+        return fs.existsSync(this.file);
+    }
+
+    /**
+     * Saved changes, or an empty object when nothing has been saved
+     */
+    load(): AIConfigUpdate {
+        let raw: string;
+        try {
+            raw = fs.readFileSync(this.file, 'utf-8');
+        } catch {
+            return {};
+        }
+
+        const encrypted = JSON.parse(raw) as EncryptedConfig;
+        const key = scryptSync(this.getSecret(false), Buffer.from(encrypted.salt, 'base64'), 32);
+
+        let plaintext: string;
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+            plaintext = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]).toString('utf-8');
+        } catch {
+            throw new Error(`Cannot decrypt ${this.file}: wrong LETSMCP_CONFIG_KEY or damaged file`);
+        }
+
+        // Providers that are no longer registered are ignored when the service is built
+        return JSON.parse(plaintext) as AIConfigUpdate;
+    }
+
+    save(config: AIConfigUpdate): void {
+        const salt = randomBytes(16);
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', scryptSync(this.getSecret(true), salt, 32), iv);
+        const data = Buffer.concat([cipher.update(JSON.stringify(config), 'utf-8'), cipher.final()]);
+        const encrypted: EncryptedConfig = {
+            version: 1,
+            salt: salt.toString('base64'),
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64'),
+        };
+
+        // Write then rename, so a crash never leaves half a file
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        const temp = `${this.file}.${process.pid}.tmp`;
+        fs.writeFileSync(temp, JSON.stringify(encrypted, null, 2) + '\n', { mode: 0o600 });
+        fs.renameSync(temp, this.file);
+    }
+}
+
+let aiConfigStoreInstance: AIConfigStore | null = null;
+
+export function getAIConfigStore(): AIConfigStore {
+    if (!aiConfigStoreInstance) {
+        aiConfigStoreInstance = new AIConfigStore();
+    }
+    return aiConfigStoreInstance;
+}
+
+/**
+ * Replace the shared store (e.g. to point it at another file)
+ */
+export function configureAIConfigStore(store: AIConfigStore): AIConfigStore {
+    aiConfigStoreInstance = store;
+    return aiConfigStoreInstance;
+}
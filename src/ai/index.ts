@@ -1,3 +1,7 @@
 export * from './types.js';
 export * from './service.js';
+export * from './configStore.js';
+export * from './registry.js';
+export * from './resilience.js';
+export * from './cache.js';
 export * from './providers/index.js';
@@ -4,13 +4,22 @@
 
 import type { AIProvider, JobDetails, ResumeAnalysis, EmailDraftContext, EmailDraft } from '../types.js';
 import { PROMPTS, parseAIJson } from '../prompts.js';
+import { ProviderError, responseError, type ProviderErrorKind } from '../resilience.js';
+import { readEvents } from './sse.js';
 
 const CLAUDE_API_URL = 'https://api.anthropic.com/v1/messages';
 
+// Error events that can arrive mid-stream, by error type
+const STREAM_ERROR_KINDS: Record<string, ProviderErrorKind> = {
+    overloaded_error: 'server',
+    api_error: 'server',
+    rate_limit_error: 'rate_limit',
+};
+
 export class ClaudeProvider implements AIProvider {
     name = 'claude';
     private apiKey: string;
-    private model: string;
+    readonly model: string;
 
     constructor(apiKey: string, model: string = 'claude-3-5-sonnet-20241022') {
         this.apiKey = apiKey;
@@ -21,7 +30,7 @@ export class ClaudeProvider implements AIProvider {
         return !!this.apiKey && this.apiKey.length > 0;
     }
 
-    private async callAPI(prompt: string): Promise<string> {
+    private async post(prompt: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
         const response = await fetch(CLAUDE_API_URL, {
             method: 'POST',
             headers: {
@@ -38,26 +47,53 @@ export class ClaudeProvider implements AIProvider {
                         content: prompt
                     }
                 ],
+                ...(stream && { stream: true }),
             }),
+            signal,
         });
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`Claude API error: ${response.status} - ${error}`);
+            throw await responseError('Claude API', response);
         }
+        return response;
+    }
 
+    private async callAPI(prompt: string, signal?: AbortSignal): Promise<string> {
+        const response = await this.post(prompt, false, signal);
         const data = await response.json() as { content: Array<{ type: string; text: string }> };
         const textContent = data.content.find(c => c.type === 'text');
         return textContent?.text || '';
     }
 
-    async generateText(prompt: string): Promise<string> {
-        return this.callAPI(prompt);
+    async generateText(prompt: string, signal?: AbortSignal): Promise<string> {
+        return this.callAPI(prompt, signal);
+    }
+
+    /**
+     * Messages stream: text arrives in content_block_delta events, failures in error events
+     */
+    async *streamText(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+        const response = await this.post(prompt, true, signal);
+
+        for await (const { event, data } of readEvents(response)) {
+            if (event === 'message_stop') return;
+            if (event === 'error') {
+                const { error } = JSON.parse(data) as { error?: { type?: string; message?: string } };
+                throw new ProviderError(
+                    `Claude API error: ${error?.type ?? 'error'} - ${error?.message ?? data}`,
+                    STREAM_ERROR_KINDS[error?.type ?? ''] ?? 'unknown'
+                );
+            }
+            if (event === 'content_block_delta') {
+                const { delta } = JSON.parse(data) as { delta?: { type?: string; text?: string } };
+                if (delta?.type === 'text_delta' && delta.text) yield delta.text;
+            }
+        }
     }
 
-    async extractJobDetails(text: string): Promise<JobDetails> {
+    async extractJobDetails(text: string, signal?: AbortSignal): Promise<JobDetails> {
         const prompt = PROMPTS.extractJobDetails(text);
-        const response = await this.callAPI(prompt);
+        const response = await this.callAPI(prompt, signal);
 
         try {
             return parseAIJson<JobDetails>(response);
@@ -71,9 +107,9 @@ export class ClaudeProvider implements AIProvider {
         }
     }
 
-    async analyzeResume(jobDescription: string, resumeText: string): Promise<ResumeAnalysis> {
+    async analyzeResume(jobDescription: string, resumeText: string, signal?: AbortSignal): Promise<ResumeAnalysis> {
         const prompt = PROMPTS.analyzeResume(jobDescription, resumeText);
-        const response = await this.callAPI(prompt);
+        const response = await this.callAPI(prompt, signal);
 
         try {
             return parseAIJson<ResumeAnalysis>(response);
@@ -88,9 +124,9 @@ export class ClaudeProvider implements AIProvider {
         }
     }
 
-    async draftEmail(context: EmailDraftContext): Promise<EmailDraft> {
+    async draftEmail(context: EmailDraftContext, signal?: AbortSignal): Promise<EmailDraft> {
         const prompt = PROMPTS.draftEmail(context);
-        const response = await this.callAPI(prompt);
+        const response = await this.callAPI(prompt, signal);
 
         try {
             return parseAIJson<EmailDraft>(response);
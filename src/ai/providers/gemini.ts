@@ -4,13 +4,23 @@
 
 import type { AIProvider, JobDetails, ResumeAnalysis, EmailDraftContext, EmailDraft } from '../types.js';
 import { PROMPTS, parseAIJson } from '../prompts.js';
+import { responseError } from '../resilience.js';
+import { readEvents } from './sse.js';
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
 
+interface GenerateContentResponse {
+    candidates?: Array<{
+        content?: {
+            parts?: Array<{ text?: string }>
+        }
+    }>
+}
+
 export class GeminiProvider implements AIProvider {
     name = 'gemini';
     private apiKey: string;
-    private model: string;
+    readonly model: string;
 
     constructor(apiKey: string, model: string = 'gemini-1.5-flash') {
         this.apiKey = apiKey;
@@ -21,13 +31,17 @@ export class GeminiProvider implements AIProvider {
         return !!this.apiKey && this.apiKey.length > 0;
     }
 
-    private async callAPI(prompt: string): Promise<string> {
-        const url = `${GEMINI_API_URL}/${this.model}:generateContent?key=${this.apiKey}`;
+    private async post(prompt: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+        const url = stream
+            ? `${GEMINI_API_URL}/${this.model}:streamGenerateContent?alt=sse`
+            : `${GEMINI_API_URL}/${this.model}:generateContent`;
 
+        // Key in a header rather than the query string, so it can't end up in URLs shown in errors
         const response = await fetch(url, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
+                'x-goog-api-key': this.apiKey,
             },
             body: JSON.stringify({
                 contents: [
@@ -42,31 +56,44 @@ export class GeminiProvider implements AIProvider {
                     maxOutputTokens: 4096,
                 }
             }),
+            signal,
         });
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`Gemini API error: ${response.status} - ${error}`);
+            throw await responseError('Gemini API', response);
         }
+        return response;
+    }
 
-        const data = await response.json() as {
-            candidates: Array<{
-                content: {
-                    parts: Array<{ text: string }>
-                }
-            }>
-        };
-
+    private async callAPI(prompt: string, signal?: AbortSignal): Promise<string> {
+        const response = await this.post(prompt, false, signal);
+        const data = await response.json() as GenerateContentResponse;
         return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
     }
 
-    async generateText(prompt: string): Promise<string> {
-        return this.callAPI(prompt);
+    async generateText(prompt: string, signal?: AbortSignal): Promise<string> {
+        return this.callAPI(prompt, signal);
+    }
+
+    /**
+     * With alt=sse every event is a partial GenerateContentResponse
+     */
+    async *streamText(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+        const response = await this.post(prompt, true, signal);
+
+        for await (const { data } of readEvents(response)) {
+            const chunk = JSON.parse(data) as GenerateContentResponse & { error?: { message?: string } };
+            if (chunk.error) {
+                throw new Error(`Gemini API error: ${chunk.error.message ?? data}`);
+            }
+            const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('');
+            if (text) yield text;
+        }
     }
 
-    async extractJobDetails(text: string): Promise<JobDetails> {
+    async extractJobDetails(text: string, signal?: AbortSignal): Promise<JobDetails> {
         const prompt = PROMPTS.extractJobDetails(text);
-        const response = await this.callAPI(prompt);
+        const response = await this.callAPI(prompt, signal);
 
         try {
             return parseAIJson<JobDetails>(response);
@@ -80,9 +107,9 @@ export class GeminiProvider implements AIProvider {
         }
     }
 
-    async analyzeResume(jobDescription: string, resumeText: string): Promise<ResumeAnalysis> {
+    async analyzeResume(jobDescription: string, resumeText: string, signal?: AbortSignal): Promise<ResumeAnalysis> {
         const prompt = PROMPTS.analyzeResume(jobDescription, resumeText);
-        const response = await this.callAPI(prompt);
+        const response = await this.callAPI(prompt, signal);
 
         try {
             return parseAIJson<ResumeAnalysis>(response);
@@ -97,9 +124,9 @@ export class GeminiProvider implements AIProvider {
         }
     }
 
-    async draftEmail(context: EmailDraftContext): Promise<EmailDraft> {
+    async draftEmail(context: EmailDraftContext, signal?: AbortSignal): Promise<EmailDraft> {
         const prompt = PROMPTS.draftEmail(context);
-        const response = await this.callAPI(prompt);
+        const response = await this.callAPI(prompt, signal);
 
         try {
             return parseAIJson<EmailDraft>(response);
@@ -1,3 +1,5 @@
 export { GroqProvider } from './groq.js';
 export { ClaudeProvider } from './claude.js';
 export { GeminiProvider } from './gemini.js';
+export { OpenAICompatibleProvider } from './openaiCompatible.js';
+export { SamplingProvider } from './sampling.js';
@@ -0,0 +1,130 @@
+/**
+ * OpenAI-compatible AI Provider
+ * Any server exposing /v1/chat/completions: Ollama, LM Studio, vLLM, llama.cpp server, ...
+ * Pointed at a local server, prompts and resumes never leave the machine. Hosted APIs that
+ * speak the same protocol (Groq) subclass it with a fixed base URL.
+ */
+
+import type { AIProvider, JobDetails, ResumeAnalysis, EmailDraftContext, EmailDraft } from '../types.js';
+import { PROMPTS, parseAIJson } from '../prompts.js';
+import { responseError } from '../resilience.js';
+import { readChatCompletionDeltas } from './sse.js';
+import { logger } from '../../logger.js';
+
+export class OpenAICompatibleProvider implements AIProvider {
+    name = 'local';
+    // Prefix of error messages ("Local AI API error: 500 - ...")
+    protected label = 'Local AI API';
+    protected baseUrl: string;
+    protected apiKey?: string;
+    readonly model: string;
+
+    /**
+     * @param baseUrl API root including the version, e.g. http://localhost:11434/v1
+     * @param apiKey  Sent as a bearer token when set (most local servers don't need one)
+     */
+    constructor(baseUrl: string, apiKey?: string, model: string = 'llama3.1') {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.apiKey = apiKey;
+        this.model = model;
+    }
+
+    isConfigured(): boolean {
+        return !!this.baseUrl && this.baseUrl.length > 0;
+    }
+
+    private async post(prompt: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model: this.model,
+                messages: [
+                    {
+                        role: 'user',
+                        content: prompt
+                    }
+                ],
+                temperature: 0.7,
+                max_tokens: 4096,
+                ...(stream && { stream: true }),
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw await responseError(this.label, response);
+        }
+        return response;
+    }
+
+    private async callAPI(prompt: string, signal?: AbortSignal): Promise<string> {
+        const response = await this.post(prompt, false, signal);
+        const data = await response.json() as { choices: Array<{ message: { content: string } }> };
+        return data.choices[0]?.message?.content || '';
+    }
+
+    async generateText(prompt: string, signal?: AbortSignal): Promise<string> {
+        return this.callAPI(prompt, signal);
+    }
+
+    async *streamText(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+        yield* readChatCompletionDeltas(await this.post(prompt, true, signal), this.label);
+    }
+
+    async extractJobDetails(text: string, signal?: AbortSignal): Promise<JobDetails> {
+        const prompt = PROMPTS.extractJobDetails(text);
+        const response = await this.callAPI(prompt, signal);
+
+        try {
+            return parseAIJson<JobDetails>(response);
+        } catch {
+            // Return basic structure if parsing fails
+            return {
+                title: '',
+                company: '',
+                location: '',
+                description: text.slice(0, 500),
+            };
+        }
+    }
+
+    async analyzeResume(jobDescription: string, resumeText: string, signal?: AbortSignal): Promise<ResumeAnalysis> {
+        const prompt = PROMPTS.analyzeResume(jobDescription, resumeText);
+        const response = await this.callAPI(prompt, signal);
+
+        try {
+            return parseAIJson<ResumeAnalysis>(response);
+        } catch {
+            return {
+                matchScore: 50,
+                strengths: [],
+                gaps: [],
+                recommendations: ['Unable to complete AI analysis'],
+                keywords: { matched: [], missing: [] }
+            };
+        }
+    }
+
+    async draftEmail(context: EmailDraftContext, signal?: AbortSignal): Promise<EmailDraft> {
+        const prompt = PROMPTS.draftEmail(context);
+        const response = await this.callAPI(prompt, signal);
+
+        try {
+            return parseAIJson<EmailDraft>(response);
+        } catch (e) {
+            logger.warning(this.name, 'Could not parse email draft JSON', {
+                error: e instanceof Error ? e.message : String(e),
+                response,
+            });
+            return {
+                subject: `Reaching out about ${context.jobTitle}`,
+                body: 'Unable to generate email draft.',
+                confidence: 0
+            };
+        }
+    }
+}
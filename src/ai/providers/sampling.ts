@@ -0,0 +1,130 @@
+/**
+ * MCP Sampling Provider
+ * Sends prompts to the connected MCP client's own model via sampling/createMessage,
+ * so the AI tools work without any API keys on the server.
+ */
+
+import { CreateMessageResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { AIProvider, JobDetails, ResumeAnalysis, EmailDraftContext, EmailDraft } from '../types.js';
+import { PROMPTS, parseAIJson } from '../prompts.js';
+import { ProviderError } from '../resilience.js';
+import { getRequestContext } from '../../context.js';
+
+// Clients usually ask the user to approve each sampling request
+const SAMPLING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class SamplingProvider implements AIProvider {
+    name = 'sampling';
+    private maxTokens: number;
+
+    constructor(maxTokens: number = 4096) {
+        this.maxTokens = maxTokens;
+    }
+
+    /**
+     * Only usable while handling a request from a client that supports sampling
+     */
+    isConfigured(): boolean {
+        const context = getRequestContext();
+        return !!context?.server.getClientCapabilities()?.sampling;
+    }
+
+    private async callAPI(prompt: string, signal?: AbortSignal): Promise<string> {
+        const context = getRequestContext();
+        if (!context || !this.isConfigured()) {
+            throw new Error('Sampling unavailable: no connected MCP client supports sampling');
+        }
+
+        const request: CreateMessageRequest = {
+            method: 'sampling/createMessage',
+            params: {
+                messages: [
+                    {
+                        role: 'user',
+                        content: { type: 'text', text: prompt },
+                    },
+                ],
+                maxTokens: this.maxTokens,
+                includeContext: 'none',
+            },
+        };
+
+        // Send as part of the tool call so HTTP clients receive it on that stream,
+        // and so cancelling the tool call cancels the sampling request
+        let result;
+        try {
+            result = context.extra
+                ? await context.extra.sendRequest(request, CreateMessageResultSchema, { timeout: SAMPLING_TIMEOUT_MS, signal })
+                : await context.server.createMessage(request.params, { timeout: SAMPLING_TIMEOUT_MS, signal });
+        } catch (error) {
+            // The client refused, the user declined or didn't answer in time, or the call was cancelled
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new ProviderError(`Sampling declined: ${message}`, 'declined', { cause: error });
+        }
+
+        if (result.content.type !== 'text') {
+            throw new ProviderError(`Sampling error: client returned ${result.content.type} content`, 'bad_output');
+        }
+        return result.content.text;
+    }
+
+    async generateText(prompt: string, signal?: AbortSignal): Promise<string> {
+        return this.callAPI(prompt, signal);
+    }
+
+    /**
+     * Sampling has no streaming, so the whole reply arrives as one chunk
+     */
+    async *streamText(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+        yield await this.callAPI(prompt, signal);
+    }
+
+    async extractJobDetails(text: string, signal?: AbortSignal): Promise<JobDetails> {
+        const prompt = PROMPTS.extractJobDetails(text);
+        const response = await this.callAPI(prompt, signal);
+
+        try {
+            return parseAIJson<JobDetails>(response);
+        } catch {
+            return {
+                title: '',
+                company: '',
+                location: '',
+                description: text.slice(0, 500),
+            };
+        }
+    }
+
+    async analyzeResume(jobDescription: string, resumeText: string, signal?: AbortSignal): Promise<ResumeAnalysis> {
+        const prompt = PROMPTS.analyzeResume(jobDescription, resumeText);
+        const response = await this.callAPI(prompt, signal);
+
+        try {
+            return parseAIJson<ResumeAnalysis>(response);
+        } catch {
+            return {
+                matchScore: 50,
+                strengths: [],
+                gaps: [],
+                recommendations: ['Unable to complete AI analysis'],
+                keywords: { matched: [], missing: [] }
+            };
+        }
+    }
+
+    async draftEmail(context: EmailDraftContext, signal?: AbortSignal): Promise<EmailDraft> {
+        const prompt = PROMPTS.draftEmail(context);
+        const response = await this.callAPI(prompt, signal);
+
+        try {
+            return parseAIJson<EmailDraft>(response);
+        } catch {
+            return {
+                subject: `Reaching out about ${context.jobTitle}`,
+                body: 'Unable to generate email draft.',
+                confidence: 0
+            };
+        }
+    }
+}
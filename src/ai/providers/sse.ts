@@ -0,0 +1,86 @@
+/**
+ * Server-Sent Events parsing for the vendors' streaming APIs
+ */
+
+export interface SSEEvent {
+    // "message" when the event has no event: field
+    event: string;
+    data: string;
+}
+
+/**
+ * One event per blank-line separated block; data: lines are joined with newlines
+ */
+function parseEvent(block: string): SSEEvent | undefined {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+        // Comments (": ping") keep connections alive
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') {
+            event = value;
+        } else if (field === 'data') {
+            data.push(value);
+        }
+    }
+
+    return data.length > 0 ? { event, data: data.join('\n') } : undefined;
+}
+
+/**
+ * Read the events of a text/event-stream response as they arrive
+ */
+export async function* readEvents(response: Response): AsyncGenerator<SSEEvent> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done }).replace(/\r\n?/g, '\n');
+
+            let boundary: number;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                const event = parseEvent(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary + 2);
+                if (event) yield event;
+            }
+
+            if (done) {
+                const event = parseEvent(buffer);
+                if (event) yield event;
+                return;
+            }
+        }
+    } finally {
+        // Stops the download when the consumer gives up early
+        await reader.cancel().catch(() => {});
+    }
+}
+
+/**
+ * Text deltas of an OpenAI-style chat completion stream (data: chunks, then data: [DONE])
+ */
+export async function* readChatCompletionDeltas(response: Response, label: string): AsyncGenerator<string> {
+    for await (const { data } of readEvents(response)) {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as {
+            choices?: Array<{ delta?: { content?: string } }>;
+            error?: { message?: string };
+        };
+        if (chunk.error) {
+            throw new Error(`${label} error: ${chunk.error.message ?? data}`);
+        }
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+    }
+}
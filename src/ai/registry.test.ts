@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { BUILTIN_PROVIDERS, ProviderRegistry, defineProvider, providerRegistry } from './registry.js';
+import { AIService, getEnvConfig, parseConfigUpdate } from './service.js';
+import type { AIProvider } from './types.js';
+
+function fakeProvider(name: string, model: string): AIProvider {
+    return {
+        name,
+        model,
+        generateText: vi.fn(async (prompt: string) => `${name} says ${prompt}`),
+        async *streamText() { yield 'chunk'; },
+        extractJobDetails: vi.fn(),
+        analyzeResume: vi.fn(),
+        draftEmail: vi.fn(),
+        isConfigured: () => true,
+    };
+}
+
+const echoProvider = defineProvider({
+    name: 'echo',
+    settings: z.object({ endpoint: z.string().url(), token: z.string().min(1), model: z.string().optional() }),
+    env: { endpoint: 'ECHO_ENDPOINT', token: 'ECHO_TOKEN', model: 'ECHO_MODEL' },
+    secrets: ['token'],
+    capabilities: { streaming: false, local: true },
+    create: ({ model }) => fakeProvider('echo', model ?? 'echo-1'),
+});
+
+describe('ProviderRegistry', () => {
+    let registry: ProviderRegistry;
+
+    beforeEach(() => {
+        registry = new ProviderRegistry();
+        for (const definition of BUILTIN_PROVIDERS) {
+            registry.register(definition);
+        }
+        registry.register(echoProvider);
+    });
+
+    it('should keep registration order as the fallback order', () => {
+        expect(registry.names()).toEqual(['groq', 'claude', 'gemini', 'local', 'echo']);
+    });
+
+    it('should reject duplicate and reserved names', () => {
+        expect(() => registry.register(echoProvider)).toThrow('already registered');
+        expect(() => registry.register({ ...echoProvider, name: 'sampling' })).toThrow('reserved');
+    });
+
+    it('should explain incomplete settings', () => {
+        expect(registry.checkSettings('echo', { endpoint: 'http://echo.lan' })).toBe('token is required');
+        expect(registry.checkSettings('local', { baseUrl: 'ftp://models.lan' })).toBe('baseUrl: Expected an http(s) URL');
+        expect(registry.checkSettings('groq', { apiKey: 'gsk_key' })).toBeUndefined();
+        expect(registry.create('echo', { token: 'x' })).toBeUndefined();
+    });
+
+    it('should build an AIService from whatever is registered', async () => {
+        const service = new AIService({
+            groq: { apiKey: 'test-groq-key' },
+            echo: { endpoint: 'http://echo.lan', token: 'echo-token', model: 'echo-2' },
+            defaultProvider: 'echo',
+        }, registry);
+
+        expect(service.getConfiguredProviders()).toEqual(['groq', 'echo']);
+        expect(await service.generateText('hi')).toEqual({ text: 'echo says hi', provider: 'echo' });
+        expect(service.describeProviders()).toEqual([
+            { name: 'echo', model: 'echo-2', capabilities: { streaming: false, local: true }, default: true, circuit: { state: 'closed', failures: 0 } },
+            { name: 'groq', model: 'llama-3.1-70b-versatile', capabilities: { streaming: true, local: false }, default: false, circuit: { state: 'closed', failures: 0 } },
+        ]);
+    });
+
+    it('should leave out providers the registry does not know', () => {
+        const service = new AIService({ echo: { endpoint: 'http://echo.lan', token: 'echo-token' } });
+
+        expect(service.getConfiguredProviders()).toEqual([]);
+    });
+});
+
+describe('shared provider registry', () => {
+    beforeEach(() => {
+        providerRegistry.register(echoProvider);
+    });
+
+    afterEach(() => {
+        providerRegistry.unregister('echo');
+        vi.unstubAllEnvs();
+    });
+
+    it('should read registered providers from their environment variables', () => {
+        vi.stubEnv('ECHO_ENDPOINT', 'http://echo.lan');
+        vi.stubEnv('ECHO_TOKEN', 'echo-token');
+
+        expect(getEnvConfig().echo).toEqual({ endpoint: 'http://echo.lan', token: 'echo-token' });
+    });
+
+    it('should check configuration changes against the registered schemas', () => {
+        expect(parseConfigUpdate({ echo: { model: 'echo-3' }, defaultProvider: 'echo' })).toEqual({ echo: { model: 'echo-3' }, defaultProvider: 'echo' });
+        expect(parseConfigUpdate({ claude: null })).toEqual({ claude: null });
+        expect(() => parseConfigUpdate({ openai: { apiKey: 'x' } })).toThrow('unknown provider "openai"');
+        expect(() => parseConfigUpdate({ echo: { endpoint: 'not a url' } })).toThrow('echo.endpoint: Invalid url');
+        expect(() => parseConfigUpdate({ groq: { baseUrl: 'http://x' } })).toThrow('Unrecognized key');
+        expect(() => parseConfigUpdate({ defaultProvider: 'sampling' })).toThrow('defaultProvider must be one of');
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * AI provider registry
+ * Each provider is registered once (factory, settings schema, environment variables, capabilities);
+ * AIService, the fallback order, /api/config and /api/status are all derived from it.
+ */
+
+import { z } from 'zod';
+import type { AIProvider, ProviderSettings } from './types.js';
+import { GroqProvider, ClaudeProvider, GeminiProvider, OpenAICompatibleProvider } from './providers/index.js';
+
+export interface ProviderCapabilities {
+    // Text arrives as the model produces it (otherwise streamText yields the whole reply at once)
+    streaming: boolean;
+    // Runs on a server you pick, so prompts don't go to a hosted API
+    local: boolean;
+}
+
+export interface ProviderDefinition<T extends z.AnyZodObject = z.AnyZodObject> {
+    name: string;
+    // Complete settings; a provider is only created when they parse
+    settings: T;
+    // Environment variable per setting, e.g. { apiKey: 'GROQ_API_KEY' }
+    env: Record<string, string>;
+    // Settings that must never be shown (masked by GET /api/config, redacted from logs)
+    secrets: string[];
+    capabilities: ProviderCapabilities;
+    create(settings: z.infer<T>): AIProvider;
+}
+
+/**
+ * Identity helper that infers the factory's settings type from the schema
+ */
+export function defineProvider<T extends z.AnyZodObject>(definition: ProviderDefinition<T>): ProviderDefinition<T> {
+    return definition;
+}
+
+// Not registered: always present, only usable while serving an MCP client that supports sampling
+export const SAMPLING_PROVIDER = 'sampling';
+export const SAMPLING_CAPABILITIES: ProviderCapabilities = { streaming: false, local: false };
+
+/**
+ * Describe the first problem with a set of settings ("apiKey is required", "local.baseUrl: Invalid url")
+ */
+export function formatSettingsIssue(error: z.ZodError, prefix?: string): string {
+    const issue = error.issues[0];
+    const field = [prefix, ...issue.path].filter(part => part !== undefined).join('.');
+    if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+        return `${field} is required`;
+    }
+    return field ? `${field}: ${issue.message}` : issue.message;
+}
+
+export class ProviderRegistry {
+    private providers: Map<string, ProviderDefinition> = new Map();
+
+    /**
+     * Add a provider. Registration order is the fallback order.
+     */
+    register(definition: ProviderDefinition): this {
+        if (definition.name === SAMPLING_PROVIDER || definition.name === 'defaultProvider') {
+            throw new Error(`Provider name "${definition.name}" is reserved`);
+        }
+        if (this.providers.has(definition.name)) {
+            throw new Error(`Provider "${definition.name}" is already registered`);
+        }
+        this.providers.set(definition.name, definition);
+        return this;
+    }
+
+    /**
+     * Remove a provider by name
+     */
+    unregister(name: string): boolean {
+        return this.providers.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.providers.has(name);
+    }
+
+    get(name: string): ProviderDefinition | undefined {
+        return this.providers.get(name);
+    }
+
+    /**
+     * Registered providers in registration order
+     */
+    list(): ProviderDefinition[] {
+        return Array.from(this.providers.values());
+    }
+
+    names(): string[] {
+        return Array.from(this.providers.keys());
+    }
+
+    /**
+     * Why a provider can't be created from these settings, or undefined when it can
+     */
+    checkSettings(name: string, settings?: ProviderSettings | null): string | undefined {
+        const definition = this.providers.get(name);
+        if (!definition) {
+            return `unknown provider (expected ${this.names().join(', ')})`;
+        }
+        const parsed = definition.settings.safeParse(settings ?? {});
+        return parsed.success ? undefined : formatSettingsIssue(parsed.error);
+    }
+
+    /**
+     * Create a provider, or undefined when its settings are incomplete or invalid
+     */
+    create(name: string, settings: ProviderSettings): AIProvider | undefined {
+        const definition = this.providers.get(name);
+        const parsed = definition?.settings.safeParse(settings);
+        return definition && parsed?.success ? definition.create(parsed.data) : undefined;
+    }
+}
+
+const model = z.string().min(1).optional();
+
+const apiKeySettings = z.object({
+    apiKey: z.string().min(1),
+    model,
+});
+
+export const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+    defineProvider({
+        name: 'groq',
+        settings: apiKeySettings,
+        env: { apiKey: 'GROQ_API_KEY', model: 'GROQ_MODEL' },
+        secrets: ['apiKey'],
+        capabilities: { streaming: true, local: false },
+        create: ({ apiKey, model }) => new GroqProvider(apiKey, model),
+    }),
+    defineProvider({
+        name: 'claude',
+        settings: apiKeySettings,
+        env: { apiKey: 'CLAUDE_API_KEY', model: 'CLAUDE_MODEL' },
+        secrets: ['apiKey'],
+        capabilities: { streaming: true, local: false },
+        create: ({ apiKey, model }) => new ClaudeProvider(apiKey, model),
+    }),
+    defineProvider({
+        name: 'gemini',
+        settings: apiKeySettings,
+        env: { apiKey: 'GEMINI_API_KEY', model: 'GEMINI_MODEL' },
+        secrets: ['apiKey'],
+        capabilities: { streaming: true, local: false },
+        create: ({ apiKey, model }) => new GeminiProvider(apiKey, model),
+    }),
+    defineProvider({
+        name: 'local',
+        settings: z.object({
+            // API root including the version, e.g. http://localhost:11434/v1
+            baseUrl: z.string().url().refine(url => /^https?:/.test(url), { message: 'Expected an http(s) URL' }),
+            apiKey: z.string().min(1).optional(),
+            model,
+        }),
+        env: { baseUrl: 'LOCAL_AI_BASE_URL', apiKey: 'LOCAL_AI_API_KEY', model: 'LOCAL_AI_MODEL' },
+        secrets: ['apiKey'],
+        capabilities: { streaming: true, local: true },
+        create: ({ baseUrl, apiKey, model }) => new OpenAICompatibleProvider(baseUrl, apiKey, model),
+    }),
+];
+
+/**
+ * Shared registry with the built-in providers. Register more before the AI service is first used.
+ */
+export const providerRegistry = new ProviderRegistry();
+for (const definition of BUILTIN_PROVIDERS) {
+    providerRegistry.register(definition);
+}
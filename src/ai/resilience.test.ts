@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    CircuitBreaker,
+    ProviderError,
+    classifyError,
+    parseRetryAfter,
+    responseError,
+    retryDelay,
+    type ResilienceConfig,
+} from './resilience.js';
+import { AIService } from './service.js';
+import { providerRegistry } from './registry.js';
+import { configureLimits, getLimitsConfig } from '../limits.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const FAST: ResilienceConfig = {
+    retries: 2,
+    retryBaseMs: 1,
+    retryMaxMs: 50,
+    timeoutMs: 1000,
+    circuitThreshold: 2,
+    circuitCooldownMs: 60_000,
+};
+
+function errorResponse(status: number, body: string, headers: Record<string, string> = {}) {
+    return { ok: false, status, text: async () => body, headers: new Headers(headers) };
+}
+
+function groqResponse(content: string) {
+    return { ok: true, json: async () => ({ choices: [{ message: { content } }] }) };
+}
+
+describe('provider error classification', () => {
+    it('should classify HTTP responses', async () => {
+        const limited = await responseError('Groq API', errorResponse(429, 'slow down', { 'Retry-After': '3' }) as unknown as Response);
+
+        expect(limited.message).toBe('Groq API error: 429 - slow down');
+        expect(limited).toMatchObject({ kind: 'rate_limit', status: 429, retryAfterMs: 3000, retryable: true });
+        expect((await responseError('Groq API', errorResponse(401, 'bad key') as unknown as Response)).kind).toBe('auth');
+        expect((await responseError('Groq API', errorResponse(503, 'overloaded') as unknown as Response)).retryable).toBe(true);
+        expect((await responseError('Groq API', errorResponse(400, 'prompt too long') as unknown as Response)).retryable).toBe(false);
+    });
+
+    it('should classify thrown errors', () => {
+        expect(classifyError(new TypeError('fetch failed')).kind).toBe('network');
+        expect(classifyError(new SyntaxError('Unexpected token <')).kind).toBe('bad_output');
+        expect(classifyError(new DOMException('timed out', 'TimeoutError')).kind).toBe('timeout');
+        expect(classifyError(new Error('something else')).kind).toBe('unknown');
+    });
+
+    it('should parse Retry-After seconds and dates', () => {
+        const now = Date.parse('2026-01-01T00:00:00Z');
+
+        expect(parseRetryAfter('120', now)).toBe(120_000);
+        expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+});
+
+describe('retryDelay', () => {
+    const server = new ProviderError('503', 'server');
+
+    it('should back off exponentially with jitter up to the cap', () => {
+        const config = { ...FAST, retries: 5, retryBaseMs: 100, retryMaxMs: 300 };
+
+        expect(retryDelay(0, server, config, () => 0)).toBe(50);
+        expect(retryDelay(0, server, config, () => 1)).toBe(100);
+        expect(retryDelay(1, server, config, () => 1)).toBe(200);
+        expect(retryDelay(3, server, config, () => 1)).toBe(300);
+    });
+
+    it('should give up after the retries, on errors that are not transient and on long Retry-After', () => {
+        expect(retryDelay(2, server, FAST)).toBeUndefined();
+        expect(retryDelay(0, new ProviderError('401', 'auth'), FAST)).toBeUndefined();
+        expect(retryDelay(0, new ProviderError('429', 'rate_limit', { retryAfterMs: 20 }), FAST)).toBe(20);
+        expect(retryDelay(0, new ProviderError('429', 'rate_limit', { retryAfterMs: 60_000 }), FAST)).toBeUndefined();
+    });
+});
+
+describe('CircuitBreaker', () => {
+    const failure = new ProviderError('503', 'server');
+
+    it('should open after the threshold and let one trial through after the cooldown', () => {
+        const breaker = new CircuitBreaker(2, 1000);
+
+        breaker.recordFailure(failure, 0);
+        expect(breaker.allow(1)).toBe(true);
+        breaker.recordFailure(failure, 1);
+
+        expect(breaker.status(2)).toEqual({ state: 'open', failures: 2, retryAt: new Date(1001).toISOString(), lastFailure: 'server' });
+        expect(breaker.allow(500)).toBe(false);
+        expect(breaker.allow(1001)).toBe(true);
+        expect(breaker.allow(1002)).toBe(false);
+
+        breaker.recordSuccess();
+        expect(breaker.status(1003)).toMatchObject({ state: 'closed', failures: 0 });
+    });
+
+    it('should reopen when the trial fails', () => {
+        const breaker = new CircuitBreaker(1, 1000);
+        breaker.recordFailure(failure, 0);
+
+        expect(breaker.allow(1000)).toBe(true);
+        breaker.recordFailure(failure, 1000);
+        expect(breaker.state(1500)).toBe('open');
+    });
+
+    it('should stay out for as long as a rate limit asks', () => {
+        const breaker = new CircuitBreaker(5, 1000);
+        breaker.recordFailure(new ProviderError('429', 'rate_limit', { retryAfterMs: 120_000 }), 0);
+
+        expect(breaker.state(60_000)).toBe('open');
+    });
+
+    it('should ignore failures that are not the provider\'s fault', () => {
+        const breaker = new CircuitBreaker(1, 1000);
+        breaker.recordFailure(new ProviderError('bad JSON', 'bad_output'), 0);
+
+        expect(breaker.state(1)).toBe('closed');
+    });
+});
+
+describe('AIService retries and circuit breaker', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should retry a transient failure on the same provider', async () => {
+        mockFetch
+            .mockResolvedValueOnce(errorResponse(503, 'overloaded'))
+            .mockResolvedValueOnce(errorResponse(429, 'slow down', { 'Retry-After': '0' }))
+            .mockResolvedValueOnce(groqResponse('Third time lucky'));
+
+        const service = new AIService({ groq: { apiKey: 'test-groq' }, claude: { apiKey: 'test-claude' } }, providerRegistry, FAST);
+
+        expect(await service.generateText('Test')).toEqual({ text: 'Third time lucky', provider: 'groq' });
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fall back at once on errors that retrying will not fix', async () => {
+        mockFetch
+            .mockResolvedValueOnce(errorResponse(401, 'invalid api key'))
+            .mockResolvedValueOnce({ ok: true, json: async () => ({ content: [{ type: 'text', text: 'From Claude' }] }) });
+
+        const service = new AIService({ groq: { apiKey: 'test-groq' }, claude: { apiKey: 'test-claude' } }, providerRegistry, FAST);
+
+        expect(await service.generateText('Test')).toEqual({ text: 'From Claude', provider: 'claude' });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should free the provider slot while waiting to retry', async () => {
+        configureLimits({ ...getLimitsConfig(), maxProviderCalls: 1, queueMaxWaitMs: 100 });
+        mockFetch
+            .mockResolvedValueOnce(errorResponse(503, 'overloaded'))
+            .mockResolvedValue(groqResponse('Done'));
+
+        try {
+            // The first call backs off for 200-400ms; the second must not queue behind it
+            const service = new AIService({ groq: { apiKey: 'test-groq' } }, providerRegistry, { ...FAST, retryBaseMs: 400, retryMaxMs: 400 });
+            const first = service.generateText('One');
+            await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+            expect(await service.generateText('Two')).toEqual({ text: 'Done', provider: 'groq' });
+            expect(await first).toEqual({ text: 'Done', provider: 'groq' });
+        } finally {
+            configureLimits();
+        }
+    });
+
+    it('should time out slow providers', async () => {
+        mockFetch.mockImplementation(() => new Promise(() => {}));
+
+        const service = new AIService({ groq: { apiKey: 'test-groq' } }, providerRegistry, { ...FAST, retries: 0, timeoutMs: 10 });
+
+        await expect(service.generateText('Test')).rejects.toThrow('groq: no response within 0.01s');
+    });
+
+    it('should abort the request of a provider that timed out', async () => {
+        let signal: AbortSignal | undefined;
+        mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+            signal = init.signal ?? undefined;
+            return new Promise(() => {});
+        });
+
+        const service = new AIService({ groq: { apiKey: 'test-groq' } }, providerRegistry, { ...FAST, retries: 0, timeoutMs: 10 });
+
+        await expect(service.generateText('Test')).rejects.toThrow('no response within');
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('should time out a stream that sends nothing', async () => {
+        // Like fetch: pending until the request is aborted
+        mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+            init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        }));
+        const onStart = vi.fn();
+
+        const service = new AIService({ groq: { apiKey: 'test-groq' } }, providerRegistry, { ...FAST, retries: 0, timeoutMs: 10 });
+
+        await expect(service.streamText('Test', { onStart, onChunk: vi.fn() })).rejects.toThrow('groq: no response within 0.01s');
+        expect(onStart).not.toHaveBeenCalled();
+        expect(service.describeProviders()[0].circuit).toMatchObject({ failures: 1, lastFailure: 'timeout' });
+    });
+
+    it('should skip a provider whose circuit is open and report it', async () => {
+        mockFetch.mockImplementation(async (url: string) => url.includes('groq')
+            ? errorResponse(401, 'invalid api key')
+            : { ok: true, json: async () => ({ content: [{ type: 'text', text: 'From Claude' }] }) });
+
+        const service = new AIService({ groq: { apiKey: 'test-groq' }, claude: { apiKey: 'test-claude' } }, providerRegistry, FAST);
+        await service.generateText('One');
+        await service.generateText('Two');
+        mockFetch.mockClear();
+
+        expect(await service.generateText('Three')).toEqual({ text: 'From Claude', provider: 'claude' });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(service.describeProviders()[0]).toMatchObject({
+            name: 'groq',
+            circuit: { state: 'open', failures: 2, lastFailure: 'auth' },
+        });
+    });
+});
@@ -0,0 +1,274 @@
+/**
+ * Provider error classification, retries and circuit breakers
+ * Transient failures (429, 5xx, timeouts, network errors) are retried with jittered backoff,
+ * honouring Retry-After; a provider that keeps failing is skipped for a cooldown.
+ */
+
+import { readInteger } from '../env.js';
+
+export type ProviderErrorKind =
+    | 'rate_limit'  // 429
+    | 'auth'        // 401/403: bad or revoked key
+    | 'server'      // 5xx, overloaded
+    | 'timeout'     // no response in time (or 408)
+    | 'network'     // connection refused/reset, DNS
+    | 'bad_output'  // unparseable or unexpected response
+    | 'request'     // other 4xx: the request itself was refused
+    | 'declined'    // sampling request declined, cancelled or left unanswered by the client's user
+    | 'unknown';
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate_limit', 'server', 'timeout', 'network'];
+
+// Failures that say nothing about the provider's health don't trip the breaker. A declined
+// sampling request is one session's choice; the sampling provider is shared by all of them.
+const NEUTRAL_KINDS: ProviderErrorKind[] = ['bad_output', 'request', 'declined'];
+
+/**
+ * A failed provider call, with what kind of failure it was
+ */
+export class ProviderError extends Error {
+    readonly status?: number;
+    // From the Retry-After header
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, readonly kind: ProviderErrorKind, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'ProviderError';
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+export function classifyStatus(status: number): ProviderErrorKind {
+    if (status === 429) return 'rate_limit';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 408) return 'timeout';
+    if (status >= 500) return 'server';
+    return 'request';
+}
+
+/**
+ * Retry-After in milliseconds: delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) return undefined;
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) * 1000;
+    }
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Error for a non-2xx API response; keeps the "<label> error: <status> - <body>" message
+ */
+export async function responseError(label: string, response: Response): Promise<ProviderError> {
+    const body = await response.text();
+    return new ProviderError(`${label} error: ${response.status} - ${body}`, classifyStatus(response.status), {
+        status: response.status,
+        // Test doubles often have no headers
+        retryAfterMs: parseRetryAfter(response.headers?.get('retry-after')),
+    });
+}
+
+/**
+ * Classify any error thrown by a provider
+ */
+export function classifyError(error: unknown): ProviderError {
+    if (error instanceof ProviderError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof SyntaxError) {
+        return new ProviderError(message, 'bad_output', { cause: error });
+    }
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        return new ProviderError(message, 'timeout', { cause: error });
+    }
+    // undici reports connection failures as TypeError("fetch failed") with the system error as cause
+    if (error instanceof TypeError && /fetch failed/i.test(message)) {
+        return new ProviderError(message, 'network', { cause: error });
+    }
+    return new ProviderError(message, 'unknown', { cause: error });
+}
+
+/**
+ * What a provider that didn't answer within ms fails with
+ */
+export function timeoutError(ms: number): ProviderError {
+    return new ProviderError(`no response within ${ms / 1000}s`, 'timeout');
+}
+
+/**
+ * Reject with a timeout error when the call takes longer than ms (0 waits forever), and abort
+ * the signal it was given so the request itself stops too
+ */
+export async function withTimeout<T>(call: (signal?: AbortSignal) => Promise<T>, ms: number): Promise<T> {
+    if (ms <= 0) return call();
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = timeoutError(ms);
+            controller.abort(error);
+            reject(error);
+        }, ms);
+    });
+
+    try {
+        return await Promise.race([call(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Wait before the next attempt; rejects when the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(new Error('Cancelled'));
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('Cancelled'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export interface ResilienceConfig {
+    // Retries per provider after the first attempt (0 disables retries)
+    retries: number;
+    retryBaseMs: number;
+    // Longest wait between attempts; a longer Retry-After moves on to the next provider
+    retryMaxMs: number;
+    // Per-attempt limit for API providers (0 disables)
+    timeoutMs: number;
+    // Consecutive failures that open a provider's circuit
+    circuitThreshold: number;
+    circuitCooldownMs: number;
+}
+
+const DEFAULT_RESILIENCE: ResilienceConfig = {
+    retries: 2,
+    retryBaseMs: 500,
+    retryMaxMs: 10_000,
+    timeoutMs: 60_000,
+    circuitThreshold: 3,
+    circuitCooldownMs: 30_000,
+};
+
+/**
+ * Read retry and circuit breaker settings from the environment
+ */
+export function getResilienceConfig(): ResilienceConfig {
+    return {
+        retries: readInteger('AI_RETRIES', DEFAULT_RESILIENCE.retries, 0),
+        retryBaseMs: readInteger('AI_RETRY_BASE_MS', DEFAULT_RESILIENCE.retryBaseMs, 1),
+        retryMaxMs: readInteger('AI_RETRY_MAX_MS', DEFAULT_RESILIENCE.retryMaxMs, 1),
+        timeoutMs: readInteger('AI_TIMEOUT_MS', DEFAULT_RESILIENCE.timeoutMs, 0),
+        circuitThreshold: readInteger('AI_CIRCUIT_THRESHOLD', DEFAULT_RESILIENCE.circuitThreshold, 1),
+        circuitCooldownMs: readInteger('AI_CIRCUIT_COOLDOWN_MS', DEFAULT_RESILIENCE.circuitCooldownMs, 1),
+    };
+}
+
+/**
+ * How long to wait before retrying after a failed attempt (0-based), or undefined to give up.
+ * Exponential backoff with jitter over the upper half, so concurrent callers spread out.
+ */
+export function retryDelay(attempt: number, error: ProviderError, config: ResilienceConfig, random: () => number = Math.random): number | undefined {
+    if (!error.retryable || attempt >= config.retries) return undefined;
+
+    if (error.retryAfterMs !== undefined) {
+        return error.retryAfterMs <= config.retryMaxMs ? error.retryAfterMs : undefined;
+    }
+    const ceiling = Math.min(config.retryMaxMs, config.retryBaseMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit state as reported by /api/status
+ */
+export interface CircuitStatus {
+    state: CircuitState;
+    // Consecutive failures
+    failures: number;
+    // When an open circuit lets a trial call through
+    retryAt?: string;
+    lastFailure?: ProviderErrorKind;
+}
+
+/**
+ * Skips a provider after repeated failures. Once the cooldown is over one trial call is let
+ * through (half-open): success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openUntil = 0;
+    private trialStartedAt?: number;
+    private lastFailure?: ProviderErrorKind;
+
+    constructor(private threshold: number, private cooldownMs: number) {}
+
+    state(now: number = Date.now()): CircuitState {
+        if (this.openUntil === 0) return 'closed';
+        return now < this.openUntil ? 'open' : 'half_open';
+    }
+
+    /**
+     * Whether a call may go through now
+     */
+    allow(now: number = Date.now()): boolean {
+        const state = this.state(now);
+        if (state !== 'half_open') return state === 'closed';
+
+        // One trial at a time; a trial that never reports back (e.g. cancelled) expires
+        if (this.trialStartedAt !== undefined && now - this.trialStartedAt < this.cooldownMs) return false;
+        this.trialStartedAt = now;
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.failures = 0;
+        this.openUntil = 0;
+        this.trialStartedAt = undefined;
+    }
+
+    recordFailure(error: ProviderError, now: number = Date.now()): void {
+        if (NEUTRAL_KINDS.includes(error.kind)) {
+            this.trialStartedAt = undefined;
+            return;
+        }
+
+        const tripped = ++this.failures >= this.threshold || this.state(now) === 'half_open';
+        this.lastFailure = error.kind;
+        this.trialStartedAt = undefined;
+        // A rate limit that outlasted the retries keeps the provider out for as long as it asked
+        if (tripped || error.retryAfterMs !== undefined) {
+            this.openUntil = now + Math.max(tripped ? this.cooldownMs : 0, error.retryAfterMs ?? 0);
+        }
+    }
+
+    status(now: number = Date.now()): CircuitStatus {
+        const state = this.state(now);
+        return {
+            state,
+            failures: this.failures,
+            ...(state === 'open' && { retryAt: new Date(this.openUntil).toISOString() }),
+            ...(this.lastFailure && { lastFailure: this.lastFailure }),
+        };
+    }
+}
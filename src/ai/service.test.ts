@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { AIService, configureAIService, getAIService } from './service.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AIService, configureAIService, getAIService, getEnvConfig } from './service.js';
+import { configureAICache } from './cache.js';
+import { runWithRequestContext } from '../context.js';
+import { configureLimits, getLimitsConfig } from '../limits.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -8,6 +12,8 @@ global.fetch = mockFetch;
 describe('AIService', () => {
     beforeEach(() => {
         mockFetch.mockReset();
+        // Answers from one test must not be served to the next (see cache.test.ts)
+        configureAICache({ enabled: false });
     });
 
     describe('configuration', () => {
@@ -97,9 +103,20 @@ describe('AIService', () => {
                 defaultProvider: 'groq'
             });
 
+            const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
             const result = await service.generateText('Test prompt');
             expect(result.text).toBe('Generated from Gemini');
             expect(result.provider).toBe('gemini');
+
+            // The fallback is logged (stderr here; MCP clients also get it during tool calls)
+            expect(stderr).toHaveBeenCalledWith('[warning] ai: Provider groq failed', {
+                provider: 'groq',
+                error: 'Groq API error',
+            });
+            expect(stderr).toHaveBeenCalledWith('[info] ai: Fell back to provider gemini', expect.objectContaining({
+                provider: 'gemini',
+            }));
+            stderr.mockRestore();
         });
 
         it('should throw error when all providers fail', async () => {
@@ -111,6 +128,185 @@ describe('AIService', () => {
 
             await expect(service.generateText('Test')).rejects.toThrow('All providers failed');
         });
+
+        it('should redact API keys from provider errors', async () => {
+            mockFetch.mockRejectedValue(new Error('request with key my-configured-gemini-key failed'));
+
+            const service = new AIService({
+                gemini: { apiKey: 'my-configured-gemini-key' }
+            });
+
+            await expect(service.generateText('Test')).rejects.toThrow('request with key [REDACTED] failed');
+            await expect(service.generateText('Test')).rejects.not.toThrow('my-configured-gemini-key');
+        });
+
+        it('should send the Gemini key in a header, not the URL', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ candidates: [{ content: { parts: [{ text: 'Hi' }] } }] })
+            });
+
+            await new AIService({ gemini: { apiKey: 'test-gemini-key' } }).generateText('Test');
+
+            const [url, init] = mockFetch.mock.calls[0];
+            expect(url).not.toContain('test-gemini-key');
+            expect(init.headers['x-goog-api-key']).toBe('test-gemini-key');
+        });
+    });
+
+    describe('streamText', () => {
+        // A text/event-stream response split into the given chunks
+        function sseResponse(...chunks: string[]) {
+            const encoder = new TextEncoder();
+            return new Response(new ReadableStream({
+                start(controller) {
+                    for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+                    controller.close();
+                },
+            }), { headers: { 'Content-Type': 'text/event-stream' } });
+        }
+
+        async function collect(service: AIService, preferred?: string) {
+            const chunks: string[] = [];
+            const started: Array<[string, string[]]> = [];
+            const result = await service.streamText('Test prompt', {
+                onStart: (provider, failures) => started.push([provider, failures]),
+                onChunk: (text) => chunks.push(text),
+            }, preferred);
+            return { chunks, started, result };
+        }
+
+        it('should stream Groq deltas, including events split across reads', async () => {
+            mockFetch.mockResolvedValueOnce(sseResponse(
+                'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+                'ta":{"content":"lo"}}]}\n\n',
+                'data: [DONE]\n\n',
+            ));
+
+            const { chunks, started, result } = await collect(new AIService({ groq: { apiKey: 'test-key' } }));
+
+            expect(chunks).toEqual(['Hel', 'lo']);
+            expect(started).toEqual([['groq', []]]);
+            expect(result).toEqual({ text: 'Hello', provider: 'groq' });
+            expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+        });
+
+        it('should stream Claude text deltas', async () => {
+            mockFetch.mockResolvedValueOnce(sseResponse(
+                'event: message_start\ndata: {"type":"message_start"}\n\n',
+                'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n\n',
+                'event: ping\ndata: {"type":"ping"}\n\n',
+                'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":" there"}}\n\n',
+                'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+            ));
+
+            const { chunks } = await collect(new AIService({ claude: { apiKey: 'test-key' } }));
+
+            expect(chunks).toEqual(['Hi', ' there']);
+        });
+
+        it('should use the Gemini streaming endpoint', async () => {
+            mockFetch.mockResolvedValueOnce(sseResponse(
+                'data: {"candidates":[{"content":{"parts":[{"text":"Hi"}]}}]}\r\n\r\n',
+                'data: {"candidates":[{"content":{"parts":[{"text":" there"}]}}]}\r\n\r\n',
+            ));
+
+            const { chunks } = await collect(new AIService({ gemini: { apiKey: 'test-key' } }));
+
+            expect(chunks).toEqual(['Hi', ' there']);
+            expect(mockFetch.mock.calls[0][0]).toContain(':streamGenerateContent?alt=sse');
+        });
+
+        it('should fall back when a provider fails before the first token', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 401, text: async () => 'invalid api key' })
+                .mockResolvedValueOnce(sseResponse('data: {"candidates":[{"content":{"parts":[{"text":"Hi"}]}}]}\n\n'));
+            const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            const { started, result } = await collect(new AIService({
+                groq: { apiKey: 'test-groq' },
+                gemini: { apiKey: 'test-gemini' },
+            }));
+            stderr.mockRestore();
+
+            expect(started).toEqual([['gemini', ['groq: Groq API error: 401 - invalid api key']]]);
+            expect(result.provider).toBe('gemini');
+        });
+
+        it('should not fall back once text has been streamed', async () => {
+            mockFetch.mockResolvedValueOnce(sseResponse(
+                'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+                'data: {"error":{"message":"connection reset"}}\n\n',
+            ));
+            const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            const service = new AIService({ groq: { apiKey: 'test-groq' }, gemini: { apiKey: 'test-gemini' } });
+            await expect(collect(service)).rejects.toThrow('groq: Groq API error: connection reset');
+            stderr.mockRestore();
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('local provider', () => {
+        it('should call an OpenAI-compatible server without a key', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({ choices: [{ message: { content: 'Generated locally' } }] })
+            });
+
+            const service = new AIService({ local: { baseUrl: 'http://localhost:11434/v1/', model: 'qwen2.5' }, defaultProvider: 'local' });
+            const result = await service.generateText('Test prompt');
+
+            expect(result).toEqual({ text: 'Generated locally', provider: 'local' });
+            const [url, init] = mockFetch.mock.calls[0];
+            expect(url).toBe('http://localhost:11434/v1/chat/completions');
+            expect(init.headers.Authorization).toBeUndefined();
+            expect(JSON.parse(init.body).model).toBe('qwen2.5');
+        });
+
+        it('should send the key when one is configured', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [{ message: { content: 'Hi' } }] }) });
+
+            await new AIService({ local: { baseUrl: 'http://vllm.lan:8000/v1', apiKey: 'local-secret' } }).generateText('Test');
+
+            expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer local-secret');
+        });
+
+        it('should share its client with Groq', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 400, text: async () => 'bad model' });
+
+            await expect(new AIService({ groq: { apiKey: 'test-groq' } }).generateText('Test'))
+                .rejects.toThrow('groq: Groq API error: 400 - bad model');
+            const [url, init] = mockFetch.mock.calls[0];
+            expect(url).toBe('https://api.groq.com/openai/v1/chat/completions');
+            expect(init.headers.Authorization).toBe('Bearer test-groq');
+            expect(JSON.parse(init.body).model).toBe('llama-3.1-70b-versatile');
+        });
+
+        it('should take part in fallback after the hosted providers', async () => {
+            mockFetch
+                .mockRejectedValueOnce(new Error('Groq API error'))
+                .mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [{ message: { content: 'From local' } }] }) });
+            const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            const service = new AIService({ groq: { apiKey: 'test-groq' }, local: { baseUrl: 'http://localhost:1234/v1' } });
+            const result = await service.generateText('Test');
+            stderr.mockRestore();
+
+            expect(result.provider).toBe('local');
+            expect(mockFetch.mock.calls[1][0]).toBe('http://localhost:1234/v1/chat/completions');
+        });
+
+        it('should be configured from the environment', () => {
+            vi.stubEnv('LOCAL_AI_BASE_URL', 'http://localhost:11434/v1');
+            vi.stubEnv('LOCAL_AI_MODEL', 'llama3.2');
+            try {
+                expect(getEnvConfig().local).toEqual({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.2' });
+            } finally {
+                vi.unstubAllEnvs();
+            }
+        });
     });
 
     describe('extractJobDetails', () => {
@@ -228,6 +424,115 @@ describe('AIService', () => {
         });
     });
 
+    describe('MCP sampling', () => {
+        // Run fn as if handling a tool call from a client with the given capabilities
+        function asMCPClient<T>(capabilities: object, reply: string, fn: () => Promise<T>) {
+            const server = { getClientCapabilities: () => capabilities } as any;
+            const sendRequest = vi.fn(async () => ({
+                role: 'assistant',
+                model: 'client-model',
+                content: { type: 'text', text: reply },
+            }));
+            const extra = { signal: new AbortController().signal, sendRequest } as any;
+            return { sendRequest, result: runWithRequestContext({ server, extra }, fn) };
+        }
+
+        it('should not count sampling as a provider outside MCP requests', () => {
+            const service = new AIService({});
+            expect(service.hasProvider()).toBe(false);
+        });
+
+        it('should use the client model when no keys are configured', async () => {
+            const service = new AIService({});
+            const { sendRequest, result } = asMCPClient({ sampling: {} }, 'From the client', async () => {
+                expect(service.getConfiguredProviders()).toEqual(['sampling']);
+                return service.generateText('Say hi');
+            });
+
+            expect(await result).toEqual({ text: 'From the client', provider: 'sampling' });
+            expect(sendRequest).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    method: 'sampling/createMessage',
+                    params: expect.objectContaining({
+                        messages: [{ role: 'user', content: { type: 'text', text: 'Say hi' } }],
+                    }),
+                }),
+                expect.anything(),
+                expect.anything()
+            );
+        });
+
+        it('should parse structured responses from the client', async () => {
+            const service = new AIService({});
+            const { result } = asMCPClient(
+                { sampling: {} },
+                '```json\n{"title": "Engineer", "company": "Acme", "location": "Remote", "description": "Build"}\n```',
+                () => service.extractJobDetails('Engineer at Acme')
+            );
+
+            const { data, provider } = await result;
+            expect(provider).toBe('sampling');
+            expect(data.company).toBe('Acme');
+        });
+
+        it('should skip sampling when the client does not support it', () => {
+            const service = new AIService({});
+            const { result } = asMCPClient({}, 'unused', async () => service.hasProvider());
+
+            return expect(result).resolves.toBe(false);
+        });
+
+        it('should not open the sampling circuit when requests are declined', async () => {
+            const service = new AIService({});
+            const server = { getClientCapabilities: () => ({ sampling: {} }) } as any;
+            const sendRequest = vi.fn()
+                .mockRejectedValueOnce(new McpError(-1, 'User rejected sampling request'))
+                .mockRejectedValueOnce(new McpError(-1, 'User rejected sampling request'))
+                .mockRejectedValueOnce(new McpError(ErrorCode.RequestTimeout, 'Request timed out'))
+                .mockResolvedValue({ role: 'assistant', model: 'client-model', content: { type: 'text', text: 'Approved' } });
+            const extra = { signal: new AbortController().signal, sendRequest } as any;
+            const generate = () => runWithRequestContext({ server, extra }, () => service.generateText('Say hi'));
+
+            for (let i = 0; i < 3; i++) {
+                await expect(generate()).rejects.toThrow('sampling: Sampling declined');
+            }
+
+            expect(await generate()).toEqual({ text: 'Approved', provider: 'sampling' });
+            expect(sendRequest).toHaveBeenCalledTimes(4);
+        });
+
+        it('should not take a provider slot while waiting on the client', async () => {
+            // Every slot is busy; sampling still goes through
+            const limits = configureLimits({ ...getLimitsConfig(), maxProviderCalls: 1, queueMaxWaitMs: 10 });
+            let release!: () => void;
+            const busy = limits.providers.run(() => new Promise<void>(resolve => { release = resolve; }));
+
+            try {
+                const { result } = asMCPClient({ sampling: {} }, 'From the client', () => new AIService({}).generateText('Say hi'));
+                expect(await result).toEqual({ text: 'From the client', provider: 'sampling' });
+            } finally {
+                release();
+                await busy;
+                configureLimits();
+            }
+        });
+
+        it('should prefer configured API keys over sampling', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{ message: { content: 'Generated text from Groq' } }]
+                })
+            });
+
+            const service = new AIService({ groq: { apiKey: 'test-key' } });
+            const { sendRequest, result } = asMCPClient({ sampling: {} }, 'unused', () => service.generateText('Test'));
+
+            expect((await result).provider).toBe('groq');
+            expect(sendRequest).not.toHaveBeenCalled();
+        });
+    });
+
     describe('singleton functions', () => {
         it('should configure and retrieve singleton instance', () => {
             const service = configureAIService({
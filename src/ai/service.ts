@@ -3,61 +3,211 @@
  * Manages multiple AI providers with automatic fallback
  */
 
-import type { AIProvider, AIServiceConfig, JobDetails, ResumeAnalysis, EmailDraftContext, EmailDraft } from './types.js';
-import { GroqProvider, ClaudeProvider, GeminiProvider } from './providers/index.js';
+import type {
+    AIConfigUpdate,
+    AIProvider,
+    AIServiceConfig,
+    JobDetails,
+    ResumeAnalysis,
+    EmailDraftContext,
+    EmailDraft,
+    ProviderSettings,
+} from './types.js';
+import { SamplingProvider } from './providers/index.js';
+import {
+    formatSettingsIssue,
+    providerRegistry,
+    SAMPLING_CAPABILITIES,
+    SAMPLING_PROVIDER,
+    type ProviderCapabilities,
+    type ProviderRegistry,
+} from './registry.js';
+import { getAIConfigStore, type AIConfigStore } from './configStore.js';
+import {
+    CircuitBreaker,
+    classifyError,
+    getResilienceConfig,
+    retryDelay,
+    sleep,
+    timeoutError,
+    withTimeout,
+    type CircuitStatus,
+    type ProviderError,
+    type ResilienceConfig,
+} from './resilience.js';
+import { getAICache, type CacheKey, type CacheMode, type CacheOperation } from './cache.js';
+import { logger } from '../logger.js';
+import { getLimits, QueueTimeoutError } from '../limits.js';
+import { redact, registerSecret } from '../redact.js';
+
+/**
+ * Callbacks for AIService.streamText
+ */
+export interface StreamHandlers {
+    // Called once, before the first chunk, with the provider that is streaming and the failures before it
+    onStart?(provider: string, failures: string[]): void;
+    onChunk(text: string): void;
+}
+
+/**
+ * Options for one AI operation
+ */
+export interface AIRequestOptions {
+    // Skip the response cache (bypass), or skip reading it but store the new answer (refresh)
+    cache?: CacheMode;
+}
+
+/**
+ * How an operation's answers are cached
+ */
+interface CacheRequest<T> {
+    operation: CacheOperation;
+    input: unknown;
+    mode?: CacheMode;
+    // Providers answer with placeholders when they can't parse the model's output; don't keep those
+    worthCaching(result: T): boolean;
+}
+
+/**
+ * A configured provider as reported by /api/status
+ */
+export interface ProviderInfo {
+    name: string;
+    model: string | null;
+    capabilities: ProviderCapabilities;
+    default: boolean;
+    circuit: CircuitStatus;
+}
+
+// How long a key check may take before the key is considered unusable
+const TEST_CALL_TIMEOUT_MS = 20000;
+
+/**
+ * A configuration change was refused (missing key, failed test call)
+ */
+export class AIConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AIConfigError';
+    }
+}
+
+/**
+ * A provider's settings in a configuration (the same map holds defaultProvider)
+ */
+function settingsOf(config: AIConfigUpdate, name: string): ProviderSettings | null | undefined {
+    const settings = config[name];
+    return typeof settings === 'string' ? undefined : settings;
+}
+
+/**
+ * Keys set at runtime (e.g. through /api/config) aren't in the environment, so tell the redactor
+ */
+function registerSecrets(config: AIConfigUpdate, registry: ProviderRegistry) {
+    for (const definition of registry.list()) {
+        const settings = settingsOf(config, definition.name);
+        for (const field of definition.secrets) {
+            registerSecret(settings?.[field]);
+        }
+    }
+}
 
 export class AIService {
     private providers: Map<string, AIProvider> = new Map();
     private defaultProvider: string = 'groq';
-    private providerOrder: string[] = ['groq', 'claude', 'gemini'];
 
-    constructor(config: AIServiceConfig) {
-        // Initialize providers based on config
-        if (config.groq?.apiKey) {
-            this.providers.set('groq', new GroqProvider(config.groq.apiKey, config.groq.model));
-        }
-        if (config.claude?.apiKey) {
-            this.providers.set('claude', new ClaudeProvider(config.claude.apiKey, config.claude.model));
-        }
-        if (config.gemini?.apiKey) {
-            this.providers.set('gemini', new GeminiProvider(config.gemini.apiKey, config.gemini.model));
-        }
+    private config: AIServiceConfig = {};
+    private breakers: Map<string, CircuitBreaker> = new Map();
 
-        if (config.defaultProvider) {
-            this.defaultProvider = config.defaultProvider;
-        }
+    constructor(
+        config: AIServiceConfig,
+        private registry: ProviderRegistry = providerRegistry,
+        private resilience: ResilienceConfig = getResilienceConfig(),
+    ) {
+        // Always available; only usable while serving an MCP client that supports sampling
+        this.providers.set(SAMPLING_PROVIDER, new SamplingProvider());
+
+        this.updateConfig(config);
     }
 
     /**
      * Update provider configuration at runtime
      */
     updateConfig(config: Partial<AIServiceConfig>) {
-        if (config.groq?.apiKey) {
-            this.providers.set('groq', new GroqProvider(config.groq.apiKey, config.groq.model));
-        }
-        if (config.claude?.apiKey) {
-            this.providers.set('claude', new ClaudeProvider(config.claude.apiKey, config.claude.model));
-        }
-        if (config.gemini?.apiKey) {
-            this.providers.set('gemini', new GeminiProvider(config.gemini.apiKey, config.gemini.model));
+        registerSecrets(config, this.registry);
+
+        // Providers whose settings are incomplete or invalid are left out
+        for (const name of this.registry.names()) {
+            const settings = settingsOf(config, name);
+            const provider = settings && this.registry.create(name, settings);
+            if (provider) {
+                this.providers.set(name, provider);
+                this.config[name] = { ...settings };
+            }
         }
         if (config.defaultProvider) {
             this.defaultProvider = config.defaultProvider;
+            this.config.defaultProvider = config.defaultProvider;
         }
     }
 
     /**
-     * Get list of configured providers
+     * Provider settings in effect (including API keys - mask them before showing them anywhere)
+     */
+    getConfig(): AIServiceConfig {
+        return structuredClone(this.config);
+    }
+
+    /**
+     * Settings of one provider in effect, if it is configured
+     */
+    getProviderSettings(name: string): ProviderSettings | undefined {
+        const settings = settingsOf(this.config, name);
+        return settings ? { ...settings } : undefined;
+    }
+
+    getDefaultProvider(): string {
+        return this.defaultProvider;
+    }
+
+    /**
+     * Get list of configured providers (includes sampling during MCP calls from clients that support it)
      */
     getConfiguredProviders(): string[] {
-        return Array.from(this.providers.keys());
+        return Array.from(this.providers.values())
+            .filter(provider => provider.isConfigured())
+            .map(provider => provider.name);
+    }
+
+    private breaker(name: string): CircuitBreaker {
+        let breaker = this.breakers.get(name);
+        if (!breaker) {
+            breaker = new CircuitBreaker(this.resilience.circuitThreshold, this.resilience.circuitCooldownMs);
+            this.breakers.set(name, breaker);
+        }
+        return breaker;
+    }
+
+    /**
+     * Configured providers in fallback order, with their model, capabilities and circuit state
+     */
+    describeProviders(): ProviderInfo[] {
+        return this.fallbackOrder()
+            .filter(name => this.providers.get(name)?.isConfigured())
+            .map(name => ({
+                name,
+                model: this.providers.get(name)?.model ?? null,
+                capabilities: this.registry.get(name)?.capabilities ?? SAMPLING_CAPABILITIES,
+                default: name === this.defaultProvider,
+                circuit: this.breaker(name).status(),
+            }));
     }
 
     /**
      * Check if any provider is configured
      */
     hasProvider(): boolean {
-        return this.providers.size > 0;
+        return this.getConfiguredProviders().length > 0;
     }
 
     /**
@@ -71,58 +221,249 @@ export class AIService {
     }
 
     /**
-     * Execute with fallback - tries providers in order until one succeeds
+     * Hold a provider slot (MAX_CONCURRENT_AI) for one request to an API provider. Cache lookups,
+     * retry waits and sampling don't take one: sampling runs on the client's model and can wait
+     * minutes for the user to approve it.
      */
-    private async executeWithFallback<T>(
-        operation: (provider: AIProvider) => Promise<T>,
-        preferredProvider?: string
-    ): Promise<{ result: T; provider: string }> {
-        const errors: string[] = [];
+    private limited<T>(providerName: string, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        return providerName === SAMPLING_PROVIDER ? call() : getLimits().providers.run(call, signal);
+    }
 
-        // Build provider order: preferred first, then default, then others
-        const order = [...new Set([
+    /**
+     * Cache key for a provider's answer. Sampling answers come from the client's model and aren't cached.
+     */
+    private cacheKey<T>(cache: CacheRequest<T>, providerName: string, provider: AIProvider): CacheKey | undefined {
+        if (!this.registry.has(providerName) || !getAICache().isEnabled(cache.operation)) return undefined;
+        return { operation: cache.operation, input: cache.input, provider: providerName, model: provider.model ?? '' };
+    }
+
+    /**
+     * Provider order: preferred first, then default, then others in registration order.
+     * Sampling comes last: providers configured on the server win over the client's model.
+     */
+    private fallbackOrder(preferredProvider?: string): string[] {
+        return [...new Set([
             preferredProvider,
             this.defaultProvider,
-            ...this.providerOrder
+            ...this.registry.names(),
+            SAMPLING_PROVIDER,
         ].filter(Boolean) as string[])];
+    }
+
+    /**
+     * Execute with fallback - tries providers in order (preferred, default, then the rest) until one succeeds
+     */
+    private async executeWithFallback<T>(
+        operation: (provider: AIProvider, signal?: AbortSignal) => Promise<T>,
+        preferredProvider?: string,
+        cache?: CacheRequest<T>
+    ): Promise<{ result: T; provider: string; cached?: true }> {
+        const errors: string[] = [];
 
-        for (const providerName of order) {
+        for (const providerName of this.fallbackOrder(preferredProvider)) {
             const provider = this.providers.get(providerName);
             if (!provider || !provider.isConfigured()) continue;
 
+            // Checked per provider, so a cached answer never wins over the provider that would be asked first
+            const cacheKey = cache && this.cacheKey(cache, providerName, provider);
+            if (cacheKey && !cache.mode) {
+                const hit = await getAICache().get<T>(cacheKey);
+                if (hit !== undefined) {
+                    logger.debug('ai', `Answered ${cache.operation} from cache`, { provider: providerName, model: cacheKey.model });
+                    return { result: hit, provider: providerName, cached: true };
+                }
+            }
+
+            const breaker = this.breaker(providerName);
+            if (!breaker.allow()) {
+                errors.push(this.skipped(providerName, breaker));
+                continue;
+            }
+
             try {
-                const result = await operation(provider);
+                const result = await this.withRetries(providerName, (signal) => operation(provider, signal));
+                breaker.recordSuccess();
+                if (cacheKey && cache.mode !== 'bypass' && cache.worthCaching(result)) {
+                    await getAICache().set(cacheKey, result);
+                }
+                if (errors.length > 0) {
+                    logger.info('ai', `Fell back to provider ${providerName}`, { provider: providerName, failures: errors });
+                }
                 return { result, provider: providerName };
             } catch (error) {
-                const msg = error instanceof Error ? error.message : String(error);
+                // The server is busy, not the provider
+                if (error instanceof QueueTimeoutError) throw error;
+
+                const failure = classifyError(error);
+                breaker.recordFailure(failure);
+                // Provider errors can echo request URLs and headers
+                const msg = redact(failure.message);
                 errors.push(`${providerName}: ${msg}`);
-                console.error(`Provider ${providerName} failed:`, msg);
+                logger.warning('ai', `Provider ${providerName} failed`, { provider: providerName, error: msg });
             }
         }
 
+        logger.error('ai', 'All providers failed', { failures: errors });
         throw new Error(`All providers failed:\n${errors.join('\n')}`);
     }
 
+    /**
+     * Run one provider call, retrying transient failures. API providers get a per-attempt
+     * timeout; sampling waits on the client (and often the user), so it has its own.
+     */
+    private async withRetries<T>(providerName: string, call: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+        const timeoutMs = this.registry.has(providerName) ? this.resilience.timeoutMs : 0;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.limited(providerName, () => withTimeout(call, timeoutMs));
+            } catch (error) {
+                if (error instanceof QueueTimeoutError) throw error;
+
+                const failure = classifyError(error);
+                const delay = retryDelay(attempt, failure, this.resilience);
+                if (delay === undefined) throw failure;
+
+                this.logRetry(providerName, failure, attempt, delay);
+                await sleep(delay);
+            }
+        }
+    }
+
+    private logRetry(providerName: string, failure: ProviderError, attempt: number, delay: number): void {
+        logger.info('ai', `Retrying provider ${providerName} in ${delay}ms`, {
+            provider: providerName,
+            kind: failure.kind,
+            attempt: attempt + 1,
+            error: redact(failure.message),
+        });
+    }
+
+    private skipped(providerName: string, breaker: CircuitBreaker): string {
+        const { retryAt } = breaker.status();
+        logger.debug('ai', `Skipping provider ${providerName}: circuit open`, { provider: providerName, retryAt });
+        return `${providerName}: skipped after repeated failures${retryAt ? ` (retrying after ${retryAt})` : ''}`;
+    }
+
     /**
      * Generate text using AI
      */
-    async generateText(prompt: string, preferredProvider?: string): Promise<{ text: string; provider: string }> {
-        const { result, provider } = await this.executeWithFallback(
-            (p) => p.generateText(prompt),
-            preferredProvider
+    async generateText(
+        prompt: string,
+        preferredProvider?: string,
+        options: AIRequestOptions = {}
+    ): Promise<{ text: string; provider: string; cached?: true }> {
+        const { result, ...answer } = await this.executeWithFallback(
+            (p, signal) => p.generateText(prompt, signal),
+            preferredProvider,
+            { operation: 'generateText', input: prompt, mode: options.cache, worthCaching: text => text.length > 0 }
         );
-        return { text: result, provider };
+        return { text: result, ...answer };
+    }
+
+    /**
+     * Stream generated text. Providers that fail before their first chunk are skipped like in
+     * generateText; once text has been sent there is no fallback and the error is thrown.
+     */
+    async streamText(
+        prompt: string,
+        handlers: StreamHandlers,
+        preferredProvider?: string,
+        signal?: AbortSignal
+    ): Promise<{ text: string; provider: string }> {
+        const errors: string[] = [];
+
+        for (const providerName of this.fallbackOrder(preferredProvider)) {
+            const provider = this.providers.get(providerName);
+            if (!provider || !provider.isConfigured()) continue;
+
+            const breaker = this.breaker(providerName);
+            if (!breaker.allow()) {
+                errors.push(this.skipped(providerName, breaker));
+                continue;
+            }
+
+            let started = false;
+            let text = '';
+            const start = () => {
+                started = true;
+                if (errors.length > 0) {
+                    logger.info('ai', `Fell back to provider ${providerName}`, { provider: providerName, failures: errors });
+                }
+                handlers.onStart?.(providerName, errors);
+            };
+
+            // API providers must start answering within the timeout, as in generateText
+            const timeoutMs = this.registry.has(providerName) ? this.resilience.timeoutMs : 0;
+
+            // Retries happen only before the first chunk: after that the caller has partial text
+            for (let attempt = 0; ; attempt++) {
+                const firstChunk = new AbortController();
+                let timer: NodeJS.Timeout | undefined;
+                try {
+                    await this.limited(providerName, async () => {
+                        if (timeoutMs > 0) {
+                            timer = setTimeout(() => firstChunk.abort(timeoutError(timeoutMs)), timeoutMs);
+                        }
+                        const attemptSignal = signal ? AbortSignal.any([signal, firstChunk.signal]) : firstChunk.signal;
+                        for await (const chunk of provider.streamText(prompt, attemptSignal)) {
+                            clearTimeout(timer);
+                            if (!started) start();
+                            text += chunk;
+                            handlers.onChunk(chunk);
+                        }
+                    }, signal);
+                    if (!started) start();
+                    breaker.recordSuccess();
+                    return { text, provider: providerName };
+                } catch (error) {
+                    if (error instanceof QueueTimeoutError) throw error;
+
+                    // The provider sees an aborted request; report why it was aborted
+                    const failure = classifyError(firstChunk.signal.aborted ? firstChunk.signal.reason : error);
+                    const msg = redact(failure.message);
+                    if (started || signal?.aborted) {
+                        // A cancelled request says nothing about the provider
+                        if (!signal?.aborted) breaker.recordFailure(failure);
+                        logger.warning('ai', `Provider ${providerName} failed while streaming`, { provider: providerName, error: msg });
+                        throw new Error(`${providerName}: ${msg}`);
+                    }
+
+                    const delay = retryDelay(attempt, failure, this.resilience);
+                    if (delay !== undefined) {
+                        this.logRetry(providerName, failure, attempt, delay);
+                        await sleep(delay, signal);
+                        continue;
+                    }
+
+                    breaker.recordFailure(failure);
+                    errors.push(`${providerName}: ${msg}`);
+                    logger.warning('ai', `Provider ${providerName} failed`, { provider: providerName, error: msg });
+                    break;
+                } finally {
+                    clearTimeout(timer);
+                }
+            }
+        }
+
+        logger.error('ai', 'All providers failed', { failures: errors });
+        throw new Error(`All providers failed:\n${errors.join('\n')}`);
     }
 
     /**
      * Extract job details from text
      */
-    async extractJobDetails(text: string, preferredProvider?: string): Promise<{ data: JobDetails; provider: string }> {
-        const { result, provider } = await this.executeWithFallback(
-            (p) => p.extractJobDetails(text),
-            preferredProvider
+    async extractJobDetails(
+        text: string,
+        preferredProvider?: string,
+        options: AIRequestOptions = {}
+    ): Promise<{ data: JobDetails; provider: string; cached?: true }> {
+        const { result, ...answer } = await this.executeWithFallback(
+            (p, signal) => p.extractJobDetails(text, signal),
+            preferredProvider,
+            { operation: 'extractJob', input: text, mode: options.cache, worthCaching: job => !!(job.title || job.company) }
         );
-        return { data: result, provider };
+        return { data: result, ...answer };
     }
 
     /**
@@ -131,13 +472,20 @@ export class AIService {
     async analyzeResume(
         jobDescription: string,
         resumeText: string,
-        preferredProvider?: string
-    ): Promise<{ data: ResumeAnalysis; provider: string }> {
-        const { result, provider } = await this.executeWithFallback(
-            (p) => p.analyzeResume(jobDescription, resumeText),
-            preferredProvider
+        preferredProvider?: string,
+        options: AIRequestOptions = {}
+    ): Promise<{ data: ResumeAnalysis; provider: string; cached?: true }> {
+        const { result, ...answer } = await this.executeWithFallback(
+            (p, signal) => p.analyzeResume(jobDescription, resumeText, signal),
+            preferredProvider,
+            {
+                operation: 'analyzeResume',
+                input: { jobDescription, resumeText },
+                mode: options.cache,
+                worthCaching: analysis => analysis.strengths.length + analysis.gaps.length > 0,
+            }
         );
-        return { data: result, provider };
+        return { data: result, ...answer };
     }
 
     /**
@@ -145,41 +493,178 @@ export class AIService {
      */
     async draftEmail(
         context: EmailDraftContext,
-        preferredProvider?: string
-    ): Promise<{ data: EmailDraft; provider: string }> {
-        const { result, provider } = await this.executeWithFallback(
-            (p) => p.draftEmail(context),
-            preferredProvider
+        preferredProvider?: string,
+        options: AIRequestOptions = {}
+    ): Promise<{ data: EmailDraft; provider: string; cached?: true }> {
+        const { result, ...answer } = await this.executeWithFallback(
+            (p, signal) => p.draftEmail(context, signal),
+            preferredProvider,
+            { operation: 'draftEmail', input: context, mode: options.cache, worthCaching: draft => draft.confidence > 0 }
+        );
+        return { data: result, ...answer };
+    }
+}
+
+/**
+ * Provider settings from the environment variables each registered provider declares
+ */
+export function getEnvConfig(): AIServiceConfig {
+    const config: AIConfigUpdate = { defaultProvider: process.env.DEFAULT_AI_PROVIDER || 'groq' };
+    for (const definition of providerRegistry.list()) {
+        config[definition.name] = Object.fromEntries(
+            Object.entries(definition.env).map(([field, variable]) => [field, process.env[variable]])
         );
-        return { data: result, provider };
     }
+    return toServiceConfig(config);
 }
 
-// Singleton instance - configured via environment or API
+/**
+ * Apply a partial update: providers and fields left out are kept, null removes a provider
+ */
+export function mergeConfig(base: AIConfigUpdate, update: AIConfigUpdate): AIConfigUpdate {
+    const merged: AIConfigUpdate = { ...base };
+    for (const [name, settings] of Object.entries(update)) {
+        if (name === 'defaultProvider' || settings === undefined) continue;
+        merged[name] = settings === null ? null : { ...settingsOf(base, name), ...settingsOf(update, name) };
+    }
+    if (update.defaultProvider) {
+        merged.defaultProvider = update.defaultProvider;
+    }
+    return merged;
+}
+
+/**
+ * Keep registered providers whose settings are complete, without empty fields
+ */
+function toServiceConfig(config: AIConfigUpdate): AIServiceConfig {
+    const result: AIServiceConfig = {};
+    for (const name of providerRegistry.names()) {
+        const settings = settingsOf(config, name);
+        if (!settings) continue;
+
+        const present = Object.fromEntries(Object.entries(settings).filter(([, value]) => value));
+        if (!providerRegistry.checkSettings(name, present)) {
+            result[name] = present;
+        }
+    }
+    if (config.defaultProvider) {
+        result.defaultProvider = config.defaultProvider;
+    }
+    return result;
+}
+
+/**
+ * Check a configuration change (POST /api/config) against the registered providers' schemas.
+ * Fields are all optional here; whether the result is complete is checked after merging.
+ */
+export function parseConfigUpdate(body: unknown): AIConfigUpdate {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new AIConfigError('Invalid configuration: body must be an object');
+    }
+
+    const names = providerRegistry.names();
+    const update: AIConfigUpdate = {};
+    for (const [name, value] of Object.entries(body)) {
+        if (name === 'defaultProvider') {
+            if (typeof value !== 'string' || !providerRegistry.has(value)) {
+                throw new AIConfigError(`Invalid configuration: defaultProvider must be one of ${names.join(', ')}`);
+            }
+            update.defaultProvider = value;
+            continue;
+        }
+
+        const definition = providerRegistry.get(name);
+        if (!definition) {
+            throw new AIConfigError(`Invalid configuration: unknown provider "${name}" (expected ${names.join(', ')})`);
+        }
+        if (value === null) {
+            update[name] = null;
+            continue;
+        }
+
+        const parsed = definition.settings.partial().strict().safeParse(value);
+        if (!parsed.success) {
+            throw new AIConfigError(`Invalid configuration: ${formatSettingsIssue(parsed.error, name)}`);
+        }
+        update[name] = parsed.data as ProviderSettings;
+    }
+    return update;
+}
+
+/**
+ * Saved changes, ignored (with an error logged) when the file can't be decrypted
+ */
+function loadSavedConfig(store: AIConfigStore): AIConfigUpdate {
+    try {
+        return store.load();
+    } catch (error) {
+        logger.error('ai', 'Ignoring saved provider configuration', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return {};
+    }
+}
+
+/**
+ * Make a small request with the new settings so a bad key or model is caught before it is saved
+ */
+async function testProvider(name: string, provider: AIProvider): Promise<void> {
+    try {
+        await withTimeout(signal => provider.generateText('Reply with the single word OK.', signal), TEST_CALL_TIMEOUT_MS);
+    } catch (error) {
+        throw new AIConfigError(`${name}: test call failed: ${redact(error instanceof Error ? error.message : String(error))}`);
+    }
+}
+
+export interface UpdateAIConfigOptions {
+    // Make a test call for every provider in the update (default true)
+    validate?: boolean;
+    store?: AIConfigStore;
+}
+
+// Singleton instance - configured via environment, saved configuration or API
 let aiServiceInstance: AIService | null = null;
 
 export function getAIService(): AIService {
     if (!aiServiceInstance) {
-        aiServiceInstance = new AIService({
-            groq: {
-                apiKey: process.env.GROQ_API_KEY || '',
-                model: process.env.GROQ_MODEL,
-            },
-            claude: {
-                apiKey: process.env.CLAUDE_API_KEY || '',
-                model: process.env.CLAUDE_MODEL,
-            },
-            gemini: {
-                apiKey: process.env.GEMINI_API_KEY || '',
-                model: process.env.GEMINI_MODEL,
-            },
-            defaultProvider: (process.env.DEFAULT_AI_PROVIDER as 'groq' | 'claude' | 'gemini') || 'groq',
-        });
+        const saved = loadSavedConfig(getAIConfigStore());
+        aiServiceInstance = new AIService(toServiceConfig(mergeConfig(getEnvConfig(), saved)));
     }
     return aiServiceInstance;
 }
 
+/**
+ * Replace the service with an in-memory configuration (nothing is saved)
+ */
 export function configureAIService(config: AIServiceConfig): AIService {
     aiServiceInstance = new AIService(config);
     return aiServiceInstance;
 }
+
+/**
+ * Apply a partial update on top of the saved configuration, check the changed
+ * providers with a test call, save it encrypted and swap in the new service
+ */
+export async function updateAIConfig(update: AIConfigUpdate, options: UpdateAIConfigOptions = {}): Promise<AIService> {
+    const store = options.store ?? getAIConfigStore();
+    const saved = mergeConfig(store.load(), update);
+    const merged = mergeConfig(getEnvConfig(), saved);
+    const config = toServiceConfig(merged);
+
+    if (options.validate !== false) {
+        for (const [name, settings] of Object.entries(update)) {
+            if (name === 'defaultProvider' || !settings) continue;
+
+            const provider = providerRegistry.create(name, settingsOf(config, name) ?? {});
+            if (!provider) {
+                throw new AIConfigError(`${name}: ${providerRegistry.checkSettings(name, settingsOf(merged, name))}`);
+            }
+            await testProvider(name, provider);
+        }
+    }
+    if (update.defaultProvider && !config[update.defaultProvider]) {
+        throw new AIConfigError(`Default provider ${update.defaultProvider} is not configured`);
+    }
+
+    store.save(saved);
+    aiServiceInstance = new AIService(config);
+    return aiServiceInstance;
+}
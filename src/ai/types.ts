@@ -4,10 +4,15 @@
 
 export interface AIProvider {
     name: string;
-    generateText(prompt: string): Promise<string>;
-    extractJobDetails(text: string): Promise<JobDetails>;
-    analyzeResume(jobDescription: string, resumeText: string): Promise<ResumeAnalysis>;
-    draftEmail(context: EmailDraftContext): Promise<EmailDraft>;
+    // Model used for requests, where the provider picks one
+    model?: string;
+    // Aborting the signal stops the request (the service aborts requests that time out)
+    generateText(prompt: string, signal?: AbortSignal): Promise<string>;
+    // Yields text as the model produces it
+    streamText(prompt: string, signal?: AbortSignal): AsyncIterable<string>;
+    extractJobDetails(text: string, signal?: AbortSignal): Promise<JobDetails>;
+    analyzeResume(jobDescription: string, resumeText: string, signal?: AbortSignal): Promise<ResumeAnalysis>;
+    draftEmail(context: EmailDraftContext, signal?: AbortSignal): Promise<EmailDraft>;
     isConfigured(): boolean;
 }
 
@@ -32,13 +37,20 @@ export interface ResumeAnalysis {
     };
 }
 
+// Shared by the draftOutreachEmail tool schema and the draftOutreachEmail prompt
+export const EMAIL_TONES = ['Formal', 'Casual', 'Enthusiastic', 'Professional'] as const;
+export const EMAIL_INTENTS = ['Connect', 'FollowUp', 'ReferralRequest', 'PeerOutreach'] as const;
+
+export type EmailTone = typeof EMAIL_TONES[number];
+export type EmailIntent = typeof EMAIL_INTENTS[number];
+
 export interface EmailDraftContext {
     recipientName: string;
     recipientRole: string;
     companyName: string;
     jobTitle: string;
-    tone: 'Formal' | 'Casual' | 'Enthusiastic' | 'Professional';
-    intent: 'Connect' | 'FollowUp' | 'ReferralRequest' | 'PeerOutreach';
+    tone: EmailTone;
+    intent: EmailIntent;
     jobDescription?: string;
     userBackground?: string;
 }
@@ -49,18 +61,23 @@ export interface EmailDraft {
     confidence: number;
 }
 
+/**
+ * Settings of one provider (apiKey, model, baseUrl, ...); which fields it needs
+ * is described by its registered schema (see registry.ts)
+ */
+export type ProviderSettings = Record<string, string | undefined>;
+
 export interface AIServiceConfig {
-    groq?: {
-        apiKey: string;
-        model?: string;
-    };
-    claude?: {
-        apiKey: string;
-        model?: string;
-    };
-    gemini?: {
-        apiKey: string;
-        model?: string;
-    };
-    defaultProvider?: 'groq' | 'claude' | 'gemini';
+    defaultProvider?: string;
+    // Settings per registered provider, keyed by name (groq, claude, gemini, local, ...)
+    [provider: string]: ProviderSettings | string | undefined;
+}
+
+/**
+ * Partial configuration change (POST /api/config): providers and fields that are
+ * left out keep their current values, null removes a provider
+ */
+export interface AIConfigUpdate {
+    defaultProvider?: string;
+    [provider: string]: ProviderSettings | string | null | undefined;
 }
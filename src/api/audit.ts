@@ -0,0 +1,50 @@
+/**
+ * Audit trail for the REST API
+ * Records every request (except status polling) once the response is done.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { getAuditLog, type AuditLog } from '../audit.js';
+import { callerId } from './rateLimit.js';
+
+/**
+ * Middleware recording the route, caller, arguments, status and provider of each request
+ */
+export function auditRequests(log?: AuditLog) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (req.method === 'GET' && req.path === '/status') {
+            next();
+            return;
+        }
+
+        const started = Date.now();
+        let body: unknown;
+        const json = res.json.bind(res);
+        res.json = (value: unknown) => {
+            body = value;
+            return json(value);
+        };
+
+        // "close" also fires when the client goes away before the response is sent
+        res.once('close', () => {
+            const fields = body && typeof body === 'object' ? body as { provider?: unknown; error?: unknown } : {};
+            // Streaming routes don't send JSON, so they leave the provider in res.locals
+            const provider = fields.provider ?? res.locals.provider;
+            const failed = !res.writableFinished || res.statusCode >= 400;
+            (log ?? getAuditLog()).record({
+                transport: 'rest',
+                caller: callerId(req, res),
+                kind: 'route',
+                name: `${req.method} ${req.baseUrl}${req.path}`,
+                args: req.method === 'GET' ? req.query : req.body,
+                durationMs: Date.now() - started,
+                outcome: failed ? 'error' : 'success',
+                status: res.statusCode,
+                ...(typeof provider === 'string' && { provider }),
+                ...(failed && { error: typeof fields.error === 'string' ? fields.error : res.writableFinished ? `HTTP ${res.statusCode}` : 'Client disconnected' }),
+            });
+        });
+
+        next();
+    };
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { APIKeyStore, isAuthEnabled, isPublicDeployment, parseScopes } from './auth.js';
+import { createAPIRoutes } from './routes.js';
+
+vi.mock('../ai/service.js', async () => {
+    const actual = await vi.importActual('../ai/service.js');
+    return {
+        ...actual,
+        getAIService: vi.fn(() => ({
+            hasProvider: vi.fn(() => true),
+            getConfiguredProviders: vi.fn(() => ['groq']),
+            describeProviders: vi.fn(() => []),
+            generateText: vi.fn(async () => ({ text: 'Generated text', provider: 'groq' })),
+        })),
+        configureAIService: vi.fn(() => ({ getConfiguredProviders: () => ['groq'] })),
+    };
+});
+
+describe('API key authentication', () => {
+    let dir: string;
+    let store: APIKeyStore;
+    let app: express.Application;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'letsmcp-keys-'));
+        store = new APIKeyStore(path.join(dir, 'api-keys.json'));
+        app = express();
+        app.use(express.json());
+        app.use('/api', createAPIRoutes({ keys: store }));
+    });
+
+    afterEach(() => {
+        delete process.env.API_AUTH;
+        vi.unstubAllEnvs();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('APIKeyStore', () => {
+        it('should store only a hash of the key', () => {
+            const key = store.create('jobos', ['ai:generate']);
+            const file = fs.readFileSync(path.join(dir, 'api-keys.json'), 'utf-8');
+
+            expect(key).toMatch(/^lmcp_/);
+            expect(file).not.toContain(key);
+            expect(store.verify(key)?.name).toBe('jobos');
+            expect(store.verify(key + 'x')).toBeUndefined();
+        });
+
+        it('should reject duplicate and malformed names', () => {
+            store.create('jobos', ['scrape']);
+
+            expect(() => store.create('jobos', ['scrape'])).toThrow('already exists');
+            expect(() => store.create('my key', ['scrape'])).toThrow('Key names');
+        });
+
+        it('should pick up keys written by another process', () => {
+            const other = new APIKeyStore(path.join(dir, 'api-keys.json'));
+            expect(store.hasKeys()).toBe(false);
+
+            const key = other.create('cli', ['scrape']);
+            expect(store.verify(key)?.name).toBe('cli');
+
+            other.revoke('cli');
+            expect(store.verify(key)).toBeUndefined();
+        });
+
+        it('should validate scopes', () => {
+            expect(parseScopes('scrape, ai:generate,scrape')).toEqual(['scrape', 'ai:generate']);
+            expect(() => parseScopes('ai:generate,admin')).toThrow('Unknown scope(s): admin');
+            expect(() => parseScopes('')).toThrow('At least one scope');
+        });
+    });
+
+    describe('auth modes', () => {
+        it('should enable auth once a key exists', () => {
+            expect(isAuthEnabled(store, 'auto')).toBe(false);
+            store.create('jobos', ['scrape']);
+
+            expect(isAuthEnabled(store, 'auto')).toBe(true);
+            expect(isAuthEnabled(store, 'off')).toBe(false);
+        });
+
+        it('should require keys on public deployments without any', async () => {
+            for (const host of ['0.0.0.0', '::', '192.168.1.20', 'letsmcp.example.com']) {
+                vi.stubEnv('HOST', host);
+                expect(isPublicDeployment(), host).toBe(true);
+                expect(isAuthEnabled(store, 'auto'), host).toBe(true);
+            }
+            for (const host of ['localhost', '127.0.0.1', '::1', '[::1]']) {
+                vi.stubEnv('HOST', host);
+                expect(isPublicDeployment(), host).toBe(false);
+            }
+
+            vi.stubEnv('NODE_ENV', 'production');
+            expect(isAuthEnabled(store, 'auto')).toBe(true);
+            expect(isAuthEnabled(store, 'off')).toBe(false);
+        });
+
+        it('should refuse requests on a public bind until a key is created', async () => {
+            vi.stubEnv('HOST', '0.0.0.0');
+
+            const response = await request(app).post('/api/config').send({ groq: { apiKey: 'attacker-key' } });
+            expect(response.status).toBe(401);
+        });
+
+        it('should leave routes open when there are no keys', async () => {
+            const response = await request(app).post('/api/generate').send({ prompt: 'Hi' });
+            expect(response.status).toBe(200);
+        });
+
+        it('should require a key in required mode even without keys', async () => {
+            process.env.API_AUTH = 'required';
+
+            const response = await request(app).post('/api/generate').send({ prompt: 'Hi' });
+            expect(response.status).toBe(401);
+        });
+    });
+
+    describe('scoped routes', () => {
+        let key: string;
+
+        beforeEach(() => {
+            key = store.create('jobos', ['ai:generate']);
+        });
+
+        it('should reject missing and invalid keys with 401', async () => {
+            const missing = await request(app).post('/api/generate').send({ prompt: 'Hi' });
+            const invalid = await request(app).post('/api/generate').set('Authorization', 'Bearer lmcp_nope').send({ prompt: 'Hi' });
+            const malformed = await request(app).post('/api/generate').set('Authorization', key).send({ prompt: 'Hi' });
+
+            expect(missing.status).toBe(401);
+            expect(missing.body.error).toBe('API key required');
+            expect(missing.headers['www-authenticate']).toBe('Bearer scope="ai:generate"');
+            expect(invalid.status).toBe(401);
+            expect(invalid.body.error).toBe('Invalid API key');
+            expect(malformed.status).toBe(401);
+        });
+
+        it('should allow a key with the route scope', async () => {
+            const response = await request(app).post('/api/generate').set('Authorization', `Bearer ${key}`).send({ prompt: 'Hi' });
+
+            expect(response.status).toBe(200);
+            expect(response.body.text).toBe('Generated text');
+        });
+
+        it('should reject a key without the route scope with 403', async () => {
+            const scrape = await request(app).post('/api/scrape-linkedin').set('Authorization', `Bearer ${key}`).send({ url: 'https://example.com' });
+            const config = await request(app).post('/api/config').set('Authorization', `Bearer ${key}`).send({});
+
+            expect(scrape.status).toBe(403);
+            expect(scrape.body.error).toBe('API key "jobos" lacks the "scrape" scope');
+            expect(config.status).toBe(403);
+        });
+
+        it('should report the caller on /api/status', async () => {
+            const anonymous = await request(app).get('/api/status');
+            const identified = await request(app).get('/api/status').set('Authorization', `Bearer ${key}`);
+
+            expect(anonymous.status).toBe(200);
+            expect(anonymous.body).toMatchObject({ auth: 'enabled', caller: null });
+            expect(identified.body.caller).toEqual({ name: 'jobos', scopes: ['ai:generate'] });
+        });
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * API key authentication for the REST API and the /mcp endpoint
+ * Callers send `Authorization: Bearer <key>`. Keys are named, carry scopes, and are stored
+ * only as SHA-256 hashes in a local JSON file (API_KEYS_FILE, default .letsmcp/api-keys.json).
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NextFunction, Request, Response } from 'express';
+
+export const SCOPES = ['ai:generate', 'jobs:extract', 'scrape', 'admin:config', 'mcp'] as const;
+export type Scope = typeof SCOPES[number];
+
+/**
+ * off      - no authentication
+ * auto     - required on a public deployment (see isPublicDeployment) or once at least one key
+ *            exists (default, keeps fresh local installs working)
+ * required - every scoped route needs a key
+ */
+export type AuthMode = 'off' | 'auto' | 'required';
+
+export interface APIKey {
+    name: string;
+    // SHA-256 of the key, hex-encoded
+    hash: string;
+    scopes: Scope[];
+    createdAt: string;
+}
+
+/**
+ * Who made the request, as reported by /api/status
+ */
+export interface Caller {
+    name: string;
+    scopes: Scope[];
+}
+
+const KEY_PREFIX = 'lmcp_';
+const KEY_NAME_PATTERN = /^[\w.-]+$/;
+
+function hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+export function getAuthMode(): AuthMode {
+    const mode = process.env.API_AUTH?.trim().toLowerCase();
+    return mode === 'off' || mode === 'required' ? mode : 'auto';
+}
+
+/**
+ * Whether the server is reachable from other machines: bound to a non-loopback HOST, or
+ * running with NODE_ENV=production. A fresh deployment must not serve /api/config to anyone.
+ */
+export function isPublicDeployment(): boolean {
+    if (process.env.NODE_ENV === 'production') return true;
+
+    const host = (process.env.HOST || 'localhost').trim().toLowerCase().replace(/^\[(.*)\]$/, '$1');
+    return !(host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host));
+}
+
+export function getAPIKeysFile(): string {
+    return path.resolve(process.cwd(), process.env.API_KEYS_FILE || path.join('.letsmcp', 'api-keys.json'));
+}
+
+export function parseScopes(value: string): Scope[] {
+    const scopes = value.split(',').map(s => s.trim()).filter(Boolean);
+    const unknown = scopes.filter(scope => !SCOPES.includes(scope as Scope));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown scope(s): ${unknown.join(', ')}. Valid scopes: ${SCOPES.join(', ')}`);
+    }
+    if (scopes.length === 0) {
+        throw new Error(`At least one scope is required: ${SCOPES.join(', ')}`);
+    }
+    return [...new Set(scopes)] as Scope[];
+}
+
+/**
+ * Hashed API keys on disk. Changes made by another process (e.g. `letsmcp keys create`)
+ * are picked up on the next request.
+ */
+export class APIKeyStore {
+    private keys: APIKey[] = [];
+    // mtime and size of the file as last read
+    private loadedVersion = '';
+
+    constructor(private file: string = getAPIKeysFile()) {}
+
+    private load(): APIKey[] {
+        let version: string;
+        try {
+            version = this.version();
+        } catch {
+            // No key file yet
+            this.keys = [];
+            this.loadedVersion = '';
+            return this.keys;
+        }
+
+        if (version !== this.loadedVersion) {
+            const data = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as { keys?: APIKey[] };
+            this.keys = data.keys ?? [];
+            this.loadedVersion = version;
+        }
+        return this.keys;
+    }
+
+    private save(keys: APIKey[]): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        fs.writeFileSync(this.file, JSON.stringify({ keys }, null, 2) + '\n', { mode: 0o600 });
+        this.keys = keys;
+        this.loadedVersion = this.version();
+    }
+
+    private version(): string {
+        const stat = fs.statSync(this.file);
+        return `${stat.mtimeMs}:${stat.size}`;
+    }
+
+    list(): APIKey[] {
+        return [...this.load()];
+    }
+
+    hasKeys(): boolean {
+        return this.load().length > 0;
+    }
+
+    /**
+     * Create a key and return it - this is the only time the plaintext is available
+     */
+    create(name: string, scopes: Scope[]): string {
+        if (!KEY_NAME_PATTERN.test(name)) {
+            throw new Error('Key names may only contain letters, digits, "_", "-" and "."');
+        }
+        const keys = this.load();
+        if (keys.some(key => key.name === name)) {
+            throw new Error(`API key "${name}" already exists`);
+        }
+
+        const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+        this.save([...keys, { name, hash: hashKey(key), scopes, createdAt: new Date().toISOString() }]);
+        return key;
+    }
+
+    revoke(name: string): boolean {
+        const keys = this.load();
+        const remaining = keys.filter(key => key.name !== name);
+        if (remaining.length === keys.length) return false;
+
+        this.save(remaining);
+        return true;
+    }
+
+    /**
+     * Find the key matching a presented bearer token
+     */
+    verify(token: string): APIKey | undefined {
+        const presented = Buffer.from(hashKey(token), 'hex');
+        return this.load().find(key => {
+            const stored = Buffer.from(key.hash, 'hex');
+            return stored.length === presented.length && timingSafeEqual(stored, presented);
+        });
+    }
+}
+
+let apiKeyStoreInstance: APIKeyStore | null = null;
+
+export function getAPIKeyStore(): APIKeyStore {
+    if (!apiKeyStoreInstance) {
+        apiKeyStoreInstance = new APIKeyStore();
+    }
+    return apiKeyStoreInstance;
+}
+
+/**
+ * Whether scoped routes currently require a key
+ */
+export function isAuthEnabled(store: APIKeyStore, mode: AuthMode = getAuthMode()): boolean {
+    return mode === 'required' || (mode === 'auto' && (isPublicDeployment() || store.hasKeys()));
+}
+
+/**
+ * Resolve the bearer token (if any) to res.locals.caller. Never rejects by itself;
+ * an invalid token is remembered so requireScope can answer 401.
+ */
+export function authenticate(store: APIKeyStore, mode?: AuthMode) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        // API_AUTH is read per request unless the mode is fixed
+        res.locals.authEnabled = isAuthEnabled(store, mode ?? getAuthMode());
+
+        const header = req.headers.authorization;
+        if (header) {
+            const match = /^Bearer\s+(\S+)$/i.exec(header);
+            const key = match ? store.verify(match[1]) : undefined;
+            if (key) {
+                res.locals.caller = { name: key.name, scopes: key.scopes } satisfies Caller;
+            } else {
+                res.locals.invalidKey = true;
+            }
+        }
+        next();
+    };
+}
+
+/**
+ * Reject the request unless the caller's key has the scope (no-op while auth is disabled)
+ */
+export function requireScope(scope: Scope) {
+    return (_req: Request, res: Response, next: NextFunction) => {
+        if (!res.locals.authEnabled) {
+            next();
+            return;
+        }
+
+        const caller = res.locals.caller as Caller | undefined;
+        if (!caller) {
+            res.setHeader('WWW-Authenticate', `Bearer scope="${scope}"`);
+            res.status(401).json({ error: res.locals.invalidKey ? 'Invalid API key' : 'API key required' });
+            return;
+        }
+        if (!caller.scopes.includes(scope)) {
+            res.setHeader('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${scope}"`);
+            res.status(403).json({ error: `API key "${caller.name}" lacks the "${scope}" scope` });
+            return;
+        }
+        next();
+    };
+}
@@ -1 +1,3 @@
 export { createAPIRoutes } from './routes.js';
+export { APIKeyStore, getAPIKeyStore, SCOPES } from './auth.js';
+export type { APIKey, Caller, Scope } from './auth.js';
@@ -0,0 +1,78 @@
+/**
+ * Rate limiting for the REST API
+ * Sets the IETF RateLimit-* headers and answers 429 with Retry-After once a caller's bucket is empty.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { getLimits, QueueTimeoutError, type RateLimiter, type RateLimitResult } from '../limits.js';
+import type { Caller } from './auth.js';
+
+/**
+ * Express "trust proxy" setting from TRUST_PROXY. Behind a reverse proxy (Railway, Render, Fly)
+ * every connection comes from the proxy, so without it all anonymous callers share one bucket.
+ * "true" trusts any proxy, a number trusts that many hops, anything else is a list of proxy
+ * addresses or subnets ("loopback", "10.0.0.0/8, 172.16.0.0/12"). Unset: req.ip is the peer.
+ */
+export function getTrustProxy(): boolean | number | string {
+    const value = process.env.TRUST_PROXY?.trim();
+    if (!value || value === 'false') return false;
+    if (value === 'true') return true;
+    return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Bucket key for the caller: the API key name when authenticated, otherwise the client IP
+ */
+export function callerId(req: Request, res: Response): string {
+    const caller = res.locals.caller as Caller | undefined;
+    return caller ? `key:${caller.name}` : `ip:${req.ip ?? 'unknown'}`;
+}
+
+function setHeaders(res: Response, result: RateLimitResult): void {
+    res.setHeader('RateLimit-Policy', result.policy);
+    res.setHeader('RateLimit-Limit', String(result.limit));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+    res.setHeader('RateLimit-Reset', String(result.resetSeconds));
+}
+
+/**
+ * Take a token for this request. Sends 429 and returns false when the caller is over the limit.
+ */
+export function checkRateLimit(req: Request, res: Response, limiter: RateLimiter, key: string = callerId(req, res)): boolean {
+    const result = limiter.consume(key);
+    if (!result) return true;
+
+    setHeaders(res, result);
+    if (!result.allowed) {
+        res.setHeader('Retry-After', String(result.retryAfterSeconds));
+        res.status(429).json({
+            error: `Rate limit exceeded for ${limiter.name} requests (${result.limit} per ${limiter.rule?.windowSeconds}s). Try again in ${result.retryAfterSeconds}s.`,
+        });
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Middleware limiting a route. Scrapes share one bucket per caller across routes
+ * (LinkedIn counts page loads, not endpoints); AI routes get a bucket per route.
+ */
+export function rateLimit(name: 'scrape' | 'ai') {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const key = name === 'ai' ? `${req.path}:${callerId(req, res)}` : callerId(req, res);
+        if (checkRateLimit(req, res, getLimits()[name], key)) next();
+    };
+}
+
+/**
+ * Send a route error; a full queue becomes 503 with Retry-After instead of a 500
+ */
+export function sendError(res: Response, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof QueueTimeoutError) {
+        res.setHeader('Retry-After', String(Math.max(1, Math.ceil(error.waitedMs / 1000))));
+        res.status(503).json({ error: message });
+        return;
+    }
+    res.status(500).json({ error: message });
+}
@@ -1,7 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import express from 'express';
 import request from 'supertest';
 import { createAPIRoutes } from './routes.js';
+import { APIKeyStore } from './auth.js';
 import { configureAIService } from '../ai/service.js';
 
 // Mock the AI service
@@ -12,7 +16,17 @@ vi.mock('../ai/service.js', async () => {
         getAIService: vi.fn(() => ({
             hasProvider: vi.fn(() => true),
             getConfiguredProviders: vi.fn(() => ['groq', 'gemini']),
+            describeProviders: vi.fn(() => [
+                { name: 'groq', model: 'llama-3.1-70b-versatile', capabilities: { streaming: true, local: false }, default: true },
+                { name: 'gemini', model: 'gemini-1.5-flash', capabilities: { streaming: true, local: false }, default: false },
+            ]),
             generateText: vi.fn(async () => ({ text: 'Generated text', provider: 'groq' })),
+            streamText: vi.fn(async (_prompt: string, handlers: { onStart?(provider: string, failures: string[]): void; onChunk(text: string): void }) => {
+                handlers.onStart?.('gemini', ['groq: Groq API error: 503 - overloaded']);
+                handlers.onChunk('Generated ');
+                handlers.onChunk('text');
+                return { text: 'Generated text', provider: 'gemini' };
+            }),
             extractJobDetails: vi.fn(async () => ({
                 data: { title: 'Engineer', company: 'Corp', location: 'NYC', description: 'Job desc' },
                 provider: 'groq'
@@ -26,7 +40,8 @@ vi.mock('../ai/service.js', async () => {
                 provider: 'groq'
             }))
         })),
-        configureAIService: vi.fn()
+        configureAIService: vi.fn(),
+        updateAIConfig: vi.fn(async () => ({ getConfiguredProviders: () => ['groq'] }))
     };
 });
 
@@ -54,11 +69,18 @@ vi.mock('playwright', () => ({
 
 describe('API Routes', () => {
     let app: express.Application;
+    let dir: string;
 
     beforeEach(() => {
+        // Never the machine's own key file, HOST or NODE_ENV: these tests run without keys
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'letsmcp-routes-'));
         app = express();
         app.use(express.json());
-        app.use('/api', createAPIRoutes());
+        app.use('/api', createAPIRoutes({ keys: new APIKeyStore(path.join(dir, 'api-keys.json')), auth: 'off' }));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
     });
 
     describe('GET /api/status', () => {
@@ -69,6 +91,12 @@ describe('API Routes', () => {
             expect(response.body.status).toBe('ok');
             expect(response.body.version).toBe('2.0.0');
             expect(response.body.providers).toEqual(['groq', 'gemini']);
+            expect(response.body.providerDetails[0]).toEqual({
+                name: 'groq',
+                model: 'llama-3.1-70b-versatile',
+                capabilities: { streaming: true, local: false },
+                default: true,
+            });
             expect(response.body.hasAI).toBe(true);
         });
     });
@@ -95,6 +123,32 @@ describe('API Routes', () => {
         });
     });
 
+    describe('POST /api/generate/stream', () => {
+        it('should stream tokens as Server-Sent Events', async () => {
+            const response = await request(app)
+                .post('/api/generate/stream')
+                .send({ prompt: 'Test prompt' });
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toContain('text/event-stream');
+            expect(response.text).toBe([
+                'event: provider\ndata: {"provider":"gemini","failures":["groq: Groq API error: 503 - overloaded"]}\n\n',
+                'event: token\ndata: {"text":"Generated "}\n\n',
+                'event: token\ndata: {"text":"text"}\n\n',
+                'event: done\ndata: {"provider":"gemini"}\n\n',
+            ].join(''));
+        });
+
+        it('should return 400 for missing prompt', async () => {
+            const response = await request(app)
+                .post('/api/generate/stream')
+                .send({});
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('prompt is required');
+        });
+    });
+
     describe('POST /api/extract-job', () => {
         it('should extract job details from text', async () => {
             const response = await request(app)
@@ -115,6 +169,15 @@ describe('API Routes', () => {
             expect(response.status).toBe(400);
             expect(response.body.error).toBe('Either text or url is required');
         });
+
+        it('should refuse URLs on the private network', async () => {
+            const response = await request(app)
+                .post('/api/extract-job')
+                .send({ url: 'http://169.254.169.254/latest/meta-data/' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Blocked: 169.254.169.254 is a private address');
+        });
     });
 
     describe('POST /api/analyze-resume', () => {
@@ -177,6 +240,15 @@ describe('API Routes', () => {
             expect(response.status).toBe(400);
             expect(response.body.error).toBe('Valid LinkedIn job URL is required');
         });
+
+        it('should return 400 for URLs that only mention linkedin.com/jobs', async () => {
+            const response = await request(app)
+                .post('/api/scrape-linkedin')
+                .send({ url: 'http://169.254.169.254/latest/?x=linkedin.com/jobs' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Valid LinkedIn job URL is required');
+        });
     });
 
     describe('POST /api/config', () => {
@@ -5,54 +5,175 @@
 
 import type { Request, Response, Router } from 'express';
 import { Router as createRouter } from 'express';
-import { getAIService, configureAIService } from '../ai/service.js';
-import type { AIServiceConfig, EmailDraftContext } from '../ai/types.js';
+import { AIConfigError, getAIService, parseConfigUpdate, updateAIConfig } from '../ai/service.js';
+import { providerRegistry } from '../ai/registry.js';
+import { CACHE_OPERATIONS, getAICache, isCacheMode, type CacheFilter, type CacheMode, type CacheOperation } from '../ai/cache.js';
+import type { EmailDraftContext } from '../ai/types.js';
+import { logger } from '../logger.js';
+import { getLimits, QueueTimeoutError } from '../limits.js';
+import { FetchBlockedError, isLinkedInJobUrl, JOB_FETCH_TIMEOUT_MS, safeFetch } from '../safeFetch.js';
+import { maskSecret, redact, redactValue } from '../redact.js';
+import { getAuditLog, parseAuditQuery, type AuditLog } from '../audit.js';
+import { authenticate, getAPIKeyStore, requireScope, type APIKeyStore, type AuthMode, type Caller } from './auth.js';
+import { checkRateLimit, rateLimit, sendError } from './rateLimit.js';
+import { auditRequests } from './audit.js';
 import { chromium } from 'playwright-extra';
 import stealth from 'puppeteer-extra-plugin-stealth';
 
 chromium.use(stealth());
 
-export function createAPIRoutes(): Router {
+const CACHE_MODE_ERROR = 'cache must be "bypass" or "refresh"';
+
+export interface APIRoutesOptions {
+    // Defaults to the shared store (API_KEYS_FILE)
+    keys?: APIKeyStore;
+    // Defaults to the shared audit log (AUDIT_LOG_DIR)
+    audit?: AuditLog;
+    // Defaults to API_AUTH
+    auth?: AuthMode;
+}
+
+export function createAPIRoutes(options: APIRoutesOptions = {}): Router {
     const router = createRouter();
 
-    // Middleware to parse JSON
-    router.use((req, res, next) => {
-        if (req.headers['content-type']?.includes('application/json')) {
-            next();
-        } else {
-            next();
-        }
+    // Resolve the bearer token; each route below checks its own scope
+    router.use(authenticate(options.keys ?? getAPIKeyStore(), options.auth));
+
+    // Record who called what once the response is done
+    router.use(auditRequests(options.audit));
+
+    // Error bodies often quote provider or upstream errors; never let a secret through
+    router.use((_req, res, next) => {
+        const json = res.json.bind(res);
+        res.json = (body: unknown) => json(res.statusCode >= 400 ? redactValue(body) : body);
+        next();
     });
 
     /**
      * GET /api/status
-     * Returns API status and configured providers
+     * Returns API status, configured providers (with model and capabilities) and who is calling
      */
     router.get('/status', (_req: Request, res: Response) => {
         const service = getAIService();
+        const caller = res.locals.caller as Caller | undefined;
         res.json({
             status: 'ok',
             version: '2.0.0',
             providers: service.getConfiguredProviders(),
+            providerDetails: service.describeProviders(),
             hasAI: service.hasProvider(),
+            auth: res.locals.authEnabled ? 'enabled' : 'disabled',
+            caller: caller ?? null,
         });
     });
 
+    /**
+     * GET /api/audit
+     * Query the audit log: ?from=&to= (ISO dates), tool (tool name or "POST /api/generate"),
+     * outcome (success/error), transport (stdio/http/rest), limit. Newest entries first.
+     */
+    router.get('/audit', requireScope('admin:config'), async (req: Request, res: Response) => {
+        let query;
+        try {
+            query = parseAuditQuery(new URLSearchParams(req.query as Record<string, string>));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            res.status(400).json({ error: message });
+            return;
+        }
+
+        try {
+            const entries = await (options.audit ?? getAuditLog()).query(query);
+            res.json({ entries });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    /**
+     * GET /api/cache
+     * AI response cache statistics: entries and size per operation, TTLs, hits and misses
+     */
+    router.get('/cache', requireScope('admin:config'), async (_req: Request, res: Response) => {
+        try {
+            res.json(await getAICache().stats());
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    /**
+     * DELETE /api/cache
+     * Purge cached AI responses: everything, or only those matching ?operation=, ?provider=
+     * and ?expired=true
+     */
+    router.delete('/cache', requireScope('admin:config'), async (req: Request, res: Response) => {
+        const { operation, provider, expired } = req.query as Record<string, string | undefined>;
+        if (operation && !CACHE_OPERATIONS.includes(operation as CacheOperation)) {
+            res.status(400).json({ error: `Invalid operation: ${operation} (expected ${CACHE_OPERATIONS.join(', ')})` });
+            return;
+        }
+
+        const filter: CacheFilter = {
+            operation: operation as CacheOperation | undefined,
+            provider,
+            expiredOnly: expired === 'true',
+        };
+        try {
+            const removed = await getAICache().purge(filter);
+            logger.info('api', 'Purged AI response cache', { ...filter, removed });
+            res.json({ success: true, removed });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    /**
+     * GET /api/config
+     * Current provider configuration with API keys (and other secret settings) masked
+     */
+    router.get('/config', requireScope('admin:config'), (_req: Request, res: Response) => {
+        const service = getAIService();
+        const providers: Record<string, Record<string, string | null>> = {};
+        for (const definition of providerRegistry.list()) {
+            const settings = service.getProviderSettings(definition.name);
+            if (!settings) continue;
+
+            const shown: Record<string, string | null> = {};
+            for (const [field, value] of Object.entries(settings)) {
+                shown[field] = value && definition.secrets.includes(field) ? maskSecret(value) : value ?? null;
+            }
+            shown.model = service.getProvider(definition.name)?.model ?? settings.model ?? null;
+            providers[definition.name] = shown;
+        }
+        res.json({ providers, defaultProvider: service.getDefaultProvider() });
+    });
+
     /**
      * POST /api/config
-     * Update AI provider configuration at runtime
+     * Update AI provider configuration at runtime. Only the providers and fields sent are changed
+     * (null removes a provider); changed providers are checked with a test call before the
+     * configuration is saved. Send "validate": false to skip the test call.
      */
-    router.post('/config', (req: Request, res: Response) => {
+    router.post('/config', requireScope('admin:config'), async (req: Request, res: Response) => {
+        const { validate, ...body } = (req.body ?? {}) as { validate?: unknown };
+        if (validate !== undefined && typeof validate !== 'boolean') {
+            res.status(400).json({ error: 'Invalid configuration: validate must be a boolean' });
+            return;
+        }
+
         try {
-            const config = req.body as AIServiceConfig;
-            const service = configureAIService(config);
+            const service = await updateAIConfig(parseConfigUpdate(body), { validate });
             res.json({
                 success: true,
                 providers: service.getConfiguredProviders(),
             });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            res.status(400).json({ error: message });
+            if (error instanceof AIConfigError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            sendError(res, error);
         }
     });
 
@@ -60,14 +181,18 @@ export function createAPIRoutes(): Router {
      * POST /api/generate
      * Generate text using AI
      */
-    router.post('/generate', async (req: Request, res: Response) => {
+    router.post('/generate', requireScope('ai:generate'), rateLimit('ai'), async (req: Request, res: Response) => {
         try {
-            const { prompt, provider } = req.body as { prompt: string; provider?: string };
+            const { prompt, provider, cache } = req.body as { prompt: string; provider?: string; cache?: CacheMode };
 
             if (!prompt) {
                 res.status(400).json({ error: 'prompt is required' });
                 return;
             }
+            if (!isCacheMode(cache)) {
+                res.status(400).json({ error: CACHE_MODE_ERROR });
+                return;
+            }
 
             const service = getAIService();
             if (!service.hasProvider()) {
@@ -75,15 +200,77 @@ export function createAPIRoutes(): Router {
                 return;
             }
 
-            const result = await service.generateText(prompt, provider);
+            const result = await service.generateText(prompt, provider, { cache });
             res.json({
                 success: true,
                 text: result.text,
                 provider: result.provider,
+                ...(result.cached && { cached: true }),
             });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            res.status(500).json({ error: message });
+            sendError(res, error);
+        }
+    });
+
+    /**
+     * POST /api/generate/stream
+     * Generate text as Server-Sent Events: "provider" names the provider that is streaming
+     * (after any fallbacks), "token" events carry text, then "done" or "error". Errors before
+     * the first token are answered with a JSON error instead.
+     */
+    router.post('/generate/stream', requireScope('ai:generate'), rateLimit('ai'), async (req: Request, res: Response) => {
+        const { prompt, provider } = (req.body ?? {}) as { prompt?: string; provider?: string };
+
+        if (!prompt) {
+            res.status(400).json({ error: 'prompt is required' });
+            return;
+        }
+
+        const service = getAIService();
+        if (!service.hasProvider()) {
+            res.status(503).json({ error: 'No AI providers configured' });
+            return;
+        }
+
+        // Stop generating when the client goes away
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+
+        const send = (event: string, data: unknown) => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        try {
+            const result = await service.streamText(prompt, {
+                onStart(name, failures) {
+                    res.locals.provider = name;
+                    res.status(200);
+                    res.setHeader('Content-Type', 'text/event-stream');
+                    res.setHeader('Cache-Control', 'no-cache');
+                    res.setHeader('Connection', 'keep-alive');
+                    // Keep reverse proxies (nginx) from buffering the stream
+                    res.setHeader('X-Accel-Buffering', 'no');
+                    res.flushHeaders();
+                    send('provider', { provider: name, ...(failures.length > 0 && { failures }) });
+                },
+                onChunk(text) {
+                    send('token', { text });
+                },
+            }, provider, controller.signal);
+
+            send('done', { provider: result.provider });
+            res.end();
+        } catch (error) {
+            if (!res.headersSent) {
+                sendError(res, error);
+                return;
+            }
+            if (!controller.signal.aborted) {
+                send('error', { error: redact(error instanceof Error ? error.message : 'Unknown error') });
+            }
+            res.end();
         }
     });
 
@@ -91,20 +278,27 @@ export function createAPIRoutes(): Router {
      * POST /api/extract-job
      * Extract job details from text or URL
      */
-    router.post('/extract-job', async (req: Request, res: Response) => {
+    router.post('/extract-job', requireScope('jobs:extract'), rateLimit('ai'), async (req: Request, res: Response) => {
         try {
-            const { text, url, provider } = req.body as { text?: string; url?: string; provider?: string };
+            const { text, url, provider, cache } = req.body as { text?: string; url?: string; provider?: string; cache?: CacheMode };
 
             if (!text && !url) {
                 res.status(400).json({ error: 'Either text or url is required' });
                 return;
             }
+            if (!isCacheMode(cache)) {
+                res.status(400).json({ error: CACHE_MODE_ERROR });
+                return;
+            }
 
             let contentToAnalyze = text || '';
 
             // If URL provided, try to scrape it first
             if (url) {
-                if (url.includes('linkedin.com/jobs')) {
+                if (isLinkedInJobUrl(url)) {
+                    // Scraping counts against the caller's scrape limit as well
+                    if (!checkRateLimit(req, res, getLimits().scrape)) return;
+
                     // Try LinkedIn scraper, but gracefully fall back on failure
                     try {
                         const scraped = await scrapeLinkedInJob(url);
@@ -126,7 +320,11 @@ export function createAPIRoutes(): Router {
                         // Fall back to AI extraction with scraped description
                         contentToAnalyze = scraped.description || url;
                     } catch (scrapeError) {
-                        console.warn('LinkedIn scraper failed:', scrapeError);
+                        if (scrapeError instanceof QueueTimeoutError) throw scrapeError;
+                        logger.warning('scraper', 'LinkedIn scraper failed', {
+                            url,
+                            error: scrapeError instanceof Error ? scrapeError.message : 'Unknown error',
+                        });
                         // LinkedIn requires login - return helpful error
                         res.status(400).json({
                             success: false,
@@ -137,11 +335,19 @@ export function createAPIRoutes(): Router {
                         return;
                     }
                 } else {
-                    // For other URLs, fetch content
+                    // For other URLs, fetch content (never from the server's own network)
                     try {
-                        const response = await fetch(url);
+                        const response = await safeFetch(url, { signal: AbortSignal.timeout(JOB_FETCH_TIMEOUT_MS) });
+                        if (!response.ok) {
+                            res.status(400).json({ error: `Could not fetch job posting: HTTP ${response.status} ${response.statusText}`, url });
+                            return;
+                        }
                         contentToAnalyze = await response.text();
-                    } catch {
+                    } catch (fetchError) {
+                        if (fetchError instanceof FetchBlockedError) {
+                            res.status(400).json({ error: fetchError.message, url });
+                            return;
+                        }
                         contentToAnalyze = url;
                     }
                 }
@@ -153,15 +359,15 @@ export function createAPIRoutes(): Router {
                 return;
             }
 
-            const result = await service.extractJobDetails(contentToAnalyze, provider);
+            const result = await service.extractJobDetails(contentToAnalyze, provider, { cache });
             res.json({
                 success: true,
                 data: result.data,
                 provider: result.provider,
+                ...(result.cached && { cached: true }),
             });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            res.status(500).json({ error: message });
+            sendError(res, error);
         }
     });
 
@@ -169,7 +375,7 @@ export function createAPIRoutes(): Router {
      * POST /api/scrape-linkedin
      * Scrape a LinkedIn job posting directly
      */
-    router.post('/scrape-linkedin', async (req: Request, res: Response) => {
+    router.post('/scrape-linkedin', requireScope('scrape'), rateLimit('scrape'), async (req: Request, res: Response) => {
         try {
             const { url, includeDescription = true, screenshot = false } = req.body as {
                 url: string;
@@ -177,7 +383,7 @@ export function createAPIRoutes(): Router {
                 screenshot?: boolean;
             };
 
-            if (!url || !url.includes('linkedin.com/jobs')) {
+            if (typeof url !== 'string' || !isLinkedInJobUrl(url)) {
                 res.status(400).json({ error: 'Valid LinkedIn job URL is required' });
                 return;
             }
@@ -188,8 +394,7 @@ export function createAPIRoutes(): Router {
                 data: result,
             });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            res.status(500).json({ error: message });
+            sendError(res, error);
         }
     });
 
@@ -197,18 +402,23 @@ export function createAPIRoutes(): Router {
      * POST /api/analyze-resume
      * Analyze resume against job description
      */
-    router.post('/analyze-resume', async (req: Request, res: Response) => {
+    router.post('/analyze-resume', requireScope('ai:generate'), rateLimit('ai'), async (req: Request, res: Response) => {
         try {
-            const { jobDescription, resumeText, provider } = req.body as {
+            const { jobDescription, resumeText, provider, cache } = req.body as {
                 jobDescription: string;
                 resumeText: string;
                 provider?: string;
+                cache?: CacheMode;
             };
 
             if (!jobDescription || !resumeText) {
                 res.status(400).json({ error: 'jobDescription and resumeText are required' });
                 return;
             }
+            if (!isCacheMode(cache)) {
+                res.status(400).json({ error: CACHE_MODE_ERROR });
+                return;
+            }
 
             const service = getAIService();
             if (!service.hasProvider()) {
@@ -216,15 +426,15 @@ export function createAPIRoutes(): Router {
                 return;
             }
 
-            const result = await service.analyzeResume(jobDescription, resumeText, provider);
+            const result = await service.analyzeResume(jobDescription, resumeText, provider, { cache });
             res.json({
                 success: true,
                 data: result.data,
                 provider: result.provider,
+                ...(result.cached && { cached: true }),
             });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            res.status(500).json({ error: message });
+            sendError(res, error);
         }
     });
 
@@ -232,14 +442,18 @@ export function createAPIRoutes(): Router {
      * POST /api/draft-email
      * Draft an outreach email
      */
-    router.post('/draft-email', async (req: Request, res: Response) => {
+    router.post('/draft-email', requireScope('ai:generate'), rateLimit('ai'), async (req: Request, res: Response) => {
         try {
-            const context = req.body as EmailDraftContext & { provider?: string };
+            const { provider, cache, ...context } = req.body as EmailDraftContext & { provider?: string; cache?: CacheMode };
 
             if (!context.recipientName || !context.companyName || !context.jobTitle) {
                 res.status(400).json({ error: 'recipientName, companyName, and jobTitle are required' });
                 return;
             }
+            if (!isCacheMode(cache)) {
+                res.status(400).json({ error: CACHE_MODE_ERROR });
+                return;
+            }
 
             // Set defaults
             context.tone = context.tone || 'Professional';
@@ -252,15 +466,15 @@ export function createAPIRoutes(): Router {
                 return;
             }
 
-            const result = await service.draftEmail(context, context.provider);
+            const result = await service.draftEmail(context, provider, { cache });
             res.json({
                 success: true,
                 data: result.data,
                 provider: result.provider,
+                ...(result.cached && { cached: true }),
             });
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            res.status(500).json({ error: message });
+            sendError(res, error);
         }
     });
 
@@ -268,9 +482,17 @@ export function createAPIRoutes(): Router {
 }
 
 /**
- * LinkedIn job scraper helper
+ * LinkedIn job scraper helper, waiting for a free browser slot
  */
-async function scrapeLinkedInJob(
+function scrapeLinkedInJob(
+    url: string,
+    includeDescription: boolean = true,
+    screenshot: boolean = false
+): ReturnType<typeof launchAndScrape> {
+    return getLimits().browsers.run(() => launchAndScrape(url, includeDescription, screenshot));
+}
+
+async function launchAndScrape(
     url: string,
     includeDescription: boolean = true,
     screenshot: boolean = false
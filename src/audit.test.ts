@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AuditLog, configureAuditLog, parseAuditQuery, sanitizeArgs, type AuditLogOptions } from './audit.js';
+import { APIKeyStore } from './api/auth.js';
+import { createAPIRoutes } from './api/routes.js';
+import { createServer } from './server.js';
+
+vi.mock('./ai/service.js', async () => {
+    const actual = await vi.importActual('./ai/service.js');
+    return {
+        ...actual,
+        getAIService: vi.fn(() => ({
+            hasProvider: vi.fn(() => true),
+            getConfiguredProviders: vi.fn(() => ['groq']),
+            generateText: vi.fn(async () => ({ text: 'Generated text', provider: 'groq' })),
+        })),
+    };
+});
+
+describe('audit log', () => {
+    let dir: string;
+    let options: AuditLogOptions;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'letsmcp-audit-'));
+        options = { dir, enabled: true, maxBytes: 1024 * 1024, maxFiles: 30 };
+    });
+
+    afterEach(() => {
+        configureAuditLog();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const entry = (name: string, timestamp: string, outcome: 'success' | 'error' = 'success') => ({
+        timestamp,
+        transport: 'stdio' as const,
+        caller: null,
+        kind: 'tool' as const,
+        name,
+        args: {},
+        durationMs: 1,
+        outcome,
+    });
+
+    describe('sanitizeArgs', () => {
+        it('should redact secret fields and tokens and trim long values', () => {
+            const args = sanitizeArgs({
+                groqApiKey: 'gsk_live_value',
+                keywords: ['react'],
+                maxTokens: 100,
+                prompt: `use sk-ant-${'a'.repeat(30)} please`,
+                resume: 'x'.repeat(600),
+            }) as Record<string, unknown>;
+
+            expect(args.groqApiKey).toBe('[REDACTED]');
+            expect(args.keywords).toEqual(['react']);
+            expect(args.maxTokens).toBe(100);
+            expect(args.prompt).toBe('use [REDACTED] please');
+            expect(args.resume).toMatch(/^x{500}…\[\+100 chars\]$/);
+        });
+    });
+
+    describe('AuditLog', () => {
+        it('should append JSONL entries to a file per day', async () => {
+            const log = new AuditLog(options);
+            log.record(entry('webFetch', '2026-03-01T10:00:00.000Z'));
+            log.record(entry('readFile', '2026-03-02T10:00:00.000Z'));
+            await log.flush();
+
+            expect(fs.readdirSync(dir).sort()).toEqual(['audit-2026-03-01.jsonl', 'audit-2026-03-02.jsonl']);
+            const line = JSON.parse(fs.readFileSync(path.join(dir, 'audit-2026-03-01.jsonl'), 'utf-8'));
+            expect(line).toMatchObject({ name: 'webFetch', transport: 'stdio', outcome: 'success' });
+        });
+
+        it('should rotate by size and prune old files', async () => {
+            const log = new AuditLog({ ...options, maxBytes: 300, maxFiles: 3 });
+            for (let i = 0; i < 6; i++) {
+                log.record(entry(`tool${i}`, `2026-03-01T10:00:0${i}.000Z`));
+            }
+            await log.flush();
+
+            const files = fs.readdirSync(dir).sort();
+            expect(files).toHaveLength(3);
+            expect(files).toContain('audit-2026-03-01.jsonl');
+            // The newest entries survive
+            expect((await log.query()).map(e => e.name)[0]).toBe('tool5');
+        });
+
+        it('should not overwrite rotated files after pruning', async () => {
+            const log = new AuditLog({ ...options, maxBytes: 300, maxFiles: 3 });
+            for (let i = 0; i < 10; i++) {
+                log.record(entry(`tool${i}`, `2026-03-01T10:00:0${i}.000Z`));
+            }
+            await log.flush();
+
+            // Rotated files keep counting up, so the survivors are the newest entries with no gaps
+            const names = (await log.query()).map(e => e.name);
+            expect(names[0]).toBe('tool9');
+            expect(names).toEqual(names.map((_, i) => `tool${9 - i}`));
+            expect(fs.readdirSync(dir).sort()).toEqual(['audit-2026-03-01.3.jsonl', 'audit-2026-03-01.4.jsonl', 'audit-2026-03-01.jsonl']);
+        });
+
+        it('should filter by time range, tool and outcome, newest first', async () => {
+            const log = new AuditLog(options);
+            log.record(entry('webFetch', '2026-03-01T10:00:00.000Z'));
+            log.record(entry('webFetch', '2026-03-02T10:00:00.000Z', 'error'));
+            log.record(entry('readFile', '2026-03-02T11:00:00.000Z', 'error'));
+            log.record(entry('webFetch', '2026-03-03T10:00:00.000Z'));
+
+            expect((await log.query()).map(e => e.timestamp.slice(0, 13))).toEqual([
+                '2026-03-03T10', '2026-03-02T11', '2026-03-02T10', '2026-03-01T10',
+            ]);
+            expect(await log.query({ tool: 'webFetch', outcome: 'error' })).toHaveLength(1);
+            expect(await log.query({ from: new Date('2026-03-02T00:00:00Z'), to: new Date('2026-03-02T23:59:59Z') })).toHaveLength(2);
+            expect(await log.query({ limit: 1 })).toHaveLength(1);
+        });
+
+        it('should write nothing when disabled', async () => {
+            const log = new AuditLog({ ...options, enabled: false });
+            log.record(entry('webFetch', '2026-03-01T10:00:00.000Z'));
+            await log.flush();
+
+            expect(fs.readdirSync(dir)).toEqual([]);
+        });
+
+        it('should reject invalid query parameters', () => {
+            expect(() => parseAuditQuery(new URLSearchParams('from=yesterday'))).toThrow('Invalid from date');
+            expect(() => parseAuditQuery(new URLSearchParams('outcome=maybe'))).toThrow('Invalid outcome');
+            expect(() => parseAuditQuery(new URLSearchParams('limit=0'))).toThrow('Invalid limit');
+            expect(parseAuditQuery(new URLSearchParams('tool=webFetch&limit=5'))).toEqual({ tool: 'webFetch', limit: 5 });
+        });
+    });
+
+    describe('REST API', () => {
+        let store: APIKeyStore;
+        let log: AuditLog;
+        let app: express.Application;
+
+        beforeEach(() => {
+            store = new APIKeyStore(path.join(dir, 'api-keys.json'));
+            log = new AuditLog({ ...options, dir: path.join(dir, 'audit') });
+            app = express();
+            app.use(express.json());
+            app.use('/api', createAPIRoutes({ keys: store, audit: log }));
+        });
+
+        it('should record calls with caller, status and provider', async () => {
+            const key = store.create('jobos', ['ai:generate']);
+            await request(app).post('/api/generate').set('Authorization', `Bearer ${key}`).send({ prompt: 'Hi' });
+            await request(app).post('/api/generate').set('Authorization', `Bearer ${key}`).send({});
+
+            const [failed, ok] = await log.query();
+            expect(ok).toMatchObject({
+                transport: 'rest',
+                caller: 'key:jobos',
+                kind: 'route',
+                name: 'POST /api/generate',
+                args: { prompt: 'Hi' },
+                outcome: 'success',
+                status: 200,
+                provider: 'groq',
+            });
+            expect(failed).toMatchObject({ outcome: 'error', status: 400, error: 'prompt is required' });
+        });
+
+        it('should serve /api/audit to admin keys only', async () => {
+            const admin = store.create('admin', ['admin:config']);
+            const user = store.create('jobos', ['ai:generate']);
+            await request(app).post('/api/generate').set('Authorization', `Bearer ${user}`).send({ prompt: 'Hi' });
+
+            const forbidden = await request(app).get('/api/audit').set('Authorization', `Bearer ${user}`);
+            const response = await request(app).get('/api/audit?tool=POST%20/api/generate&outcome=success').set('Authorization', `Bearer ${admin}`);
+            const invalid = await request(app).get('/api/audit?outcome=maybe').set('Authorization', `Bearer ${admin}`);
+
+            expect(forbidden.status).toBe(403);
+            expect(response.status).toBe(200);
+            expect(response.body.entries).toHaveLength(1);
+            expect(response.body.entries[0].caller).toBe('key:jobos');
+            expect(invalid.status).toBe(400);
+        });
+    });
+
+    describe('MCP', () => {
+        let client: Client;
+
+        beforeEach(async () => {
+            configureAuditLog(options);
+            client = new Client({ name: 'audit-client', version: '1.0.0' });
+            const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+            await createServer().connect(serverTransport);
+            await client.connect(clientTransport);
+        });
+
+        afterEach(async () => {
+            await client.close();
+        });
+
+        it('should record tool calls and serve them as audit:// resources', async () => {
+            await client.callTool({ name: 'webFetch', arguments: { url: 'http://169.254.169.254/' } });
+
+            const { contents } = await client.readResource({ uri: 'audit://log?tool=webFetch&outcome=error' });
+            const entries = JSON.parse((contents[0] as { text: string }).text);
+
+            expect(entries).toHaveLength(1);
+            expect(entries[0]).toMatchObject({
+                transport: 'stdio',
+                caller: 'client:audit-client',
+                kind: 'tool',
+                name: 'webFetch',
+                args: { url: 'http://169.254.169.254/' },
+                outcome: 'error',
+                error: expect.stringContaining('Blocked'),
+            });
+        });
+    });
+});
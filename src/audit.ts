@@ -0,0 +1,304 @@
+/**
+ * Audit log
+ * One JSON line per MCP tool call and REST API request: who called what, with which (sanitized)
+ * arguments, how it went and which AI provider answered. Files rotate daily and by size.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { redact, REDACTED } from './redact.js';
+import { logger } from './logger.js';
+import { readInteger } from './env.js';
+
+export type AuditTransport = 'stdio' | 'http' | 'rest';
+export type AuditOutcome = 'success' | 'error';
+
+export interface AuditEntry {
+    timestamp: string;
+    transport: AuditTransport;
+    // "key:<name>" or "ip:<address>" for REST and MCP over HTTP, "client:<name>" for stdio
+    caller: string | null;
+    kind: 'tool' | 'route';
+    // Tool name, or "POST /api/generate"
+    name: string;
+    args: unknown;
+    durationMs: number;
+    outcome: AuditOutcome;
+    // HTTP status (REST only)
+    status?: number;
+    provider?: string;
+    error?: string;
+}
+
+export interface AuditQuery {
+    from?: Date;
+    to?: Date;
+    // Tool name or route
+    tool?: string;
+    outcome?: AuditOutcome;
+    transport?: AuditTransport;
+    limit?: number;
+}
+
+export interface AuditLogOptions {
+    dir: string;
+    enabled: boolean;
+    maxBytes: number;
+    maxFiles: number;
+}
+
+const OUTCOMES: AuditOutcome[] = ['success', 'error'];
+const TRANSPORTS: AuditTransport[] = ['stdio', 'http', 'rest'];
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+// Arguments can hold whole resumes and job descriptions; keep enough to tell calls apart
+const MAX_ARG_STRING = 500;
+const MAX_ARG_ITEMS = 20;
+const MAX_ARG_DEPTH = 5;
+// apiKey, groqApiKey, accessToken, password, ... but not keywords or maxTokens
+const SECRET_ARG_NAME = /(^key|api_?key|token|secret|password|authorization)$/i;
+
+// audit-2026-01-31.jsonl is the current file for the day, audit-2026-01-31.1.jsonl the first rotated one
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+
+export function getAuditLogOptions(): AuditLogOptions {
+    return {
+        dir: path.resolve(process.cwd(), process.env.AUDIT_LOG_DIR || path.join('.letsmcp', 'audit')),
+        enabled: process.env.AUDIT_LOG !== 'off',
+        maxBytes: readInteger('AUDIT_MAX_BYTES', 10 * 1024 * 1024, 1),
+        maxFiles: readInteger('AUDIT_MAX_FILES', 30, 1),
+    };
+}
+
+/**
+ * Redact secrets and trim large values so arguments are safe and small enough to keep
+ */
+export function sanitizeArgs(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+        const text = redact(value);
+        return text.length > MAX_ARG_STRING ? `${text.slice(0, MAX_ARG_STRING)}…[+${text.length - MAX_ARG_STRING} chars]` : text;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= MAX_ARG_DEPTH) {
+        return '[…]';
+    }
+    if (Array.isArray(value)) {
+        const items = value.slice(0, MAX_ARG_ITEMS).map(item => sanitizeArgs(item, depth + 1));
+        return value.length > MAX_ARG_ITEMS ? [...items, `…[+${value.length - MAX_ARG_ITEMS} items]`] : items;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_ARG_NAME.test(key) && item ? REDACTED : sanitizeArgs(item, depth + 1),
+    ]));
+}
+
+/**
+ * Parse query parameters (REST query string or audit:// URI) into an AuditQuery
+ */
+export function parseAuditQuery(params: URLSearchParams): AuditQuery {
+    const query: AuditQuery = {};
+
+    for (const field of ['from', 'to'] as const) {
+        const value = params.get(field);
+        if (value) {
+            const date = new Date(value);
+            if (isNaN(date.getTime())) throw new Error(`Invalid ${field} date: ${value}`);
+            query[field] = date;
+        }
+    }
+
+    const outcome = params.get('outcome');
+    if (outcome) {
+        if (!OUTCOMES.includes(outcome as AuditOutcome)) throw new Error(`Invalid outcome: ${outcome} (expected ${OUTCOMES.join(' or ')})`);
+        query.outcome = outcome as AuditOutcome;
+    }
+
+    const transport = params.get('transport');
+    if (transport) {
+        if (!TRANSPORTS.includes(transport as AuditTransport)) throw new Error(`Invalid transport: ${transport} (expected ${TRANSPORTS.join(', ')})`);
+        query.transport = transport as AuditTransport;
+    }
+
+    const tool = params.get('tool');
+    if (tool) query.tool = tool;
+
+    const limit = params.get('limit');
+    if (limit) {
+        const value = Number(limit);
+        if (!Number.isInteger(value) || value < 1) throw new Error(`Invalid limit: ${limit}`);
+        query.limit = value;
+    }
+
+    return query;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+    const time = new Date(entry.timestamp).getTime();
+    return (!query.from || time >= query.from.getTime())
+        && (!query.to || time <= query.to.getTime())
+        && (!query.tool || entry.name === query.tool)
+        && (!query.outcome || entry.outcome === query.outcome)
+        && (!query.transport || entry.transport === query.transport);
+}
+
+interface AuditFile {
+    name: string;
+    date: string;
+    // 0 for the current file of the day, rotated files count up from 1 (oldest)
+    index: number;
+}
+
+/**
+ * Append-only JSONL writer. Writes are queued so entries keep their order.
+ */
+export class AuditLog {
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(readonly options: AuditLogOptions = getAuditLogOptions()) {}
+
+    record(entry: Omit<AuditEntry, 'timestamp'> & { timestamp?: string }): void {
+        if (!this.options.enabled) return;
+
+        const full: AuditEntry = { timestamp: new Date().toISOString(), ...entry, args: sanitizeArgs(entry.args) };
+        if (full.error) full.error = sanitizeArgs(full.error) as string;
+
+        this.queue = this.queue
+            .then(() => this.append(full))
+            .catch((error) => {
+                logger.error('audit', 'Failed to write audit entry', { error: error instanceof Error ? error.message : 'Unknown error' });
+            });
+    }
+
+    /**
+     * Wait for queued entries to be written
+     */
+    flush(): Promise<void> {
+        return this.queue;
+    }
+
+    private async append(entry: AuditEntry): Promise<void> {
+        const line = JSON.stringify(entry) + '\n';
+        const date = entry.timestamp.slice(0, 10);
+        const file = path.join(this.options.dir, `audit-${date}.jsonl`);
+
+        await fs.mkdir(this.options.dir, { recursive: true });
+
+        let size: number | undefined;
+        try {
+            size = (await fs.stat(file)).size;
+        } catch {
+            // First entry of the day
+        }
+
+        if (size !== undefined && size + Buffer.byteLength(line) > this.options.maxBytes) {
+            // After the highest index, not the count: pruning removes the lowest ones
+            const rotated = Math.max(0, ...(await this.files()).filter(f => f.date === date).map(f => f.index)) + 1;
+            await fs.rename(file, path.join(this.options.dir, `audit-${date}.${rotated}.jsonl`));
+            size = undefined;
+        }
+
+        await fs.appendFile(file, line, { mode: 0o600 });
+        if (size === undefined) await this.prune();
+    }
+
+    /**
+     * Audit files, oldest first
+     */
+    private async files(): Promise<AuditFile[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.options.dir);
+        } catch {
+            return [];
+        }
+
+        return names
+            .map(name => {
+                const match = FILE_PATTERN.exec(name);
+                return match ? { name, date: match[1], index: match[2] ? Number(match[2]) : 0 } : undefined;
+            })
+            .filter((file): file is AuditFile => !!file)
+            .sort((a, b) => a.date.localeCompare(b.date) || (a.index || Infinity) - (b.index || Infinity));
+    }
+
+    private async prune(): Promise<void> {
+        const files = await this.files();
+        for (const file of files.slice(0, Math.max(0, files.length - this.options.maxFiles))) {
+            await fs.rm(path.join(this.options.dir, file.name), { force: true });
+        }
+    }
+
+    /**
+     * Matching entries, newest first
+     */
+    async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+        await this.flush();
+
+        const limit = Math.min(query.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+        const fromDay = query.from?.toISOString().slice(0, 10);
+        const toDay = query.to?.toISOString().slice(0, 10);
+        const files = (await this.files())
+            .filter(file => (!fromDay || file.date >= fromDay) && (!toDay || file.date <= toDay))
+            .reverse();
+
+        const results: AuditEntry[] = [];
+        for (const file of files) {
+            const lines = (await fs.readFile(path.join(this.options.dir, file.name), 'utf-8')).split('\n').reverse();
+            for (const line of lines) {
+                if (!line.trim()) continue;
+
+                let entry: AuditEntry;
+                try {
+                    entry = JSON.parse(line) as AuditEntry;
+                } catch {
+                    // Torn line from a crash; skip it
+                    continue;
+                }
+                if (matches(entry, query)) {
+                    results.push(entry);
+                    if (results.length >= limit) return results;
+                }
+            }
+        }
+        return results;
+    }
+}
+
+let auditLogInstance: AuditLog | null = null;
+
+export function getAuditLog(): AuditLog {
+    if (!auditLogInstance) {
+        auditLogInstance = new AuditLog();
+    }
+    return auditLogInstance;
+}
+
+/**
+ * Replace the audit log (e.g. to point it at another directory)
+ */
+export function configureAuditLog(options?: Partial<AuditLogOptions>): AuditLog {
+    auditLogInstance = new AuditLog({ ...getAuditLogOptions(), ...options });
+    return auditLogInstance;
+}
+
+export const AUDIT_RESOURCE_URI = 'audit://log';
+
+export const AUDIT_RESOURCE_TEMPLATE: ResourceTemplate = {
+    uriTemplate: `${AUDIT_RESOURCE_URI}{?from,to,tool,outcome,transport,limit}`,
+    name: 'Audit log query',
+    description: 'Audit entries, newest first, filtered by time range (ISO dates), tool or route, outcome (success/error) and transport',
+    mimeType: 'application/json',
+};
+
+/**
+ * Read an audit:// resource: the query string holds the filters
+ */
+export async function readAuditResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    const url = new URL(uri);
+    const entries = await getAuditLog().query(parseAuditQuery(url.searchParams));
+    return { uri, mimeType: 'application/json', text: JSON.stringify(entries, null, 2) };
+}
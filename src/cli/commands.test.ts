@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { runCLI } from './commands.js';
+
+// Mock the AI service
+const mockAIService = {
+    hasProvider: vi.fn(() => true),
+    extractJobDetails: vi.fn(async () => ({
+        data: { title: 'Engineer', company: 'Corp', location: 'NYC', description: 'Job desc', requirements: ['TypeScript'] },
+        provider: 'groq'
+    })),
+    analyzeResume: vi.fn(async () => ({
+        data: { matchScore: 80, strengths: ['React'], gaps: ['AWS'], recommendations: ['Learn AWS'], keywords: { matched: ['React'], missing: ['AWS'] } },
+        provider: 'claude'
+    })),
+    draftEmail: vi.fn(async () => ({
+        data: { subject: 'Hello', body: 'Email body', confidence: 85 },
+        provider: 'groq'
+    }))
+};
+
+vi.mock('../ai/service.js', async () => {
+    const actual = await vi.importActual('../ai/service.js');
+    return {
+        ...actual,
+        getAIService: vi.fn(() => mockAIService)
+    };
+});
+
+// Don't actually start servers
+const startServer = vi.fn(async () => {});
+vi.mock('../serve.js', () => ({ startServer: (...args: unknown[]) => startServer(...args as []) }));
+
+describe('letsmcp CLI', () => {
+    const testDir = path.join(process.cwd(), 'test-cli-dir');
+    const jobFile = path.join(testDir, 'job.txt');
+    const resumeFile = path.join(testDir, 'resume.txt');
+
+    beforeAll(async () => {
+        await fs.mkdir(testDir, { recursive: true });
+        await fs.writeFile(jobFile, 'Engineer at Corp in NYC');
+        await fs.writeFile(resumeFile, 'Five years of React');
+    });
+
+    afterAll(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    async function run(...argv: string[]) {
+        let stdout = '';
+        let stderr = '';
+        const code = await runCLI(argv, {
+            stdout: (text) => { stdout += text; },
+            stderr: (text) => { stderr += text; },
+        });
+        return { code, stdout, stderr };
+    }
+
+    describe('usage', () => {
+        it('should print usage with --help', async () => {
+            const { code, stdout } = await run('--help');
+
+            expect(code).toBe(0);
+            expect(stdout).toContain('Usage: letsmcp <command>');
+        });
+
+        it('should fail with usage when no command is given', async () => {
+            const { code } = await run();
+            expect(code).toBe(2);
+        });
+
+        it('should reject unknown commands and options', async () => {
+            const unknownCommand = await run('deploy');
+            const unknownOption = await run('tools', 'list', '--verbose');
+
+            expect(unknownCommand.code).toBe(2);
+            expect(unknownCommand.stderr).toContain('Unknown command: deploy');
+            expect(unknownOption.code).toBe(2);
+            expect(unknownOption.stderr).toContain('--verbose');
+        });
+
+        it('should reject unknown output formats', async () => {
+            const { code, stderr } = await run('tools', 'list', '--output', 'yaml');
+
+            expect(code).toBe(2);
+            expect(stderr).toContain('Unknown output format: yaml');
+        });
+    });
+
+    describe('serve', () => {
+        it('should start both transports by default', async () => {
+            await run('serve');
+            expect(startServer).toHaveBeenCalledWith({ stdio: true, http: true });
+        });
+
+        it('should start only the transports that are named', async () => {
+            await run('serve', '--http');
+            expect(startServer).toHaveBeenLastCalledWith({ stdio: false, http: true });
+
+            await run('serve', '--stdio');
+            expect(startServer).toHaveBeenLastCalledWith({ stdio: true, http: false });
+        });
+    });
+
+    describe('tools', () => {
+        it('should list tools as text', async () => {
+            const { code, stdout } = await run('tools', 'list');
+
+            expect(code).toBe(0);
+            expect(stdout).toMatch(/^echoText\s+Echoes back/m);
+            expect(stdout).toContain('extractJob');
+        });
+
+        it('should list tools as JSON with their schemas', async () => {
+            const { stdout } = await run('tools', 'list', '-o', 'json');
+            const tools = JSON.parse(stdout);
+
+            expect(tools.find((t: any) => t.name === 'echoText').inputSchema.required).toEqual(['text']);
+        });
+
+        it('should call a tool with JSON arguments', async () => {
+            const { code, stdout } = await run('tools', 'call', 'echoText', '--json', '{"text":"hi"}');
+
+            expect(code).toBe(0);
+            expect(JSON.parse(stdout)).toEqual({ echoed: 'hi' });
+        });
+
+        it('should print structured content in JSON mode', async () => {
+            const { stdout } = await run('tools', 'call', 'echoText', '--json', '{"text":"hi"}', '--output', 'json');
+
+            expect(JSON.parse(stdout)).toEqual({ data: { echoed: 'hi' } });
+        });
+
+        it('should exit 1 when the tool reports an error', async () => {
+            const { code, stderr } = await run('tools', 'call', 'echoText', '--json', '{"text":""}');
+
+            expect(code).toBe(1);
+            expect(stderr).toContain('empty text');
+        });
+
+        it('should reject invalid JSON and unknown tools', async () => {
+            const badJSON = await run('tools', 'call', 'echoText', '--json', '{text');
+            const unknown = await run('tools', 'call', 'nope');
+
+            expect(badJSON.code).toBe(2);
+            expect(badJSON.stderr).toContain('not valid JSON');
+            expect(unknown.code).toBe(2);
+            expect(unknown.stderr).toContain('Unknown tool: nope');
+        });
+    });
+
+    describe('AI commands', () => {
+        it('should extract a job from a file', async () => {
+            const { code, stdout, stderr } = await run('extract-job', jobFile);
+
+            expect(code).toBe(0);
+            expect(mockAIService.extractJobDetails).toHaveBeenCalledWith('Engineer at Corp in NYC', undefined, { cache: undefined });
+            expect(stdout).toContain('Title:    Engineer');
+            expect(stdout).toContain('  - TypeScript');
+            expect(stderr).toContain('provider: groq');
+        });
+
+        it('should report a missing file', async () => {
+            const { code, stderr } = await run('extract-job', path.join(testDir, 'missing.txt'));
+
+            expect(code).toBe(1);
+            expect(stderr).toContain('Cannot read');
+        });
+
+        it('should analyze a resume with a preferred provider', async () => {
+            const { code, stdout } = await run('analyze-resume', '--job', jobFile, '--resume', resumeFile, '--provider', 'claude', '--cache', 'refresh', '-o', 'json');
+
+            expect(code).toBe(0);
+            expect(mockAIService.analyzeResume).toHaveBeenCalledWith('Engineer at Corp in NYC', 'Five years of React', 'claude', { cache: 'refresh' });
+            expect(JSON.parse(stdout)).toMatchObject({ data: { matchScore: 80 }, provider: 'claude' });
+        });
+
+        it('should require both --job and --resume', async () => {
+            const { code, stderr } = await run('analyze-resume', '--job', jobFile);
+
+            expect(code).toBe(2);
+            expect(stderr).toContain('Missing required option --resume');
+        });
+
+        it('should draft an email', async () => {
+            const { code, stdout } = await run(
+                'draft-email', '--recipient', 'Jane', '--company', 'Corp', '--title', 'Engineer', '--tone', 'Casual'
+            );
+
+            expect(code).toBe(0);
+            expect(stdout).toBe('Subject: Hello\n\nEmail body\n');
+            expect(mockAIService.draftEmail).toHaveBeenCalledWith(
+                expect.objectContaining({ recipientName: 'Jane', recipientRole: 'Team Member', tone: 'Casual' }),
+                undefined,
+                { cache: undefined }
+            );
+        });
+
+        it('should report invalid tool input from flags', async () => {
+            const { code, stderr } = await run(
+                'draft-email', '--recipient', 'Jane', '--company', 'Corp', '--title', 'Engineer', '--tone', 'Rude'
+            );
+
+            expect(code).toBe(1);
+            expect(stderr).toContain('Invalid input for draftOutreachEmail');
+        });
+    });
+
+    describe('keys', () => {
+        const keysFile = path.join(testDir, 'api-keys.json');
+
+        beforeAll(() => {
+            process.env.API_KEYS_FILE = keysFile;
+        });
+
+        afterAll(() => {
+            delete process.env.API_KEYS_FILE;
+        });
+
+        it('should create, list and revoke keys', async () => {
+            const created = await run('keys', 'create', 'jobos', '--scopes', 'ai:generate,jobs:extract');
+            const key = created.stdout.trim();
+
+            expect(created.code).toBe(0);
+            expect(key).toMatch(/^lmcp_/);
+            expect(created.stderr).toContain('will not be shown again');
+            expect(await fs.readFile(keysFile, 'utf-8')).not.toContain(key);
+
+            const listed = await run('keys', 'list', '-o', 'json');
+            expect(JSON.parse(listed.stdout)).toEqual([
+                { name: 'jobos', scopes: ['ai:generate', 'jobs:extract'], createdAt: expect.any(String) },
+            ]);
+
+            expect((await run('keys', 'revoke', 'jobos')).code).toBe(0);
+            expect((await run('keys', 'list')).stdout).toContain('No API keys');
+        });
+
+        it('should reject unknown scopes and missing keys', async () => {
+            const badScope = await run('keys', 'create', 'jobos', '--scopes', 'root');
+            const missing = await run('keys', 'revoke', 'nobody');
+
+            expect(badScope.code).toBe(2);
+            expect(badScope.stderr).toContain('Unknown scope(s): root');
+            expect(missing.code).toBe(1);
+            expect(missing.stderr).toContain('No API key named "nobody"');
+        });
+    });
+});
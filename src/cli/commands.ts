@@ -0,0 +1,337 @@
+/**
+ * letsmcp command-line interface
+ * Runs the same tool handlers (and through them AIService) that MCP clients use,
+ * so tools and AI features work from a terminal or script without an MCP client.
+ */
+
+import { parseArgs } from 'util';
+import * as fs from 'fs/promises';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../server.js';
+import { toolRegistry } from '../tools.js';
+import type { EmailDraft, JobDetails, ResumeAnalysis } from '../ai/types.js';
+import { isCacheMode } from '../ai/cache.js';
+import { getPluginHost } from '../plugins.js';
+import { startServer } from '../serve.js';
+import { getAPIKeyStore, isAuthEnabled, parseScopes, SCOPES } from '../api/auth.js';
+
+export interface CLIOutput {
+    stdout(text: string): void;
+    stderr(text: string): void;
+}
+
+export const USAGE = `Usage: letsmcp <command> [options]
+
+Commands:
+  serve [--stdio] [--http]                  Start the server (both transports unless one is chosen)
+  tools list                                List available tools
+  tools call <name> --json '{...}'          Call a tool with JSON arguments
+  extract-job <file|url>                    Extract job details from a posting
+  analyze-resume --job <file> --resume <file>
+                                            Score a resume against a job description
+  draft-email --recipient <name> --company <name> --title <job title>
+              [--role <role>] [--tone <tone>] [--intent <intent>]
+              [--job <file>] [--background <file>]
+                                            Draft an outreach email
+  keys create <name> --scopes <list>        Create a REST API key (printed once)
+  keys list                                 List REST API keys and their scopes
+  keys revoke <name>                        Revoke a REST API key
+
+Options:
+  -o, --output <mode>   Output format: text (default) or json
+  --provider <name>     Preferred AI provider (groq, claude, gemini, local, sampling)
+  --cache <mode>        Response cache: bypass (skip it) or refresh (ask again, store the answer)
+  --scopes <list>       Comma-separated key scopes (${SCOPES.join(', ')})
+  -h, --help            Show this help
+`;
+
+// Exit codes
+const OK = 0;
+const FAILED = 1;
+const USAGE_ERROR = 2;
+
+/**
+ * Bad command line - reported with the usage text
+ */
+class UsageError extends Error {}
+
+const processOutput: CLIOutput = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+};
+
+const OPTIONS = {
+    help: { type: 'boolean', short: 'h' },
+    output: { type: 'string', short: 'o' },
+    json: { type: 'string' },
+    provider: { type: 'string' },
+    cache: { type: 'string' },
+    stdio: { type: 'boolean' },
+    http: { type: 'boolean' },
+    job: { type: 'string' },
+    resume: { type: 'string' },
+    recipient: { type: 'string' },
+    role: { type: 'string' },
+    company: { type: 'string' },
+    title: { type: 'string' },
+    tone: { type: 'string' },
+    intent: { type: 'string' },
+    background: { type: 'string' },
+    scopes: { type: 'string' },
+} as const;
+
+type Flags = ReturnType<typeof parse>['values'];
+
+function parse(argv: string[]) {
+    try {
+        return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+    } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+}
+
+function required(flags: Flags, name: keyof Flags): string {
+    const value = flags[name];
+    if (typeof value !== 'string' || value.length === 0) {
+        throw new UsageError(`Missing required option --${name}`);
+    }
+    return value;
+}
+
+async function readInput(file: string): Promise<string> {
+    try {
+        return await fs.readFile(file, 'utf-8');
+    } catch (error) {
+        throw new Error(`Cannot read ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Call a tool through the registry, exactly as an MCP tools/call would
+ */
+async function callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    return toolRegistry.call(name, args, { server: createServer() });
+}
+
+function resultText(result: CallToolResult): string {
+    return result.content
+        .map(block => block.type === 'text' ? block.text : `[${block.type} content]`)
+        .join('\n');
+}
+
+function bulletList(title: string, items: string[] = []): string {
+    return items.length > 0 ? `\n${title}:\n${items.map(item => `  - ${item}`).join('\n')}\n` : '';
+}
+
+function formatJob(job: JobDetails): string {
+    return [
+        `Title:    ${job.title || '-'}`,
+        `Company:  ${job.company || '-'}`,
+        `Location: ${job.location || '-'}`,
+        ...(job.salary ? [`Salary:   ${job.salary}`] : []),
+    ].join('\n') + '\n' + bulletList('Requirements', job.requirements) + (job.description ? `\n${job.description}\n` : '');
+}
+
+function formatAnalysis(analysis: ResumeAnalysis): string {
+    return `Match score: ${analysis.matchScore}/100\n`
+        + bulletList('Strengths', analysis.strengths)
+        + bulletList('Gaps', analysis.gaps)
+        + bulletList('Recommendations', analysis.recommendations)
+        + bulletList('Matched keywords', analysis.keywords.matched)
+        + bulletList('Missing keywords', analysis.keywords.missing);
+}
+
+function formatEmail(email: EmailDraft): string {
+    return `Subject: ${email.subject}\n\n${email.body}\n`;
+}
+
+export async function runCLI(argv: string[], output: CLIOutput = processOutput): Promise<number> {
+    let flags: Flags;
+    let positionals: string[];
+    try {
+        ({ values: flags, positionals } = parse(argv));
+    } catch (error) {
+        output.stderr(`${(error as Error).message}\n\n${USAGE}`);
+        return USAGE_ERROR;
+    }
+
+    const [command, ...rest] = positionals;
+    if (flags.help || !command) {
+        output.stdout(USAGE);
+        return command || flags.help ? OK : USAGE_ERROR;
+    }
+
+    if (flags.output !== undefined && flags.output !== 'text' && flags.output !== 'json') {
+        output.stderr(`Unknown output format: ${flags.output}\n\n${USAGE}`);
+        return USAGE_ERROR;
+    }
+    const json = flags.output === 'json';
+    if (!isCacheMode(flags.cache)) {
+        output.stderr(`Unknown cache mode: ${flags.cache}\n\n${USAGE}`);
+        return USAGE_ERROR;
+    }
+    const provider = flags.provider;
+    const cache = flags.cache;
+
+    /**
+     * Print a tool result: JSON (structured content and provider) or formatted text
+     */
+    function report<T>(result: CallToolResult, format: (data: T) => string): number {
+        if (result.isError) {
+            if (json) {
+                output.stdout(JSON.stringify({ error: resultText(result) }, null, 2) + '\n');
+            } else {
+                output.stderr(resultText(result) + '\n');
+            }
+            return FAILED;
+        }
+
+        const data = (result.structuredContent ?? result.content) as T;
+        if (json) {
+            output.stdout(JSON.stringify({
+                data,
+                ...(result._meta?.provider ? { provider: result._meta.provider } : {}),
+                ...(result._meta?.cached ? { cached: true } : {}),
+            }, null, 2) + '\n');
+        } else {
+            output.stdout(format(data));
+            if (result._meta?.provider) output.stderr(`(provider: ${result._meta.provider}${result._meta.cached ? ', cached' : ''})\n`);
+        }
+        return OK;
+    }
+
+    try {
+        switch (command) {
+            case 'serve': {
+                // Both transports by default; naming one runs only the named ones
+                const chosen = flags.stdio || flags.http;
+                await startServer({
+                    stdio: chosen ? !!flags.stdio : process.env.MCP_STDIO !== 'false',
+                    http: chosen ? !!flags.http : true,
+                });
+                return OK;
+            }
+
+            case 'tools': {
+                await getPluginHost().loadAll();
+                const [subcommand, name] = rest;
+
+                if (subcommand === 'list') {
+                    const tools = toolRegistry.describe();
+                    if (json) {
+                        output.stdout(JSON.stringify(tools, null, 2) + '\n');
+                    } else {
+                        const width = Math.max(...tools.map(tool => tool.name.length));
+                        output.stdout(tools.map(tool => `${tool.name.padEnd(width)}  ${tool.description?.split('. ')[0] ?? ''}`).join('\n') + '\n');
+                    }
+                    return OK;
+                }
+
+                if (subcommand === 'call') {
+                    if (!name) throw new UsageError('Missing tool name');
+                    if (!toolRegistry.has(name)) throw new UsageError(`Unknown tool: ${name}`);
+
+                    let args: Record<string, unknown> = {};
+                    if (flags.json) {
+                        try {
+                            args = JSON.parse(flags.json);
+                        } catch {
+                            throw new UsageError(`--json is not valid JSON: ${flags.json}`);
+                        }
+                    }
+
+                    const result = await callTool(name, args);
+                    return report(result, () => resultText(result) + '\n');
+                }
+
+                throw new UsageError(`Unknown tools subcommand: ${subcommand ?? '(none)'}`);
+            }
+
+            case 'extract-job': {
+                const source = rest[0];
+                if (!source) throw new UsageError('Missing job posting file or URL');
+
+                const input = /^https?:\/\//i.test(source) ? { url: source } : { text: await readInput(source) };
+                return report(await callTool('extractJob', { ...input, provider, cache }), formatJob);
+            }
+
+            case 'analyze-resume': {
+                const jobDescription = await readInput(required(flags, 'job'));
+                const resumeText = await readInput(required(flags, 'resume'));
+                return report(await callTool('analyzeResume', { jobDescription, resumeText, provider, cache }), formatAnalysis);
+            }
+
+            case 'draft-email': {
+                const result = await callTool('draftOutreachEmail', {
+                    recipientName: required(flags, 'recipient'),
+                    companyName: required(flags, 'company'),
+                    jobTitle: required(flags, 'title'),
+                    recipientRole: flags.role,
+                    tone: flags.tone,
+                    intent: flags.intent,
+                    jobDescription: flags.job ? await readInput(flags.job) : undefined,
+                    userBackground: flags.background ? await readInput(flags.background) : undefined,
+                    provider,
+                    cache,
+                });
+                return report(result, formatEmail);
+            }
+
+            case 'keys': {
+                const [subcommand, name] = rest;
+                const store = getAPIKeyStore();
+
+                if (subcommand === 'list') {
+                    const keys = store.list().map(({ name, scopes, createdAt }) => ({ name, scopes, createdAt }));
+                    if (json) {
+                        output.stdout(JSON.stringify(keys, null, 2) + '\n');
+                    } else if (keys.length === 0) {
+                        output.stdout(isAuthEnabled(store)
+                            ? 'No API keys (authentication is on, so every scoped request is refused until one is created)\n'
+                            : 'No API keys (the REST API and /mcp are open; see API_AUTH)\n');
+                    } else {
+                        output.stdout(keys.map(key => `${key.name}  ${key.scopes.join(',')}  ${key.createdAt}`).join('\n') + '\n');
+                    }
+                    return OK;
+                }
+
+                if (!name) throw new UsageError('Missing key name');
+
+                if (subcommand === 'create') {
+                    let scopes;
+                    try {
+                        scopes = parseScopes(required(flags, 'scopes'));
+                    } catch (error) {
+                        throw error instanceof UsageError ? error : new UsageError((error as Error).message);
+                    }
+                    const key = store.create(name, scopes);
+                    if (json) {
+                        output.stdout(JSON.stringify({ name, scopes, key }, null, 2) + '\n');
+                    } else {
+                        output.stdout(key + '\n');
+                        output.stderr(`Created key "${name}" (${scopes.join(', ')}). It will not be shown again.\n`);
+                    }
+                    return OK;
+                }
+
+                if (subcommand === 'revoke') {
+                    if (!store.revoke(name)) throw new Error(`No API key named "${name}"`);
+                    output.stderr(`Revoked key "${name}"\n`);
+                    return OK;
+                }
+
+                throw new UsageError(`Unknown keys subcommand: ${subcommand ?? '(none)'}`);
+            }
+
+            default:
+                throw new UsageError(`Unknown command: ${command}`);
+        }
+    } catch (error) {
+        if (error instanceof UsageError) {
+            output.stderr(`${error.message}\n\n${USAGE}`);
+            return USAGE_ERROR;
+        }
+        output.stderr(`Error: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+        return FAILED;
+    }
+}
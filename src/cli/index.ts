@@ -0,0 +1,2 @@
+export { runCLI, USAGE } from './commands.js';
+export type { CLIOutput } from './commands.js';
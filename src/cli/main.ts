@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { runCLI } from './commands.js';
+
+process.exitCode = await runCLI(process.argv.slice(2));
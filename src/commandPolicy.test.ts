@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { evaluateCommand, loadCommandPolicy, scrubEnv, type CommandPolicy } from './commandPolicy.js';
+
+describe('Command policy', () => {
+    let dir: string;
+    let policyFile: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'letsmcp-policy-'));
+        policyFile = path.join(dir, 'command-policy.json');
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function writePolicy(policy: unknown) {
+        await fs.writeFile(policyFile, JSON.stringify(policy));
+        return loadCommandPolicy(policyFile);
+    }
+
+    describe('rules', () => {
+        let policy: CommandPolicy;
+
+        beforeEach(async () => {
+            policy = await writePolicy({
+                rules: [
+                    { name: 'no-force-push', action: 'deny', command: 'git', args: ['push', '.*'], extraArgs: true },
+                    { name: 'git-read', command: 'git', args: ['status|log|diff'], extraArgs: true },
+                    { name: 'npm-test', command: 'npm', args: ['test'] },
+                ],
+            });
+        });
+
+        it('should allow matching commands and arguments', () => {
+            expect(evaluateCommand(policy, 'git', ['log', '--oneline', '-5'])).toMatchObject({ allowed: true, rule: { name: 'git-read' } });
+            expect(evaluateCommand(policy, 'npm', ['test'])).toMatchObject({ allowed: true, rule: { name: 'npm-test' } });
+        });
+
+        it('should match argument patterns in full', () => {
+            expect(evaluateCommand(policy, 'git', ['statusx']).allowed).toBe(false);
+            expect(evaluateCommand(policy, 'npm', ['test', '--', '--watch']).allowed).toBe(false);
+            expect(evaluateCommand(policy, 'npm', []).allowed).toBe(false);
+        });
+
+        it('should name the rule that blocked a command', () => {
+            expect(evaluateCommand(policy, 'git', ['push', '--force'])).toMatchObject({ allowed: false, rule: 'no-force-push' });
+            expect(evaluateCommand(policy, 'rm', ['-rf', '/'])).toMatchObject({ allowed: false, rule: 'default-deny' });
+        });
+
+        it('should not let a path stand in for an allowed bare name', () => {
+            expect(evaluateCommand(policy, '/tmp/evil/git', ['status']).allowed).toBe(false);
+        });
+    });
+
+    describe('loading', () => {
+        it('should allow any command without a policy file', async () => {
+            const policy = await loadCommandPolicy(path.join(dir, 'missing.json'));
+
+            expect(policy.source).toBeNull();
+            expect(evaluateCommand(policy, 'anything', ['at', 'all']).allowed).toBe(true);
+        });
+
+        it('should reject invalid policy files', async () => {
+            await expect(writePolicy({ rules: [{ name: 'bad', command: 'git', args: ['(unclosed'] }] }))
+                .rejects.toThrow('rules.0.args.0: must be a valid regular expression');
+            await fs.writeFile(policyFile, '{ nope');
+            await expect(loadCommandPolicy(policyFile)).rejects.toThrow('Invalid command policy');
+        });
+    });
+
+    describe('environment', () => {
+        it('should keep only allowed variables', () => {
+            const env = scrubEnv({ PATH: '/bin', LC_ALL: 'C', GROQ_API_KEY: 'secret', GIT_DIR: '.git' }, ['PATH', 'LC_*', 'GIT_*']);
+
+            expect(env).toEqual({ PATH: '/bin', LC_ALL: 'C', GIT_DIR: '.git' });
+        });
+    });
+
+    describe('executeCommand', () => {
+        let client: Client;
+
+        beforeEach(async () => {
+            vi.stubEnv('MCP_COMMAND_POLICY', policyFile);
+            client = new Client({ name: 'test-client', version: '1.0.0' });
+            const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+            await createServer().connect(serverTransport);
+            await client.connect(clientTransport);
+        });
+
+        afterEach(async () => {
+            await client.close();
+        });
+
+        async function run(args: string[], cwd?: string): Promise<any> {
+            return client.callTool({ name: 'executeCommand', arguments: { command: process.execPath, args, ...(cwd && { cwd }) } });
+        }
+
+        it('should report the blocking rule', async () => {
+            await writePolicy({ rules: [{ name: 'no-node', action: 'deny', command: process.execPath }] });
+            const result = await run(['-e', '']);
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('blocked by command policy rule "no-node"');
+        });
+
+        it('should refuse to run with a broken policy file', async () => {
+            await fs.writeFile(policyFile, '{ nope');
+            const result = await run(['-e', '']);
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('rule "policy-file"');
+        });
+
+        it('should not pass secrets to the command', async () => {
+            vi.stubEnv('GROQ_API_KEY', 'gsk_secret');
+            vi.stubEnv('GIT_AUTHOR_NAME', 'Jane');
+            await writePolicy({ rules: [{ name: 'node', command: process.execPath, confirm: false }], env: { allow: ['GIT_*'] } });
+
+            const result = await run(['-e', 'console.log(JSON.stringify([process.env.GROQ_API_KEY, process.env.GIT_AUTHOR_NAME]))']);
+
+            expect(JSON.parse(result.structuredContent.stdout)).toEqual([null, 'Jane']);
+        });
+
+        it('should cap output', async () => {
+            await writePolicy({ rules: [{ name: 'node', command: process.execPath }], maxOutputBytes: 10 });
+            const result = await run(['-e', 'process.stdout.write("x".repeat(25))']);
+
+            expect(result.structuredContent.truncated).toBe(true);
+            expect(result.structuredContent.stdout).toBe('xxxxxxxxxx\n[output truncated: 15 more bytes]');
+        });
+
+        it('should keep cwd inside the workspace roots', async () => {
+            const result = await run(['-e', ''], os.tmpdir());
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('blocked by command policy rule "cwd"');
+        });
+
+        it('should skip confirmation for rules with confirm: false', async () => {
+            const prompts: string[] = [];
+            const confirming = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+            confirming.setRequestHandler(ElicitRequestSchema, async (request) => {
+                prompts.push(request.params.message);
+                return { action: 'decline' };
+            });
+            const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+            await createServer().connect(serverTransport);
+            await confirming.connect(clientTransport);
+
+            await writePolicy({ rules: [{ name: 'version', command: process.execPath, args: ['--version'], confirm: false }, { name: 'node', command: process.execPath }] });
+            const quiet = await confirming.callTool({ name: 'executeCommand', arguments: { command: process.execPath, args: ['--version'] } });
+            const asked = await confirming.callTool({ name: 'executeCommand', arguments: { command: process.execPath, args: ['-e', ''] } });
+            await confirming.close();
+
+            expect(quiet.isError).toBeFalsy();
+            expect(asked.isError).toBe(true);
+            expect(prompts).toHaveLength(1);
+        });
+    });
+});
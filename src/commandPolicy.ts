@@ -0,0 +1,155 @@
+/**
+ * Policy for executeCommand
+ * An optional JSON file (MCP_COMMAND_POLICY, default .letsmcp/command-policy.json) lists which commands
+ * and arguments may run. Every command also gets a scrubbed environment and capped output.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+
+export interface CommandRule {
+    name: string;
+    action: 'allow' | 'deny';
+    // Bare name ("git") matched as typed, a path matched exactly, or "*" for any command
+    command: string;
+    // Regular expressions matched in full against the argument at the same position
+    args?: string[];
+    // Allow arguments beyond the patterns in args
+    extraArgs: boolean;
+    // false runs the command without asking the user (see MCP_COMMAND_ALLOWLIST)
+    confirm: boolean;
+}
+
+export interface CommandPolicy {
+    // Policy file, or null for the built-in default
+    source: string | null;
+    rules: CommandRule[];
+    // Environment variables passed to commands; a trailing * matches a prefix
+    envAllow: string[];
+    // Per stream (stdout, stderr)
+    maxOutputBytes: number;
+}
+
+export type CommandDecision =
+    | { allowed: true; rule: CommandRule }
+    | { allowed: false; rule: string; reason: string };
+
+// Enough for a shell, a locale and temp files on Linux, macOS and Windows - no credentials
+export const DEFAULT_ENV_ALLOW = [
+    'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LANGUAGE', 'LC_*', 'TERM', 'TZ', 'TMPDIR', 'TMP', 'TEMP',
+    'SystemRoot', 'SystemDrive', 'ComSpec', 'PATHEXT', 'windir', 'USERPROFILE', 'HOMEDRIVE', 'HOMEPATH',
+    'APPDATA', 'LOCALAPPDATA', 'ProgramData', 'ProgramFiles', 'ProgramFiles(x86)', 'NUMBER_OF_PROCESSORS',
+    'PROCESSOR_ARCHITECTURE', 'OS',
+];
+
+export const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+// Without a policy file any command may run (after confirmation), as before the policy existed
+const DEFAULT_RULES: CommandRule[] = [
+    { name: 'default', action: 'allow', command: '*', extraArgs: true, confirm: true },
+];
+
+const ruleSchema = z.object({
+    name: z.string().min(1),
+    action: z.enum(['allow', 'deny']).default('allow'),
+    command: z.string().min(1),
+    args: z.array(z.string().refine(isValidPattern, 'must be a valid regular expression')).optional(),
+    extraArgs: z.boolean().default(false),
+    confirm: z.boolean().default(true),
+});
+
+const policyFileSchema = z.object({
+    rules: z.array(ruleSchema),
+    env: z.object({ allow: z.array(z.string()).default([]) }).default({ allow: [] }),
+    maxOutputBytes: z.number().int().positive().default(DEFAULT_MAX_OUTPUT_BYTES),
+});
+
+function isValidPattern(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function getCommandPolicyFile(): string {
+    return path.resolve(process.cwd(), process.env.MCP_COMMAND_POLICY || path.join('.letsmcp', 'command-policy.json'));
+}
+
+/**
+ * Read the policy file. Falls back to the default policy when there is none,
+ * and throws when it exists but is invalid (a broken policy must not mean "allow everything").
+ */
+export async function loadCommandPolicy(file: string = getCommandPolicyFile()): Promise<CommandPolicy> {
+    let text: string;
+    try {
+        text = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { source: null, rules: DEFAULT_RULES, envAllow: DEFAULT_ENV_ALLOW, maxOutputBytes: DEFAULT_MAX_OUTPUT_BYTES };
+        }
+        throw error;
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid command policy ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const parsed = policyFileSchema.safeParse(data);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new Error(`Invalid command policy ${file}: ${issues}`);
+    }
+
+    return {
+        source: file,
+        rules: parsed.data.rules,
+        envAllow: [...DEFAULT_ENV_ALLOW, ...parsed.data.env.allow],
+        maxOutputBytes: parsed.data.maxOutputBytes,
+    };
+}
+
+function matchesRule(rule: CommandRule, command: string, args: string[]): boolean {
+    if (rule.command !== '*' && rule.command !== command) return false;
+    if (!rule.args) return true;
+    if (args.length > rule.args.length && !rule.extraArgs) return false;
+
+    return rule.args.every((pattern, i) => i < args.length && new RegExp(`^(?:${pattern})$`).test(args[i]));
+}
+
+/**
+ * First matching rule wins; no match is a denial
+ */
+export function evaluateCommand(policy: CommandPolicy, command: string, args: string[] = []): CommandDecision {
+    const rule = policy.rules.find(candidate => matchesRule(candidate, command, args));
+
+    if (!rule) {
+        return { allowed: false, rule: 'default-deny', reason: `no rule in ${policy.source} allows it` };
+    }
+    if (rule.action === 'deny') {
+        return { allowed: false, rule: rule.name, reason: `denied by rule "${rule.name}"${policy.source ? ` in ${policy.source}` : ''}` };
+    }
+    return { allowed: true, rule };
+}
+
+/**
+ * Copy only the allowed variables, so API keys loaded from .env don't reach child processes
+ */
+export function scrubEnv(env: NodeJS.ProcessEnv, allow: string[]): NodeJS.ProcessEnv {
+    // Windows variable names are case-insensitive
+    const normalize = process.platform === 'win32' ? (name: string) => name.toUpperCase() : (name: string) => name;
+    const patterns = allow.map(normalize);
+
+    const scrubbed: NodeJS.ProcessEnv = {};
+    for (const [name, value] of Object.entries(env)) {
+        const key = normalize(name);
+        const allowed = patterns.some(pattern => pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern);
+        if (allowed) scrubbed[name] = value;
+    }
+    return scrubbed;
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { formatCommandLine, getConfirmationPolicy, isCommandAllowlisted } from './confirmation.js';
+
+describe('Confirmation for destructive tools', () => {
+    const category = 'test-confirmation';
+    const filesDir = path.join(process.cwd(), 'mcp-files', category);
+    const outsideDir = path.join(process.cwd(), 'test-confirmation-outside');
+
+    let client: Client;
+    let prompts: string[];
+
+    beforeAll(async () => {
+        await fs.mkdir(filesDir, { recursive: true });
+    });
+
+    afterAll(async () => {
+        await fs.rm(filesDir, { recursive: true, force: true });
+        await fs.rm(outsideDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        prompts = [];
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        await client?.close();
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    /**
+     * Connect a client; with a reply it supports elicitation and answers every request with it
+     */
+    async function connect(reply?: ElicitResult['action']) {
+        client = new Client(
+            { name: 'test-client', version: '1.0.0' },
+            { capabilities: reply ? { elicitation: {} } : {} }
+        );
+        if (reply) {
+            client.setRequestHandler(ElicitRequestSchema, async (request) => {
+                prompts.push(request.params.message);
+                return reply === 'accept' ? { action: reply, content: { confirm: true } } : { action: reply };
+            });
+        }
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer().connect(serverTransport);
+        await client.connect(clientTransport);
+    }
+
+    async function callTool(name: string, args: Record<string, unknown>): Promise<any> {
+        return client.callTool({ name, arguments: args });
+    }
+
+    async function overwrite(content: string) {
+        await fs.writeFile(path.join(filesDir, 'existing.txt'), 'original');
+        const result = await callTool('saveToFile', { content, filename: 'existing.txt', category, overwrite: true });
+        return { result, content: await fs.readFile(path.join(filesDir, 'existing.txt'), 'utf-8') };
+    }
+
+    describe('overwriting files', () => {
+        it('should ask before overwriting and show the target path', async () => {
+            await connect('accept');
+            const { result, content } = await overwrite('updated');
+
+            expect(result.isError).toBeFalsy();
+            expect(content).toBe('updated');
+            expect(prompts).toHaveLength(1);
+            expect(prompts[0]).toContain(path.join(filesDir, 'existing.txt'));
+        });
+
+        it('should leave the file alone when the user declines', async () => {
+            await connect('decline');
+            const { result, content } = await overwrite('updated');
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('declined by the user');
+            expect(content).toBe('original');
+        });
+
+        it('should not ask for new files', async () => {
+            await connect('decline');
+            const result = await callTool('saveToFile', { content: 'new', filename: `new-${Date.now()}.txt`, category });
+
+            expect(result.isError).toBeFalsy();
+            expect(prompts).toEqual([]);
+        });
+
+        it('should go ahead when the client cannot be asked', async () => {
+            await connect();
+            const { result, content } = await overwrite('updated');
+
+            expect(result.isError).toBeFalsy();
+            expect(content).toBe('updated');
+        });
+
+        it('should refuse without asking when the policy denies it', async () => {
+            vi.stubEnv('MCP_CONFIRM_OVERWRITE', 'deny');
+            await connect('accept');
+            const { result, content } = await overwrite('updated');
+
+            expect(result.content[0].text).toContain('MCP_CONFIRM_OVERWRITE=deny');
+            expect(content).toBe('original');
+            expect(prompts).toEqual([]);
+        });
+    });
+
+    describe('writing outside mcp-files', () => {
+        const outsideArgs = { content: 'outside', filename: 'note.txt', category: '../test-confirmation-outside' };
+
+        it('should write there once the user confirms', async () => {
+            await connect('accept');
+            const result = await callTool('saveToFile', outsideArgs);
+
+            expect(result.isError).toBeFalsy();
+            expect(prompts[0]).toContain(path.join(outsideDir, 'note.txt'));
+            expect(await fs.readFile(path.join(outsideDir, 'note.txt'), 'utf-8')).toBe('outside');
+        });
+
+        it('should refuse when the client cannot confirm', async () => {
+            await connect();
+            const result = await callTool('saveToFile', { ...outsideArgs, filename: 'refused.txt' });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('does not support elicitation');
+        });
+
+        it('should never leave the client roots', async () => {
+            await connect('accept');
+            const result = await callTool('saveToFile', { ...outsideArgs, category: '../../letsmcp-escape' });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Access denied');
+            expect(prompts).toEqual([]);
+        });
+    });
+
+    describe('running commands', () => {
+        const nodeArgs = ['-e', 'console.log("hi there")'];
+
+        it('should show the full command line and run it once confirmed', async () => {
+            await connect('accept');
+            const result = await callTool('executeCommand', { command: process.execPath, args: nodeArgs });
+
+            expect(result.structuredContent.stdout.trim()).toBe('hi there');
+            expect(prompts[0]).toContain(formatCommandLine(process.execPath, nodeArgs));
+            expect(prompts[0]).toContain(process.cwd());
+        });
+
+        it('should not run the command when the user cancels', async () => {
+            await connect('cancel');
+            const result = await callTool('executeCommand', { command: process.execPath, args: nodeArgs });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('cancelled by the user');
+        });
+
+        it('should run allowlisted commands without asking', async () => {
+            vi.stubEnv('MCP_COMMAND_ALLOWLIST', `git, ${path.basename(process.execPath)}`);
+            await connect('decline');
+            const result = await callTool('executeCommand', { command: process.execPath, args: nodeArgs });
+
+            expect(result.isError).toBeFalsy();
+            expect(prompts).toEqual([]);
+        });
+    });
+
+    describe('policy', () => {
+        it('should use defaults and ignore invalid values', () => {
+            vi.stubEnv('MCP_CONFIRM_COMMANDS', 'sometimes');
+
+            expect(getConfirmationPolicy().actions).toEqual({
+                overwriteFile: 'confirm',
+                writeOutsideFiles: 'require',
+                runCommand: 'confirm',
+            });
+        });
+
+        it('should match allowlisted commands by name or path', () => {
+            const policy = { ...getConfirmationPolicy(), commandAllowlist: ['git', '/usr/bin/ls'] };
+
+            expect(isCommandAllowlisted('git', policy)).toBe(true);
+            expect(isCommandAllowlisted('/usr/local/bin/git', policy)).toBe(true);
+            expect(isCommandAllowlisted('/usr/bin/ls', policy)).toBe(true);
+            expect(isCommandAllowlisted('rm', policy)).toBe(false);
+        });
+
+        it('should quote arguments in command lines', () => {
+            expect(formatCommandLine('git', ['commit', '-m', "it's done"])).toBe(`git commit -m 'it'\\''s done'`);
+        });
+    });
+});
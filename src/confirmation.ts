@@ -0,0 +1,152 @@
+/**
+ * Human-in-the-loop confirmation for destructive tool calls
+ * When the client supports MCP elicitation, the user is asked before the server overwrites a file,
+ * writes outside mcp-files or runs a command that isn't allowlisted. The policy decides which actions ask.
+ */
+
+import * as path from 'path';
+import { ElicitResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolCallOptions } from './registry.js';
+import { logger } from './logger.js';
+import { splitList } from './env.js';
+
+/**
+ * allow   - never ask
+ * confirm - ask when the client supports elicitation, otherwise go ahead
+ * require - ask, and refuse when the client can't be asked
+ * deny    - always refuse
+ */
+export type ConfirmationMode = 'allow' | 'confirm' | 'require' | 'deny';
+
+export type ConfirmableAction = 'overwriteFile' | 'writeOutsideFiles' | 'runCommand';
+
+export interface ConfirmationPolicy {
+    actions: Record<ConfirmableAction, ConfirmationMode>;
+    // Commands (by name, e.g. "git") that run without confirmation
+    commandAllowlist: string[];
+}
+
+export type ConfirmationResult = { allowed: true } | { allowed: false; reason: string };
+
+const MODES: ConfirmationMode[] = ['allow', 'confirm', 'require', 'deny'];
+
+// Environment variable and default mode for each action
+const ACTIONS: Record<ConfirmableAction, { env: string; mode: ConfirmationMode }> = {
+    overwriteFile: { env: 'MCP_CONFIRM_OVERWRITE', mode: 'confirm' },
+    // saveToFile could never leave mcp-files before, so clients that can't confirm still can't
+    writeOutsideFiles: { env: 'MCP_CONFIRM_OUTSIDE_FILES', mode: 'require' },
+    runCommand: { env: 'MCP_CONFIRM_COMMANDS', mode: 'confirm' },
+};
+
+// Clients usually wait for the user to respond
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+function readMode(action: ConfirmableAction): ConfirmationMode {
+    const { env, mode } = ACTIONS[action];
+    const value = process.env[env]?.trim().toLowerCase();
+    if (!value) return mode;
+
+    if (!MODES.includes(value as ConfirmationMode)) {
+        logger.warning('confirm', `Ignoring invalid ${env}="${value}", using "${mode}"`, { allowed: MODES });
+        return mode;
+    }
+    return value as ConfirmationMode;
+}
+
+/**
+ * Read the confirmation policy from the environment
+ */
+export function getConfirmationPolicy(): ConfirmationPolicy {
+    return {
+        actions: {
+            overwriteFile: readMode('overwriteFile'),
+            writeOutsideFiles: readMode('writeOutsideFiles'),
+            runCommand: readMode('runCommand'),
+        },
+        commandAllowlist: splitList(process.env.MCP_COMMAND_ALLOWLIST),
+    };
+}
+
+/**
+ * Whether a command is on the allowlist (by full path or by name)
+ */
+export function isCommandAllowlisted(command: string, policy: ConfirmationPolicy = getConfirmationPolicy()): boolean {
+    return policy.commandAllowlist.some(allowed => allowed === command || allowed === path.basename(command));
+}
+
+/**
+ * Render a command line the way a user would type it
+ */
+export function formatCommandLine(command: string, args: string[] = []): string {
+    return [command, ...args]
+        .map(part => /^[\w@%+=:,./-]+$/.test(part) ? part : `'${part.replace(/'/g, `'\\''`)}'`)
+        .join(' ');
+}
+
+/**
+ * Ask the user through elicitation. Only an explicit accept counts.
+ */
+async function elicitConfirmation({ server, extra }: ToolCallOptions, message: string): Promise<ConfirmationResult> {
+    const request: ElicitRequest = {
+        method: 'elicitation/create',
+        params: {
+            mode: 'form',
+            message,
+            requestedSchema: {
+                type: 'object',
+                properties: {
+                    confirm: { type: 'boolean', title: 'Proceed', default: true },
+                },
+            },
+        },
+    };
+
+    try {
+        const result = extra
+            ? await extra.sendRequest(request, ElicitResultSchema, { timeout: CONFIRMATION_TIMEOUT_MS })
+            : await server.elicitInput(request.params, { timeout: CONFIRMATION_TIMEOUT_MS });
+
+        if (result.action === 'accept' && result.content?.confirm !== false) {
+            return { allowed: true };
+        }
+        return { allowed: false, reason: result.action === 'cancel' ? 'cancelled by the user' : 'declined by the user' };
+    } catch (error) {
+        return { allowed: false, reason: `confirmation failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+}
+
+/**
+ * Decide whether a destructive action may go ahead, asking the user if the policy says so.
+ * The message should spell out what will happen (target path, full command line, ...).
+ */
+export async function confirmAction(
+    options: ToolCallOptions,
+    action: ConfirmableAction,
+    message: string,
+    policy: ConfirmationPolicy = getConfirmationPolicy()
+): Promise<ConfirmationResult> {
+    const mode = policy.actions[action];
+    let result: ConfirmationResult;
+
+    if (mode === 'allow') {
+        return { allowed: true };
+    } else if (mode === 'deny') {
+        result = { allowed: false, reason: `blocked by policy (${ACTIONS[action].env}=deny)` };
+    } else if (options.server.getClientCapabilities()?.elicitation?.form) {
+        result = await elicitConfirmation(options, message);
+    } else if (mode === 'require') {
+        result = {
+            allowed: false,
+            reason: `confirmation required (${ACTIONS[action].env}=require), but the client does not support elicitation`,
+        };
+    } else {
+        return { allowed: true };
+    }
+
+    logger.info('confirm', result.allowed ? `Confirmed ${action}` : `Refused ${action}`, {
+        action,
+        ...(!result.allowed && { reason: result.reason }),
+    });
+    return result;
+}
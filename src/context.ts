@@ -0,0 +1,24 @@
+/**
+ * Per-request MCP context
+ * Tool calls run inside runWithRequestContext() so code far below the handler
+ * (the logger, the sampling AI provider) can reach the client that made the request.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ToolCallOptions } from './registry.js';
+
+const requestContext = new AsyncLocalStorage<ToolCallOptions>();
+
+/**
+ * Run fn as part of the given MCP request
+ */
+export function runWithRequestContext<T>(options: ToolCallOptions, fn: () => T): T {
+    return requestContext.run(options, fn);
+}
+
+/**
+ * The MCP request currently being handled, if any (undefined for REST calls)
+ */
+export function getRequestContext(): ToolCallOptions | undefined {
+    return requestContext.getStore();
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readInteger, splitList } from './env.js';
+import { logger } from './logger.js';
+import { getAuditLogOptions } from './audit.js';
+import { getFetchPolicy } from './safeFetch.js';
+
+describe('environment settings', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    describe('readInteger', () => {
+        it('should read whole numbers and fall back when unset', () => {
+            vi.stubEnv('TEST_NUMBER', ' 42 ');
+
+            expect(readInteger('TEST_NUMBER', 7)).toBe(42);
+            expect(readInteger('TEST_UNSET_NUMBER', 7)).toBe(7);
+        });
+
+        it('should log and ignore invalid values', () => {
+            const warning = vi.spyOn(logger, 'warning').mockImplementation(() => {});
+
+            for (const value of ['lots', '1.5', '-1']) {
+                vi.stubEnv('TEST_NUMBER', value);
+                expect(readInteger('TEST_NUMBER', 7), value).toBe(7);
+            }
+            vi.stubEnv('TEST_NUMBER', '0');
+            expect(readInteger('TEST_NUMBER', 7, 1)).toBe(7);
+
+            expect(warning).toHaveBeenCalledTimes(4);
+            expect(warning).toHaveBeenCalledWith('config', 'Ignoring invalid TEST_NUMBER="0", using 7', { format: 'a whole number of at least 1' });
+        });
+
+        it('should be used by every module that reads numbers', () => {
+            const warning = vi.spyOn(logger, 'warning').mockImplementation(() => {});
+            vi.stubEnv('AUDIT_MAX_FILES', 'thirty');
+            vi.stubEnv('FETCH_MAX_REDIRECTS', 'many');
+
+            expect(getAuditLogOptions().maxFiles).toBe(30);
+            expect(getFetchPolicy().maxRedirects).toBe(5);
+            expect(warning).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('splitList', () => {
+        it('should split on commas and drop empty items', () => {
+            expect(splitList(' a, b ,,c ')).toEqual(['a', 'b', 'c']);
+            expect(splitList(undefined)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,31 @@
+/**
+ * Environment settings
+ * Parsers shared by the modules that read their configuration from process.env. An invalid
+ * value never stops the server: it is logged and the default is used instead.
+ */
+
+import { logger } from './logger.js';
+
+/**
+ * Whole number of at least min; unset means the fallback
+ */
+export function readInteger(env: string, fallback: number, min: number = 0): number {
+    const value = process.env[env]?.trim();
+    if (!value) return fallback;
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min) {
+        logger.warning('config', `Ignoring invalid ${env}="${value}", using ${fallback}`, {
+            format: `a whole number of at least ${min}`,
+        });
+        return fallback;
+    }
+    return number;
+}
+
+/**
+ * Comma-separated list, trimmed, without empty items
+ */
+export function splitList(value?: string): string[] {
+    return (value || '').split(',').map(s => s.trim()).filter(Boolean);
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { FileWatcher, fileUri, getFileWatcher, resolveFileUri } from './files.js';
+
+describe('mcp-files resources', () => {
+    const category = 'test-files-resources';
+    const dir = path.join(process.cwd(), 'mcp-files', category);
+    const noteUri = `mcpfiles://${category}/note.txt`;
+    const imageUri = `mcpfiles://${category}/shot.png`;
+    // PNG signature plus a few bytes that aren't valid UTF-8
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0xfe]);
+
+    let client: Client;
+
+    beforeAll(async () => {
+        await fs.mkdir(dir, { recursive: true });
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        await fs.writeFile(path.join(dir, 'note.txt'), 'Dear hiring manager');
+        await fs.writeFile(path.join(dir, 'shot.png'), image);
+
+        client = new Client({ name: 'test-client', version: '1.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer().connect(serverTransport);
+        await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    it('should declare subscribe and listChanged', () => {
+        expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+    });
+
+    it('should list saved files alongside server://info', async () => {
+        const { resources } = await client.listResources();
+        const uris = resources.map(r => r.uri);
+
+        expect(uris).toContain('server://info');
+        expect(uris).toContain(noteUri);
+        expect(resources.find(r => r.uri === imageUri)).toMatchObject({
+            name: `${category}/shot.png`,
+            mimeType: 'image/png',
+        });
+    });
+
+    it('should list the mcpfiles template', async () => {
+        const { resourceTemplates } = await client.listResourceTemplates();
+
+        expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+            'mcpfiles://{category}/{filename}',
+            'audit://log{?from,to,tool,outcome,transport,limit}',
+        ]);
+    });
+
+    it('should read text files as text', async () => {
+        const { contents } = await client.readResource({ uri: noteUri });
+
+        expect(contents[0]).toEqual({ uri: noteUri, mimeType: 'text/plain', text: 'Dear hiring manager' });
+    });
+
+    it('should read binary files as blobs', async () => {
+        const { contents } = await client.readResource({ uri: imageUri });
+
+        expect(contents[0].mimeType).toBe('image/png');
+        expect(Buffer.from((contents[0] as { blob: string }).blob, 'base64')).toEqual(image);
+    });
+
+    it('should refuse URIs that leave mcp-files', async () => {
+        await expect(client.readResource({ uri: 'mcpfiles://../package.json' })).rejects.toThrow('Invalid file resource');
+        expect(resolveFileUri('mcpfiles://%2E%2E/package.json')).toBeUndefined();
+    });
+
+    it('should report missing files', async () => {
+        await expect(client.readResource({ uri: `mcpfiles://${category}/missing.txt` })).rejects.toThrow('File not found');
+    });
+
+    it('should round-trip nested paths and special characters', () => {
+        const uri = fileUri(path.join('applications', 'acme corp', 'cover #1.txt'));
+
+        expect(uri).toBe('mcpfiles://applications/acme%20corp/cover%20%231.txt');
+        expect(resolveFileUri(uri)).toBe(path.join(process.cwd(), 'mcp-files', 'applications', 'acme corp', 'cover #1.txt'));
+    });
+
+    describe('subscriptions', () => {
+        it('should notify subscribers when a file changes', async () => {
+            const updates: string[] = [];
+            client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+                updates.push(notification.params.uri);
+            });
+
+            await client.subscribeResource({ uri: noteUri });
+            await fs.writeFile(path.join(dir, 'note.txt'), 'Updated letter');
+
+            await waitFor(() => updates.length > 0);
+            expect(updates).toEqual([noteUri]);
+        });
+
+        it('should watch each directory where recursive watching is unavailable', async () => {
+            const watcher = new FileWatcher(false);
+            const updates: string[] = [];
+            const server = {
+                sendResourceUpdated: async ({ uri }: { uri: string }) => { updates.push(uri); },
+                sendResourceListChanged: async () => {},
+            } as any;
+            const nestedUri = `mcpfiles://${category}/drafts/letter.txt`;
+
+            watcher.subscribe(server, nestedUri);
+            try {
+                // The subdirectory appears after watching started; give the watcher time to pick it up
+                await fs.mkdir(path.join(dir, 'drafts'));
+                await new Promise(resolve => setTimeout(resolve, 100));
+                await fs.writeFile(path.join(dir, 'drafts', 'letter.txt'), 'Draft');
+
+                await waitFor(() => updates.includes(nestedUri));
+                expect(updates).toContain(nestedUri);
+            } finally {
+                watcher.unsubscribe(server);
+            }
+            expect(watcher.isWatching()).toBe(false);
+        });
+
+        it('should stop watching once every client has unsubscribed or disconnected', async () => {
+            await client.subscribeResource({ uri: noteUri });
+            expect(getFileWatcher().isWatching()).toBe(true);
+
+            await client.unsubscribeResource({ uri: noteUri });
+            expect(getFileWatcher().isWatching()).toBe(false);
+
+            await client.subscribeResource({ uri: noteUri });
+            await client.close();
+            expect(getFileWatcher().isWatching()).toBe(false);
+        });
+    });
+
+    async function waitFor(condition: () => boolean, timeout = 2000) {
+        const start = Date.now();
+        while (!condition() && Date.now() - start < timeout) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+    }
+});
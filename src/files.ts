@@ -0,0 +1,304 @@
+/**
+ * Saved files as MCP resources
+ * Everything under mcp-files/ (cover letters from saveToFile, LinkedIn screenshots, ...) is listed
+ * as an mcpfiles:// resource. Clients can subscribe to a file and get resources/updated when it changes.
+ */
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { isWithinRoot, realPath } from './roots.js';
+import { logger } from './logger.js';
+
+export const FILES_URI_PREFIX = 'mcpfiles://';
+
+export const FILES_RESOURCE_TEMPLATE: ResourceTemplate = {
+    uriTemplate: `${FILES_URI_PREFIX}{category}/{filename}`,
+    name: 'Saved file',
+    description: 'A file saved by saveToFile or scrapeLinkedInJob under mcp-files (e.g. mcpfiles://screenshots/linkedin-job-123.png)',
+};
+
+const MIME_TYPES: Record<string, string> = {
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.html': 'text/html',
+    '.csv': 'text/csv',
+    '.json': 'application/json',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.pdf': 'application/pdf',
+};
+
+// Editors and fs.watch report several events per save
+const UPDATE_DEBOUNCE_MS = 100;
+
+/**
+ * Directory saveToFile and the scraper write into
+ */
+export function getFilesDir(): string {
+    return path.join(process.cwd(), 'mcp-files');
+}
+
+export function getMimeType(filePath: string): string {
+    return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+function isText(mimeType: string): boolean {
+    return mimeType.startsWith('text/') || mimeType === 'application/json';
+}
+
+/**
+ * mcp-files/applications/google/cover.txt -> mcpfiles://applications/google/cover.txt
+ */
+export function fileUri(relativePath: string): string {
+    return FILES_URI_PREFIX + relativePath.split(path.sep).map(encodeURIComponent).join('/');
+}
+
+/**
+ * Map an mcpfiles:// URI back to a path inside mcp-files (undefined if it would leave it)
+ */
+export function resolveFileUri(uri: string): string | undefined {
+    if (!uri.startsWith(FILES_URI_PREFIX)) return undefined;
+
+    const segments = uri.slice(FILES_URI_PREFIX.length).split('/').filter(Boolean).map(decodeURIComponent);
+    const resolved = path.resolve(getFilesDir(), ...segments);
+    return segments.length > 0 && isWithinRoot(getFilesDir(), resolved) ? resolved : undefined;
+}
+
+/**
+ * Every saved file, as a resource (hidden files and directories are skipped)
+ */
+export async function listFileResources(): Promise<Resource[]> {
+    const baseDir = getFilesDir();
+    const resources: Resource[] = [];
+
+    async function walk(dir: string) {
+        const entries = await fsp.readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) continue;
+
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await walk(fullPath);
+            } else if (entry.isFile()) {
+                const relativePath = path.relative(baseDir, fullPath);
+                const stats = await fsp.stat(fullPath);
+                resources.push({
+                    uri: fileUri(relativePath),
+                    name: relativePath.split(path.sep).join('/'),
+                    description: `${stats.size} bytes`,
+                    mimeType: getMimeType(fullPath),
+                    annotations: { lastModified: stats.mtime.toISOString() },
+                });
+            }
+        }
+    }
+
+    await walk(baseDir);
+    return resources.sort((a, b) => a.uri.localeCompare(b.uri));
+}
+
+/**
+ * Read a saved file: text files as text, everything else (screenshots, PDFs) as base64 blobs
+ */
+export async function readFileResource(uri: string) {
+    const filePath = resolveFileUri(uri);
+    // Symlinks inside mcp-files must not lead outside it
+    if (!filePath || !isWithinRoot(await realPath(getFilesDir()), await realPath(filePath))) {
+        throw new Error(`Invalid file resource: ${uri}`);
+    }
+
+    let data: Buffer;
+    try {
+        data = await fsp.readFile(filePath);
+    } catch {
+        throw new Error(`File not found: ${uri}`);
+    }
+
+    const mimeType = getMimeType(filePath);
+    return isText(mimeType)
+        ? { uri, mimeType, text: data.toString('utf-8') }
+        : { uri, mimeType, blob: data.toString('base64') };
+}
+
+/**
+ * Tracks resource subscriptions per connected client and watches mcp-files while any exist
+ */
+export class FileWatcher {
+    private subscriptions: Map<Server, Set<string>> = new Map();
+    // Keyed by directory relative to mcp-files ('' for mcp-files itself)
+    private watchers: Map<string, fs.FSWatcher> = new Map();
+    // Debounced notifications per URI; listChanged sticks if any event was a rename
+    private pending: Map<string, { timer: NodeJS.Timeout; listChanged: boolean }> = new Map();
+
+    /**
+     * @param recursive Use one recursive watch. fs.watch only supports that on Linux from Node 20;
+     *                  without it (or where it throws) every directory gets its own watcher.
+     */
+    constructor(private recursive: boolean = true) {}
+
+    subscribe(server: Server, uri: string): void {
+        let uris = this.subscriptions.get(server);
+        if (!uris) {
+            uris = new Set();
+            this.subscriptions.set(server, uris);
+        }
+        uris.add(uri);
+        this.start();
+    }
+
+    unsubscribe(server: Server, uri?: string): void {
+        const uris = this.subscriptions.get(server);
+        if (uri) uris?.delete(uri);
+        if (!uri || uris?.size === 0) this.subscriptions.delete(server);
+        if (this.subscriptions.size === 0) this.stop();
+    }
+
+    isWatching(): boolean {
+        return this.watchers.size > 0;
+    }
+
+    private start(): void {
+        if (this.watchers.size > 0) return;
+
+        const baseDir = getFilesDir();
+        fs.mkdirSync(baseDir, { recursive: true });
+        if (this.recursive) {
+            try {
+                this.watch(baseDir, '', true);
+                return;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+                this.recursive = false;
+            }
+        }
+        this.watchTree(baseDir, '');
+    }
+
+    private watch(dir: string, relative: string, recursive: boolean): void {
+        const watcher = fs.watch(dir, { recursive }, (event, filename) => {
+            if (!filename) return;
+            const name = path.join(relative, filename.toString());
+            if (!recursive && event === 'rename') this.renamed(path.join(dir, filename.toString()), name);
+            this.schedule(event, name);
+        });
+        watcher.on('error', (error) => {
+            logger.warning('files', 'Stopped watching mcp-files', { error: error.message });
+            this.stop();
+        });
+        this.watchers.set(relative, watcher);
+    }
+
+    /**
+     * Watch a directory and everything below it, one watcher each
+     */
+    private watchTree(dir: string, relative: string): void {
+        if (this.watchers.has(relative)) return;
+
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            // Not a directory, or already gone
+            return;
+        }
+        this.watch(dir, relative, false);
+        for (const entry of entries.filter(entry => entry.isDirectory())) {
+            this.watchTree(path.join(dir, entry.name), path.join(relative, entry.name));
+        }
+    }
+
+    /**
+     * Per-directory watching: follow directories as they appear and disappear
+     */
+    private renamed(fullPath: string, relative: string): void {
+        if (fs.existsSync(fullPath)) {
+            this.watchTree(fullPath, relative);
+            return;
+        }
+        for (const [dir, watcher] of this.watchers) {
+            if (dir === relative || dir.startsWith(relative + path.sep)) {
+                watcher.close();
+                this.watchers.delete(dir);
+            }
+        }
+    }
+
+    private stop(): void {
+        for (const watcher of this.watchers.values()) watcher.close();
+        this.watchers.clear();
+        for (const { timer } of this.pending.values()) clearTimeout(timer);
+        this.pending.clear();
+    }
+
+    private schedule(event: string, filename: string): void {
+        const uri = fileUri(filename);
+        const previous = this.pending.get(uri);
+        clearTimeout(previous?.timer);
+
+        const listChanged = event === 'rename' || !!previous?.listChanged;
+        const timer = setTimeout(() => {
+            this.pending.delete(uri);
+            this.notify(uri, listChanged);
+        }, UPDATE_DEBOUNCE_MS);
+        this.pending.set(uri, { timer, listChanged });
+    }
+
+    /**
+     * resources/updated to subscribers of the file; list_changed when files appear or disappear
+     */
+    private notify(uri: string, listChanged: boolean): void {
+        for (const [server, uris] of this.subscriptions) {
+            const sends = [
+                uris.has(uri) ? server.sendResourceUpdated({ uri }) : undefined,
+                listChanged ? server.sendResourceListChanged() : undefined,
+            ];
+            for (const send of sends) {
+                send?.catch(() => {
+                    // Client went away without unsubscribing
+                });
+            }
+        }
+    }
+}
+
+let fileWatcherInstance: FileWatcher | null = null;
+
+export function getFileWatcher(): FileWatcher {
+    if (!fileWatcherInstance) {
+        fileWatcherInstance = new FileWatcher();
+    }
+    return fileWatcherInstance;
+}
+
+/**
+ * Register the subscription handlers. Listing, reading and the
+ * mcpfiles:// template are part of the server's resource handlers.
+ */
+export function registerFileResources(server: Server, watcher: FileWatcher = getFileWatcher()): void {
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        watcher.subscribe(server, request.params.uri);
+        return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        watcher.unsubscribe(server, request.params.uri);
+        return {};
+    });
+
+    // Drop the client's subscriptions when it disconnects
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+        previousOnClose?.();
+        watcher.unsubscribe(server);
+    };
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { configureLimits, getLimitsConfig, QueueTimeoutError, RateLimiter, Semaphore, TokenBucket } from './limits.js';
+import { toolRegistry } from './tools.js';
+import { createServer } from './server.js';
+import { createAPIRoutes } from './api/routes.js';
+import { getTrustProxy } from './api/rateLimit.js';
+
+vi.mock('./ai/service.js', async () => {
+    const actual = await vi.importActual('./ai/service.js');
+    return {
+        ...actual,
+        getAIService: vi.fn(() => ({
+            hasProvider: vi.fn(() => true),
+            getConfiguredProviders: vi.fn(() => ['groq']),
+            generateText: vi.fn(async () => ({ text: 'Generated text', provider: 'groq' })),
+        })),
+    };
+});
+
+const CONFIG = { scrape: { limit: 1, windowSeconds: 60 }, ai: { limit: 2, windowSeconds: 10 }, maxBrowsers: 1, maxProviderCalls: 1, queueMaxWaitMs: 50 };
+
+describe('limits', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        configureLimits();
+    });
+
+    describe('TokenBucket', () => {
+        it('should allow a burst and then refill over the window', () => {
+            const bucket = new TokenBucket({ limit: 2, windowSeconds: 60 }, 0);
+
+            expect(bucket.take(0)).toMatchObject({ allowed: true, remaining: 1, policy: '2;w=60' });
+            expect(bucket.take(0)).toMatchObject({ allowed: true, remaining: 0, resetSeconds: 60 });
+            expect(bucket.take(0)).toMatchObject({ allowed: false, remaining: 0, retryAfterSeconds: 30 });
+
+            // One token back after half the window
+            expect(bucket.take(30_000).allowed).toBe(true);
+            expect(bucket.take(30_000).allowed).toBe(false);
+        });
+    });
+
+    describe('RateLimiter', () => {
+        it('should keep a bucket per caller', () => {
+            const limiter = new RateLimiter('scrape', { limit: 1, windowSeconds: 60 });
+
+            expect(limiter.consume('ip:1', 0)?.allowed).toBe(true);
+            expect(limiter.consume('ip:1', 0)?.allowed).toBe(false);
+            expect(limiter.consume('ip:2', 0)?.allowed).toBe(true);
+        });
+
+        it('should not limit when disabled', () => {
+            expect(new RateLimiter('ai', null).consume('ip:1')).toBeUndefined();
+        });
+    });
+
+    describe('Semaphore', () => {
+        it('should cap concurrency and run queued tasks in order', async () => {
+            const semaphore = new Semaphore('browser', 1, 1000);
+            const order: string[] = [];
+            let release!: () => void;
+
+            const first = semaphore.run(() => new Promise<void>(resolve => { release = resolve; }).then(() => { order.push('first'); }));
+            const second = semaphore.run(async () => { order.push('second'); });
+
+            await Promise.resolve();
+            expect(semaphore.running).toBe(1);
+            expect(semaphore.queued).toBe(1);
+
+            release();
+            await Promise.all([first, second]);
+            expect(order).toEqual(['first', 'second']);
+            expect(semaphore.running).toBe(0);
+        });
+
+        it('should give up after the max wait', async () => {
+            const semaphore = new Semaphore('browser', 1, 20);
+            const blocker = semaphore.run(() => new Promise(resolve => setTimeout(resolve, 100)));
+
+            await expect(semaphore.run(async () => 'late')).rejects.toBeInstanceOf(QueueTimeoutError);
+            expect(semaphore.queued).toBe(0);
+            await blocker;
+        });
+
+        it('should leave the queue when cancelled', async () => {
+            const semaphore = new Semaphore('browser', 1, 1000);
+            const controller = new AbortController();
+            const blocker = semaphore.run(() => new Promise(resolve => setTimeout(resolve, 50)));
+
+            const waiting = semaphore.run(async () => 'never', controller.signal);
+            controller.abort();
+
+            await expect(waiting).rejects.toThrow('Cancelled');
+            expect(semaphore.queued).toBe(0);
+            await blocker;
+        });
+    });
+
+    describe('config', () => {
+        it('should read limits from the environment', () => {
+            vi.stubEnv('RATE_LIMIT_SCRAPE', '5/300');
+            vi.stubEnv('RATE_LIMIT_AI', 'off');
+            vi.stubEnv('MAX_CONCURRENT_BROWSERS', '2');
+
+            expect(getLimitsConfig()).toMatchObject({
+                scrape: { limit: 5, windowSeconds: 300 },
+                ai: null,
+                maxBrowsers: 2,
+                maxProviderCalls: 4,
+            });
+        });
+
+        it('should ignore invalid values', () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            vi.stubEnv('RATE_LIMIT_SCRAPE', 'lots');
+            vi.stubEnv('MAX_CONCURRENT_AI', '0');
+
+            expect(getLimitsConfig()).toMatchObject({ scrape: { limit: 2, windowSeconds: 60 }, maxProviderCalls: 4 });
+        });
+    });
+
+    describe('REST API', () => {
+        let app: express.Application;
+
+        beforeEach(() => {
+            configureLimits(CONFIG);
+            app = express();
+            app.use(express.json());
+            app.use('/api', createAPIRoutes({ auth: 'off' }));
+        });
+
+        it('should send RateLimit headers and 429 once the bucket is empty', async () => {
+            const first = await request(app).post('/api/generate').send({ prompt: 'Hi' });
+            await request(app).post('/api/generate').send({ prompt: 'Hi' });
+            const limited = await request(app).post('/api/generate').send({ prompt: 'Hi' });
+
+            expect(first.status).toBe(200);
+            expect(first.headers['ratelimit-policy']).toBe('2;w=10');
+            expect(first.headers['ratelimit-limit']).toBe('2');
+            expect(first.headers['ratelimit-remaining']).toBe('1');
+            expect(limited.status).toBe(429);
+            expect(limited.headers['retry-after']).toBe('5');
+            expect(limited.body.error).toContain('Rate limit exceeded for ai requests');
+        });
+
+        it('should give clients behind a trusted proxy their own buckets', async () => {
+            vi.stubEnv('TRUST_PROXY', '1');
+            app.set('trust proxy', getTrustProxy());
+
+            const send = (ip: string) => request(app).post('/api/generate').set('X-Forwarded-For', ip).send({ prompt: 'Hi' });
+            await send('203.0.113.1');
+            await send('203.0.113.1');
+
+            expect((await send('203.0.113.1')).status).toBe(429);
+            expect((await send('203.0.113.2')).status).toBe(200);
+        });
+
+        it('should read TRUST_PROXY', () => {
+            expect(getTrustProxy()).toBe(false);
+            vi.stubEnv('TRUST_PROXY', 'true');
+            expect(getTrustProxy()).toBe(true);
+            vi.stubEnv('TRUST_PROXY', '2');
+            expect(getTrustProxy()).toBe(2);
+            vi.stubEnv('TRUST_PROXY', 'loopback, 10.0.0.0/8');
+            expect(getTrustProxy()).toBe('loopback, 10.0.0.0/8');
+        });
+
+        it('should keep separate AI buckets per route', async () => {
+            await request(app).post('/api/generate').send({ prompt: 'Hi' });
+            await request(app).post('/api/generate').send({ prompt: 'Hi' });
+            const other = await request(app).post('/api/analyze-resume').send({});
+
+            // Reaches validation rather than the limiter
+            expect(other.status).toBe(400);
+        });
+
+        it('should share the scrape bucket between scraping routes', async () => {
+            const scrape = await request(app).post('/api/scrape-linkedin').send({ url: 'https://example.com' });
+            const extract = await request(app).post('/api/extract-job').send({ url: 'https://www.linkedin.com/jobs/view/1' });
+
+            expect(scrape.status).toBe(400);
+            expect(extract.status).toBe(429);
+            expect(extract.body.error).toContain('scrape requests (1 per 60s)');
+        });
+    });
+
+    describe('scrapeLinkedInJob tool', () => {
+        it('should report the rate limit without launching a browser', async () => {
+            const limits = configureLimits(CONFIG);
+            limits.scrape.consume('stdio');
+
+            const result = await toolRegistry.call('scrapeLinkedInJob', { url: 'https://www.linkedin.com/jobs/view/1' }, { server: createServer() });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0]).toMatchObject({ text: expect.stringContaining('Rate limit exceeded for LinkedIn scraping (1 per 60s)') });
+            expect(limits.browsers.running).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,258 @@
+/**
+ * Rate limits and concurrency caps
+ * Token buckets limit how often each caller (API key or IP, for REST and /mcp alike) may scrape or call AI routes;
+ * semaphores cap how many browsers and provider calls run at once, queueing the rest for a bounded time.
+ */
+
+import { logger } from './logger.js';
+import { readInteger } from './env.js';
+
+export interface RateLimitRule {
+    // Bucket size: requests allowed in a burst
+    limit: number;
+    // Time for an empty bucket to refill completely
+    windowSeconds: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    // Seconds until the bucket is full again
+    resetSeconds: number;
+    // Seconds until the next request would be allowed (0 when allowed)
+    retryAfterSeconds: number;
+    // RateLimit-Policy value, e.g. "2;w=60"
+    policy: string;
+}
+
+export interface LimitsConfig {
+    scrape: RateLimitRule | null;
+    ai: RateLimitRule | null;
+    maxBrowsers: number;
+    maxProviderCalls: number;
+    queueMaxWaitMs: number;
+}
+
+// PROJECT_STATUS.md: LinkedIn tolerates 1-2 jobs per minute
+const DEFAULT_SCRAPE_RULE: RateLimitRule = { limit: 2, windowSeconds: 60 };
+const DEFAULT_AI_RULE: RateLimitRule = { limit: 30, windowSeconds: 60 };
+const DEFAULT_MAX_BROWSERS = 1;
+const DEFAULT_MAX_PROVIDER_CALLS = 4;
+const DEFAULT_QUEUE_MAX_WAIT_MS = 30_000;
+
+// Full buckets are dropped once this many callers are tracked
+const MAX_TRACKED_BUCKETS = 10_000;
+
+/**
+ * Thrown when a queued task waited longer than the queue allows
+ */
+export class QueueTimeoutError extends Error {
+    constructor(readonly queue: string, readonly waitedMs: number) {
+        super(`Too many concurrent ${queue} requests; gave up after waiting ${Math.round(waitedMs / 1000)}s`);
+        this.name = 'QueueTimeoutError';
+    }
+}
+
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(private rule: RateLimitRule, now: number = Date.now()) {
+        this.tokens = rule.limit;
+        this.updatedAt = now;
+    }
+
+    private get refillPerMs(): number {
+        return this.rule.limit / (this.rule.windowSeconds * 1000);
+    }
+
+    private refill(now: number): void {
+        this.tokens = Math.min(this.rule.limit, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+        this.updatedAt = now;
+    }
+
+    isFull(now: number = Date.now()): boolean {
+        this.refill(now);
+        return this.tokens >= this.rule.limit;
+    }
+
+    take(now: number = Date.now()): RateLimitResult {
+        this.refill(now);
+
+        const allowed = this.tokens >= 1;
+        if (allowed) this.tokens -= 1;
+
+        return {
+            allowed,
+            limit: this.rule.limit,
+            remaining: Math.floor(this.tokens),
+            resetSeconds: Math.ceil((this.rule.limit - this.tokens) / this.refillPerMs / 1000),
+            retryAfterSeconds: allowed ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs / 1000),
+            policy: `${this.rule.limit};w=${this.rule.windowSeconds}`,
+        };
+    }
+}
+
+/**
+ * One token bucket per caller
+ */
+export class RateLimiter {
+    private buckets = new Map<string, TokenBucket>();
+
+    // A null rule means unlimited
+    constructor(readonly name: string, readonly rule: RateLimitRule | null) {}
+
+    /**
+     * Take a token for the caller; undefined when this limiter is disabled
+     */
+    consume(caller: string, now: number = Date.now()): RateLimitResult | undefined {
+        if (!this.rule) return undefined;
+
+        let bucket = this.buckets.get(caller);
+        if (!bucket) {
+            if (this.buckets.size >= MAX_TRACKED_BUCKETS) this.prune(now);
+            bucket = new TokenBucket(this.rule, now);
+            this.buckets.set(caller, bucket);
+        }
+        return bucket.take(now);
+    }
+
+    private prune(now: number): void {
+        for (const [caller, bucket] of this.buckets) {
+            if (bucket.isFull(now)) this.buckets.delete(caller);
+        }
+    }
+}
+
+/**
+ * Counting semaphore with a FIFO queue. Waiters give up after maxWaitMs.
+ */
+export class Semaphore {
+    private active = 0;
+    private waiters: Array<{ grant: () => void; reject: (error: Error) => void }> = [];
+
+    constructor(readonly name: string, readonly max: number, readonly maxWaitMs: number) {}
+
+    get running(): number {
+        return this.active;
+    }
+
+    get queued(): number {
+        return this.waiters.length;
+    }
+
+    /**
+     * Run fn once a slot is free
+     */
+    async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        await this.acquire(signal);
+        try {
+            return await fn();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) return Promise.reject(new Error('Cancelled'));
+        if (this.active < this.max) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        const started = Date.now();
+        return new Promise<void>((resolve, reject) => {
+            const waiter = {
+                grant: () => {
+                    cleanup();
+                    this.active++;
+                    resolve();
+                },
+                reject: (error: Error) => {
+                    cleanup();
+                    this.waiters = this.waiters.filter(w => w !== waiter);
+                    reject(error);
+                },
+            };
+            const timer = setTimeout(() => waiter.reject(new QueueTimeoutError(this.name, Date.now() - started)), this.maxWaitMs);
+            const onAbort = () => waiter.reject(new Error('Cancelled'));
+            const cleanup = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.waiters.push(waiter);
+            logger.debug('limits', `Queued ${this.name} request`, { running: this.active, queued: this.waiters.length });
+        });
+    }
+
+    private release(): void {
+        this.active--;
+        this.waiters.shift()?.grant();
+    }
+}
+
+function parseRule(env: string, fallback: RateLimitRule): RateLimitRule | null {
+    const value = process.env[env]?.trim().toLowerCase();
+    if (!value) return fallback;
+    if (value === 'off') return null;
+
+    const match = /^(\d+)\s*\/\s*(\d+)$/.exec(value);
+    if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+        logger.warning('limits', `Ignoring invalid ${env}="${value}", using "${fallback.limit}/${fallback.windowSeconds}"`, {
+            format: '<requests>/<seconds> or off',
+        });
+        return fallback;
+    }
+    return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+/**
+ * Read limits from the environment
+ */
+export function getLimitsConfig(): LimitsConfig {
+    return {
+        scrape: parseRule('RATE_LIMIT_SCRAPE', DEFAULT_SCRAPE_RULE),
+        ai: parseRule('RATE_LIMIT_AI', DEFAULT_AI_RULE),
+        maxBrowsers: readInteger('MAX_CONCURRENT_BROWSERS', DEFAULT_MAX_BROWSERS, 1),
+        maxProviderCalls: readInteger('MAX_CONCURRENT_AI', DEFAULT_MAX_PROVIDER_CALLS, 1),
+        queueMaxWaitMs: readInteger('QUEUE_MAX_WAIT_MS', DEFAULT_QUEUE_MAX_WAIT_MS, 1),
+    };
+}
+
+export class Limits {
+    // Browser scrapes, shared by the REST API and the scrapeLinkedInJob tool
+    readonly scrape: RateLimiter;
+    // AI routes of the REST API
+    readonly ai: RateLimiter;
+    // Chromium instances running at once
+    readonly browsers: Semaphore;
+    // AI provider calls running at once
+    readonly providers: Semaphore;
+
+    constructor(config: LimitsConfig = getLimitsConfig()) {
+        this.scrape = new RateLimiter('scrape', config.scrape);
+        this.ai = new RateLimiter('ai', config.ai);
+        this.browsers = new Semaphore('browser', config.maxBrowsers, config.queueMaxWaitMs);
+        this.providers = new Semaphore('AI provider', config.maxProviderCalls, config.queueMaxWaitMs);
+    }
+}
+
+let limitsInstance: Limits | null = null;
+
+export function getLimits(): Limits {
+    if (!limitsInstance) {
+        limitsInstance = new Limits();
+    }
+    return limitsInstance;
+}
+
+/**
+ * Replace the limits (e.g. after changing the environment)
+ */
+export function configureLimits(config?: LimitsConfig): Limits {
+    limitsInstance = new Limits(config);
+    return limitsInstance;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { LoggingMessageNotification } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { logger } from './logger.js';
+
+describe('MCP logging', () => {
+    let client: Client;
+    let messages: LoggingMessageNotification['params'][];
+    let stderr: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(async () => {
+        stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+        messages = [];
+
+        const server = createServer();
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        client = new Client({ name: 'test-client', version: '1.0.0' });
+        client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+            messages.push(notification.params);
+        });
+
+        await server.connect(serverTransport);
+        await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+        await client.close();
+        stderr.mockRestore();
+    });
+
+    const runNode = () => client.callTool({
+        name: 'executeCommand',
+        arguments: { command: process.execPath, args: ['-e', ''] },
+    });
+
+    it('should declare the logging capability', () => {
+        expect(client.getServerCapabilities()?.logging).toEqual({});
+    });
+
+    it('should send command execution logs to the calling client', async () => {
+        await runNode();
+
+        expect(messages.map(m => (m.data as { message: string }).message)).toEqual(['Executing command', 'Command exited']);
+        expect(messages[0]).toMatchObject({ level: 'info', logger: 'command' });
+        expect(messages[1].data).toMatchObject({ command: process.execPath, exitCode: 0 });
+    });
+
+    it('should keep writing to stderr', async () => {
+        await runNode();
+
+        expect(stderr).toHaveBeenCalledWith('[info] command: Executing command', expect.objectContaining({
+            command: process.execPath,
+        }));
+    });
+
+    it('should honor logging/setLevel', async () => {
+        await client.setLoggingLevel('warning');
+        await runNode();
+
+        expect(messages).toEqual([]);
+    });
+
+    it('should keep levels per session', async () => {
+        const other = new Client({ name: 'other-client', version: '1.0.0' });
+        const otherMessages: unknown[] = [];
+        other.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+            otherMessages.push(notification.params);
+        });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer().connect(serverTransport);
+        await other.connect(clientTransport);
+
+        await other.setLoggingLevel('error');
+        await runNode();
+        await other.callTool({ name: 'executeCommand', arguments: { command: process.execPath, args: ['-e', ''] } });
+        await other.close();
+
+        expect(messages).toHaveLength(2);
+        expect(otherMessages).toEqual([]);
+    });
+
+    it('should only log to stderr outside an MCP request', async () => {
+        logger.warning('test', 'No client here');
+
+        expect(stderr).toHaveBeenCalledWith('[warning] test: No client here');
+        expect(messages).toEqual([]);
+    });
+});
@@ -0,0 +1,81 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestContext } from './context.js';
+import { redact, redactValue } from './redact.js';
+
+export type { LoggingLevel };
+
+// RFC 5424 order, lowest first
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// Default when a client hasn't called logging/setLevel
+const DEFAULT_LEVEL: LoggingLevel = 'info';
+
+/**
+ * Level chosen by each connected client. Every session (stdio or HTTP) has
+ * its own Server instance, so keying by server makes levels per-session.
+ * Servers without an entry never registered logging and get no notifications.
+ */
+const sessionLevels = new WeakMap<Server, LoggingLevel>();
+
+/**
+ * Handle logging/setLevel for this server. Requires the logging capability.
+ */
+export function registerLogging(server: Server): void {
+    sessionLevels.set(server, DEFAULT_LEVEL);
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+        sessionLevels.set(server, request.params.level);
+        return {};
+    });
+}
+
+/**
+ * Get the minimum level a server's client wants to receive
+ */
+export function getLogLevel(server: Server): LoggingLevel | undefined {
+    return sessionLevels.get(server);
+}
+
+/**
+ * Log a diagnostic message.
+ *
+ * Always written to stderr (stdout belongs to the stdio transport). When
+ * called while handling an MCP request, it is also sent to that client as a
+ * notifications/message if it meets the session's level. Secrets are redacted
+ * from both.
+ */
+export function log(level: LoggingLevel, logger: string, rawMessage: string, rawData?: Record<string, unknown>): void {
+    // Messages and data often carry error text from providers and commands
+    const message = redact(rawMessage);
+    const data = rawData && redactValue(rawData);
+
+    console.error(`[${level}] ${logger}: ${message}`, ...(data ? [data] : []));
+
+    const context = getRequestContext();
+    const minimum = context && getLogLevel(context.server);
+    if (!context || !minimum || LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimum)) return;
+
+    const notification = {
+        method: 'notifications/message' as const,
+        params: { level, logger, data: { message, ...data } },
+    };
+
+    // Send alongside the request so HTTP clients get it on the response stream
+    const send = context.extra
+        ? context.extra.sendNotification(notification)
+        : context.server.notification(notification);
+    send.catch(() => {
+        // Client disconnected; stderr already has the message
+    });
+}
+
+/**
+ * Convenience wrappers for the levels the server uses
+ */
+export const logger = {
+    debug: (name: string, message: string, data?: Record<string, unknown>) => log('debug', name, message, data),
+    info: (name: string, message: string, data?: Record<string, unknown>) => log('info', name, message, data),
+    warning: (name: string, message: string, data?: Record<string, unknown>) => log('warning', name, message, data),
+    error: (name: string, message: string, data?: Record<string, unknown>) => log('error', name, message, data),
+};
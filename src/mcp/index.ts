@@ -0,0 +1,2 @@
+export { createMCPRoutes, closeMCPSessions } from './routes.js';
+export type { MCPRoutesOptions, MCPSession, MCPSessionStore } from './routes.js';
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { createMCPRoutes, closeMCPSessions } from './routes.js';
+import { APIKeyStore, type AuthMode } from '../api/auth.js';
+import { configureLimits, getLimits, getLimitsConfig } from '../limits.js';
+import { configureAuditLog } from '../audit.js';
+import type { MCPSessionStore } from './routes.js';
+
+const ACCEPT = 'application/json, text/event-stream';
+
+const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+};
+
+// Responses arrive as SSE events - pull the JSON-RPC payload out of the data lines
+function parseSSE(text: string) {
+    const data = text.split('\n').find(line => line.startsWith('data: '));
+    return data ? JSON.parse(data.slice(6)) : undefined;
+}
+
+describe('MCP Streamable HTTP Routes', () => {
+    let app: express.Application;
+    let sessions: MCPSessionStore;
+    let dir: string;
+    let keys: APIKeyStore;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'letsmcp-mcp-'));
+        keys = new APIKeyStore(path.join(dir, 'api-keys.json'));
+        sessions = new Map();
+        app = createApp('off');
+    });
+
+    // Explicit auth mode, so HOST and NODE_ENV on the machine running the tests don't matter
+    function createApp(auth: AuthMode) {
+        const app = express();
+        app.use(express.json());
+        app.use('/mcp', createMCPRoutes(sessions, { keys, auth }));
+        return app;
+    }
+
+    afterEach(async () => {
+        configureLimits();
+        configureAuditLog();
+        await closeMCPSessions(sessions);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function initialize() {
+        const response = await request(app)
+            .post('/mcp')
+            .set('Accept', ACCEPT)
+            .send(initializeRequest);
+
+        const sessionId = response.headers['mcp-session-id'];
+        await request(app)
+            .post('/mcp')
+            .set('Accept', ACCEPT)
+            .set('Mcp-Session-Id', sessionId)
+            .send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+        return { response, sessionId };
+    }
+
+    describe('POST /mcp', () => {
+        it('should start a session on initialize', async () => {
+            const { response, sessionId } = await initialize();
+
+            expect(response.status).toBe(200);
+            expect(sessionId).toBeDefined();
+            expect(sessions.has(sessionId)).toBe(true);
+
+            const message = parseSSE(response.text);
+            expect(message.result.serverInfo.name).toBe('letsmcp');
+        });
+
+        it('should list tools within a session', async () => {
+            const { sessionId } = await initialize();
+
+            const response = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Mcp-Session-Id', sessionId)
+                .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+            expect(response.status).toBe(200);
+            const message = parseSSE(response.text);
+            expect(message.result.tools.map((t: any) => t.name)).toContain('echoText');
+        });
+
+        it('should give each session its own server', async () => {
+            const first = await initialize();
+            const second = await initialize();
+
+            expect(first.sessionId).not.toBe(second.sessionId);
+            expect(sessions.get(first.sessionId)?.server).not.toBe(sessions.get(second.sessionId)?.server);
+        });
+
+        it('should return 400 for non-initialize request without session', async () => {
+            const response = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error.message).toContain('No valid session ID');
+        });
+
+        it('should return 404 for unknown session', async () => {
+            const response = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Mcp-Session-Id', 'does-not-exist')
+                .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+            expect(response.status).toBe(404);
+            expect(response.body.error.message).toBe('Session not found');
+        });
+    });
+
+    describe('authentication', () => {
+        beforeEach(() => {
+            app = createApp('required');
+        });
+
+        it('should refuse initialize without an API key', async () => {
+            keys.create('jobos', ['mcp']);
+
+            const response = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .send(initializeRequest);
+
+            expect(response.status).toBe(401);
+            expect(response.headers['mcp-session-id']).toBeUndefined();
+            expect(sessions.size).toBe(0);
+        });
+
+        it('should require the mcp scope', async () => {
+            const key = keys.create('jobos', ['ai:generate']);
+
+            const response = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${key}`)
+                .send(initializeRequest);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should serve audit://log only to keys with admin:config', async () => {
+            const readAudit = async (key: string) => {
+                const init = await request(app)
+                    .post('/mcp')
+                    .set('Accept', ACCEPT)
+                    .set('Authorization', `Bearer ${key}`)
+                    .send(initializeRequest);
+                const response = await request(app)
+                    .post('/mcp')
+                    .set('Accept', ACCEPT)
+                    .set('Authorization', `Bearer ${key}`)
+                    .set('Mcp-Session-Id', init.headers['mcp-session-id'])
+                    .send({ jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 'audit://log' } });
+                return parseSSE(response.text);
+            };
+
+            const denied = await readAudit(keys.create('client', ['mcp']));
+            const allowed = await readAudit(keys.create('admin', ['mcp', 'admin:config']));
+
+            expect(denied.error.message).toContain('Unknown resource: audit://log');
+            expect(allowed.result.contents[0].uri).toBe('audit://log');
+        });
+
+        it('should refuse a session to any key but the one that started it', async () => {
+            const owner = keys.create('owner', ['mcp', 'admin:config']);
+            const other = keys.create('other', ['mcp']);
+
+            const init = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${owner}`)
+                .send(initializeRequest);
+            const sessionId = init.headers['mcp-session-id'];
+
+            const read = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${other}`)
+                .set('Mcp-Session-Id', sessionId)
+                .send({ jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 'audit://log' } });
+            const stream = await request(app)
+                .get('/mcp')
+                .set('Accept', 'text/event-stream')
+                .set('Authorization', `Bearer ${other}`)
+                .set('Mcp-Session-Id', sessionId);
+            const terminate = await request(app)
+                .delete('/mcp')
+                .set('Authorization', `Bearer ${other}`)
+                .set('Mcp-Session-Id', sessionId);
+
+            expect(read.status).toBe(403);
+            expect(stream.status).toBe(403);
+            expect(terminate.status).toBe(403);
+            expect(sessions.has(sessionId)).toBe(true);
+        });
+
+        it('should share the scrape rate limit with the same key on REST', async () => {
+            configureLimits({ ...getLimitsConfig(), scrape: { limit: 1, windowSeconds: 60 } });
+            const key = keys.create('jobos', ['mcp']);
+            // As if the key had just scraped through /api/scrape-linkedin
+            getLimits().scrape.consume('key:jobos');
+
+            const init = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${key}`)
+                .send(initializeRequest);
+            const response = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${key}`)
+                .set('Mcp-Session-Id', init.headers['mcp-session-id'])
+                .send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'scrapeLinkedInJob', arguments: { url: 'https://www.linkedin.com/jobs/view/1' } } });
+
+            const result = parseSSE(response.text).result;
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Rate limit exceeded for LinkedIn scraping');
+        });
+
+        it('should audit tool calls as the key, not the client name', async () => {
+            const log = configureAuditLog({ dir: path.join(dir, 'audit'), enabled: true });
+            const key = keys.create('jobos', ['mcp']);
+
+            const init = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${key}`)
+                .send(initializeRequest);
+            await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${key}`)
+                .set('Mcp-Session-Id', init.headers['mcp-session-id'])
+                .send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echoText', arguments: { text: 'hi' } } });
+
+            const [entry] = await log.query({});
+            expect(entry).toMatchObject({ transport: 'http', caller: 'key:jobos', name: 'echoText' });
+        });
+
+        it('should start a session with an mcp key', async () => {
+            const key = keys.create('jobos', ['mcp']);
+
+            const response = await request(app)
+                .post('/mcp')
+                .set('Accept', ACCEPT)
+                .set('Authorization', `Bearer ${key}`)
+                .send(initializeRequest);
+
+            expect(response.status).toBe(200);
+            expect(sessions.has(response.headers['mcp-session-id'])).toBe(true);
+        });
+    });
+
+    describe('DELETE /mcp', () => {
+        it('should terminate the session', async () => {
+            const { sessionId } = await initialize();
+
+            const response = await request(app)
+                .delete('/mcp')
+                .set('Mcp-Session-Id', sessionId);
+
+            expect(response.status).toBe(200);
+            expect(sessions.has(sessionId)).toBe(false);
+        });
+
+        it('should return 400 without a session id', async () => {
+            const response = await request(app).delete('/mcp');
+
+            expect(response.status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * MCP Streamable HTTP Routes for LetsMCP
+ * Exposes the MCP server to remote clients at /mcp (POST, GET, DELETE). Every request needs an
+ * API key with the "mcp" scope while authentication is enabled, as for the REST API.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Request, Response, Router } from 'express';
+import { Router as createRouter } from 'express';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../server.js';
+import { redactError } from '../redact.js';
+import { authenticate, getAPIKeyStore, requireScope, type APIKeyStore, type AuthMode, type Caller } from '../api/auth.js';
+import { callerId } from '../api/rateLimit.js';
+
+/**
+ * A connected MCP client - every session gets its own Server instance
+ */
+export interface MCPSession {
+    server: Server;
+    transport: StreamableHTTPServerTransport;
+    // Name of the API key that started the session (undefined while authentication is disabled)
+    caller?: string;
+}
+
+export type MCPSessionStore = Map<string, MCPSession>;
+
+export interface MCPRoutesOptions {
+    // Defaults to the shared store (API_KEYS_FILE)
+    keys?: APIKeyStore;
+    // Defaults to API_AUTH
+    auth?: AuthMode;
+}
+
+/**
+ * Send a JSON-RPC error without a request id (transport-level failures)
+ */
+function sendJSONRPCError(res: Response, status: number, code: number, message: string) {
+    res.status(status).json({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+    });
+}
+
+function getSessionId(req: Request): string | undefined {
+    const header = req.headers['mcp-session-id'];
+    return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * A session only answers to the key that started it: knowing its id is not enough
+ */
+function isSessionOwner(session: MCPSession, res: Response): boolean {
+    return session.caller === (res.locals.caller as Caller | undefined)?.name;
+}
+
+export function createMCPRoutes(sessions: MCPSessionStore = new Map(), options: MCPRoutesOptions = {}): Router {
+    const router = createRouter();
+
+    // The tools run commands and read files on this machine: no key, no session
+    router.use(authenticate(options.keys ?? getAPIKeyStore(), options.auth), requireScope('mcp'));
+
+    /**
+     * POST /mcp
+     * Client-to-server JSON-RPC messages. An initialize request without a
+     * session id starts a new session.
+     */
+    router.post('/', async (req: Request, res: Response) => {
+        try {
+            const sessionId = getSessionId(req);
+            const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+            if (existing) {
+                if (!isSessionOwner(existing, res)) {
+                    sendJSONRPCError(res, 403, -32000, 'Forbidden: Session belongs to another API key');
+                    return;
+                }
+                await existing.transport.handleRequest(req, res, req.body);
+                return;
+            }
+
+            if (sessionId) {
+                sendJSONRPCError(res, 404, -32001, 'Session not found');
+                return;
+            }
+
+            if (!isInitializeRequest(req.body)) {
+                sendJSONRPCError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+                return;
+            }
+
+            // The audit log holds other callers' IPs, key names and arguments
+            const caller = res.locals.caller as Caller | undefined;
+            const server = createServer({
+                auditLog: !res.locals.authEnabled || !!caller?.scopes.includes('admin:config'),
+                caller: callerId(req, res),
+            });
+            const transport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                onsessioninitialized: (id) => {
+                    sessions.set(id, { server, transport, caller: caller?.name });
+                },
+            });
+
+            transport.onclose = () => {
+                if (transport.sessionId) {
+                    sessions.delete(transport.sessionId);
+                }
+            };
+
+            await server.connect(transport);
+            await transport.handleRequest(req, res, req.body);
+        } catch (error) {
+            console.error('Error handling MCP request:', redactError(error));
+            if (!res.headersSent) {
+                sendJSONRPCError(res, 500, -32603, 'Internal server error');
+            }
+        }
+    });
+
+    /**
+     * GET /mcp opens the server-to-client SSE stream,
+     * DELETE /mcp terminates the session
+     */
+    const handleSessionRequest = async (req: Request, res: Response) => {
+        const sessionId = getSessionId(req);
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+
+        if (!session) {
+            sendJSONRPCError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+            return;
+        }
+        if (!isSessionOwner(session, res)) {
+            sendJSONRPCError(res, 403, -32000, 'Forbidden: Session belongs to another API key');
+            return;
+        }
+
+        try {
+            await session.transport.handleRequest(req, res);
+        } catch (error) {
+            console.error('Error handling MCP request:', redactError(error));
+            if (!res.headersSent) {
+                sendJSONRPCError(res, 500, -32603, 'Internal server error');
+            }
+        }
+    };
+
+    router.get('/', handleSessionRequest);
+    router.delete('/', handleSessionRequest);
+
+    return router;
+}
+
+/**
+ * Close every open session (used on shutdown)
+ */
+export async function closeMCPSessions(sessions: MCPSessionStore): Promise<void> {
+    const open = Array.from(sessions.values());
+    sessions.clear();
+    await Promise.allSettled(open.map(({ server }) => server.close()));
+}
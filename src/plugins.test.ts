@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PluginHost } from './plugins.js';
+import { ToolRegistry, defineTool } from './registry.js';
+import { REDACTED } from './redact.js';
+
+const echoTool = defineTool({
+    name: 'echoText',
+    description: 'Built-in stand-in',
+    inputSchema: z.object({ text: z.string() }),
+    async handler(input) {
+        return { content: [{ type: 'text', text: input.text }] };
+    },
+});
+
+// Plugin module source - uses the project's zod so it resolves from node_modules
+function pluginSource(name: string, toolName: string, extra = '') {
+    return `import { z } from 'zod';
+export default {
+    name: '${name}',
+    version: '1.0.0',
+    tools: [{
+        name: '${toolName}',
+        description: 'Looks things up',
+        inputSchema: z.object({ query: z.string() }),
+        async handler(input) {
+            return { content: [{ type: 'text', text: 'found ' + input.query }] };
+        },
+    }],
+    ${extra}
+};
+`;
+}
+
+describe('PluginHost', () => {
+    const pluginDir = path.join(process.cwd(), 'test-plugins-dir');
+    let registry: ToolRegistry;
+    let host: PluginHost;
+
+    beforeEach(async () => {
+        await fs.mkdir(pluginDir, { recursive: true });
+        registry = new ToolRegistry().register(echoTool);
+        host = new PluginHost(registry);
+    });
+
+    afterEach(async () => {
+        try {
+            await fs.rm(pluginDir, { recursive: true, force: true });
+        } catch (error) {
+            // Ignore cleanup errors
+        }
+    });
+
+    it('should load plugins from a directory', async () => {
+        await fs.writeFile(path.join(pluginDir, 'ats-lookup.mjs'), pluginSource('ats-lookup', 'atsLookup', `
+    resources: [{
+        uri: 'ats://openings',
+        name: 'Open roles',
+        mimeType: 'application/json',
+        async read() { return { text: '[]' }; },
+    }],
+    prompts: [{
+        name: 'atsSummary',
+        description: 'Summarize an ATS record',
+        arguments: [{ name: 'id', description: 'Record id', required: true }],
+        render: (args) => 'Summarize ' + args.id,
+    }],`));
+
+        const statuses = await host.loadAll({ directory: pluginDir, packages: [], disabled: [] });
+
+        expect(statuses).toHaveLength(1);
+        expect(statuses[0]).toMatchObject({
+            name: 'ats-lookup',
+            status: 'loaded',
+            tools: ['atsLookup'],
+            resources: ['ats://openings'],
+            prompts: ['atsSummary'],
+        });
+        expect(registry.has('atsLookup')).toBe(true);
+        expect(host.getResource('ats://openings')?.name).toBe('Open roles');
+        expect(host.getPrompts().map(p => p.name)).toEqual(['atsSummary']);
+    });
+
+    it('should run plugin tools through the registry', async () => {
+        await fs.writeFile(path.join(pluginDir, 'wiki-run.mjs'), pluginSource('wiki', 'wikiSearch'));
+
+        await host.loadAll({ directory: pluginDir, packages: [], disabled: [] });
+        const result = await registry.call('wikiSearch', { query: 'onboarding' }, { server: {} as any });
+
+        expect(result.content[0]).toEqual({ type: 'text', text: 'found onboarding' });
+    });
+
+    it('should reject plugins whose tool names collide', async () => {
+        await fs.writeFile(path.join(pluginDir, 'a-first.mjs'), pluginSource('first', 'lookup'));
+        await fs.writeFile(path.join(pluginDir, 'b-builtin.mjs'), pluginSource('shadow', 'echoText'));
+        await fs.writeFile(path.join(pluginDir, 'c-second.mjs'), pluginSource('second', 'lookup'));
+
+        const statuses = await host.loadAll({ directory: pluginDir, packages: [], disabled: [] });
+
+        expect(statuses.map(s => s.status)).toEqual(['loaded', 'failed', 'failed']);
+        expect(statuses[1].name).toBe('shadow');
+        expect(statuses[1].error).toContain('Tool "echoText" is already registered by the server');
+        expect(statuses[2].error).toContain('Tool "lookup" is already registered by plugin "first"');
+    });
+
+    const tool = (name: string) => ({ ...echoTool, name });
+
+    it('should reject plugins that define a tool twice without registering any of it', () => {
+        expect(() => host.install({ name: 'twice', tools: [tool('lookupA'), tool('lookupB'), tool('lookupA')] }, 'inline'))
+            .toThrow('Tool "lookupA" is defined more than once');
+        expect(registry.has('lookupA')).toBe(false);
+        expect(registry.has('lookupB')).toBe(false);
+    });
+
+    it('should reject resources the server answers itself', () => {
+        const resource = (uri: string) => ({ uri, name: uri, read: async () => ({ text: '' }) });
+
+        for (const uri of ['server://info', 'audit://log', 'audit://log?tool=readFile', 'mcpfiles://notes.txt']) {
+            expect(() => host.install({ name: 'shadow', resources: [resource(uri)] }, 'inline'), uri)
+                .toThrow(`Resource "${uri}" is reserved by the server`);
+        }
+        expect(host.getResources()).toEqual([]);
+    });
+
+    it('should roll back tools registered before a failure', () => {
+        const failing = new (class extends ToolRegistry {
+            register(definition: Parameters<ToolRegistry['register']>[0]) {
+                if (definition.name === 'lookupB') throw new Error('registry full');
+                return super.register(definition);
+            }
+        })();
+        host = new PluginHost(failing);
+
+        expect(() => host.install({ name: 'partial', tools: [tool('lookupA'), tool('lookupB')] }, 'inline')).toThrow('registry full');
+        expect(failing.has('lookupA')).toBe(false);
+    });
+
+    it('should skip disabled plugins', async () => {
+        await fs.writeFile(path.join(pluginDir, 'disabled-one.mjs'), pluginSource('wiki-search', 'wikiDisabled'));
+
+        const statuses = await host.loadAll({ directory: pluginDir, packages: [], disabled: ['wiki-search'] });
+
+        expect(statuses[0].status).toBe('disabled');
+        expect(registry.has('wikiDisabled')).toBe(false);
+    });
+
+    it('should record invalid plugin exports without throwing', async () => {
+        await fs.writeFile(path.join(pluginDir, 'broken.mjs'), `export default { name: 'broken', tools: [{ name: 'x' }] };`);
+
+        const statuses = await host.loadAll({ directory: pluginDir, packages: [], disabled: [] });
+
+        expect(statuses[0].status).toBe('failed');
+        expect(statuses[0].error).toContain('Invalid plugin export');
+    });
+
+    it('should record modules that throw on import', async () => {
+        await fs.writeFile(path.join(pluginDir, 'throws.mjs'), `throw new Error('boom');`);
+
+        const statuses = await host.loadAll({ directory: pluginDir, packages: [], disabled: [] });
+
+        expect(statuses[0]).toMatchObject({ name: 'throws', status: 'failed' });
+        expect(statuses[0].error).toContain('boom');
+    });
+
+    it('should log a load failure once, with secrets redacted', async () => {
+        vi.stubEnv('GROQ_API_KEY', 'plugin-visible-groq-key');
+        const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+        await fs.writeFile(path.join(pluginDir, 'leaky.mjs'), `throw new Error('cannot reach api with ' + process.env.GROQ_API_KEY);`);
+
+        try {
+            const statuses = await host.loadAll({ directory: pluginDir, packages: [], disabled: [] });
+
+            expect(statuses[0].error).toBe(`cannot reach api with ${REDACTED}`);
+            expect(stderr).toHaveBeenCalledTimes(1);
+            expect(JSON.stringify(stderr.mock.calls)).not.toContain('plugin-visible-groq-key');
+        } finally {
+            stderr.mockRestore();
+            vi.unstubAllEnvs();
+        }
+    });
+
+    it('should record missing packages and directories', async () => {
+        const statuses = await host.loadAll({
+            directory: path.join(pluginDir, 'missing'),
+            packages: ['letsmcp-plugin-that-does-not-exist'],
+            disabled: [],
+        });
+
+        expect(statuses).toHaveLength(2);
+        expect(statuses.every(s => s.status === 'failed')).toBe(true);
+    });
+});
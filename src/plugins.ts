@@ -0,0 +1,338 @@
+/**
+ * Plugin loader
+ * Discovers third-party plugin modules (a directory and/or npm packages) at startup.
+ * Each plugin can contribute tools, resources and prompts; a plugin that fails to
+ * load or collides with an existing name is skipped and reported in server://info.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import type { ToolDefinition, ToolRegistry } from './registry.js';
+import type { PromptDefinition } from './prompts.js';
+import { PROMPT_DEFINITIONS } from './prompts.js';
+import { toolRegistry } from './tools.js';
+import { redact } from './redact.js';
+import { logger } from './logger.js';
+import { splitList } from './env.js';
+import { FILES_URI_PREFIX } from './files.js';
+import { AUDIT_RESOURCE_URI } from './audit.js';
+
+/**
+ * Contents returned by a plugin resource - text or base64 blob
+ */
+export type PluginResourceContents = { text: string } | { blob: string };
+
+export interface PluginResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+    read(): Promise<PluginResourceContents>;
+}
+
+/**
+ * Shape of a plugin module's default (or named `plugin`) export
+ */
+export interface LetsMCPPlugin {
+    name: string;
+    version?: string;
+    description?: string;
+    tools?: ToolDefinition[];
+    resources?: PluginResource[];
+    prompts?: PromptDefinition[];
+}
+
+export interface PluginStatus {
+    name: string;
+    source: string;
+    status: 'loaded' | 'disabled' | 'failed';
+    version?: string;
+    error?: string;
+    tools: string[];
+    resources: string[];
+    prompts: string[];
+}
+
+export interface PluginConfig {
+    // Directory scanned for plugin modules (.js/.mjs files or folders with index.js)
+    directory?: string;
+    // npm package names to import
+    packages: string[];
+    // Plugin names (or sources) to skip
+    disabled: string[];
+}
+
+const isFunction = (value: unknown) => typeof value === 'function';
+
+const pluginSchema = z.object({
+    name: z.string().min(1),
+    version: z.string().optional(),
+    description: z.string().optional(),
+    tools: z.array(z.object({
+        name: z.string().min(1),
+        description: z.string(),
+        // Duck-typed so plugins bundling their own copy of zod still pass
+        inputSchema: z.custom(value => isFunction((value as { safeParse?: unknown } | null)?.safeParse), 'inputSchema must be a zod schema'),
+        handler: z.custom(isFunction, 'handler must be a function'),
+    }).passthrough()).optional(),
+    resources: z.array(z.object({
+        uri: z.string().min(1),
+        name: z.string().min(1),
+        read: z.custom(isFunction, 'read must be a function'),
+    }).passthrough()).optional(),
+    prompts: z.array(z.object({
+        name: z.string().min(1),
+        description: z.string(),
+        arguments: z.array(z.object({ name: z.string() }).passthrough()),
+        render: z.custom(isFunction, 'render must be a function'),
+    }).passthrough()).optional(),
+});
+
+// Resources the server answers itself; a plugin resource here would never be read
+const RESERVED_URIS = ['server://info', AUDIT_RESOURCE_URI];
+const RESERVED_URI_PREFIXES = [FILES_URI_PREFIX, `${AUDIT_RESOURCE_URI}?`];
+
+function isReservedUri(uri: string): boolean {
+    return RESERVED_URIS.includes(uri) || RESERVED_URI_PREFIXES.some(prefix => uri.startsWith(prefix));
+}
+
+/**
+ * Names that appear more than once
+ */
+function duplicates(names: string[]): string[] {
+    return [...new Set(names.filter((name, i) => names.indexOf(name) !== i))];
+}
+
+/**
+ * Read plugin configuration from the environment
+ */
+export function getPluginConfig(): PluginConfig {
+    return {
+        directory: process.env.MCP_PLUGINS_DIR || undefined,
+        packages: splitList(process.env.MCP_PLUGIN_PACKAGES),
+        disabled: splitList(process.env.MCP_PLUGINS_DISABLED),
+    };
+}
+
+export class PluginHost {
+    private statuses: PluginStatus[] = [];
+    private resources: Map<string, PluginResource> = new Map();
+    private prompts: PromptDefinition[] = [];
+    // Which plugin contributed each name, for collision messages
+    private owners: Map<string, string> = new Map();
+
+    constructor(private registry: ToolRegistry = toolRegistry) {}
+
+    /**
+     * Load every plugin named by the config. Never throws - failures are recorded.
+     */
+    async loadAll(config: PluginConfig = getPluginConfig()): Promise<PluginStatus[]> {
+        const sources: Array<{ source: string; specifier: string }> = [];
+
+        if (config.directory) {
+            const directory = path.resolve(process.cwd(), config.directory);
+            try {
+                sources.push(...await this.discover(directory));
+            } catch (error) {
+                this.record({
+                    name: path.basename(directory),
+                    source: directory,
+                    status: 'failed',
+                    error: `Cannot read plugin directory: ${error instanceof Error ? error.message : String(error)}`,
+                });
+            }
+        }
+
+        for (const pkg of config.packages) {
+            sources.push({ source: pkg, specifier: pkg });
+        }
+
+        for (const { source, specifier } of sources) {
+            await this.loadModule(source, specifier, config.disabled);
+        }
+
+        return this.getStatuses();
+    }
+
+    /**
+     * Find plugin modules in a directory
+     */
+    private async discover(directory: string): Promise<Array<{ source: string; specifier: string }>> {
+        const entries = await fs.readdir(directory, { withFileTypes: true });
+        const found: Array<{ source: string; specifier: string }> = [];
+
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+            const fullPath = path.join(directory, entry.name);
+
+            if (entry.isFile() && ['.js', '.mjs'].includes(path.extname(entry.name))) {
+                found.push({ source: fullPath, specifier: pathToFileURL(fullPath).href });
+            } else if (entry.isDirectory()) {
+                const indexPath = path.join(fullPath, 'index.js');
+                const hasIndex = await fs.access(indexPath).then(() => true).catch(() => false);
+                if (hasIndex) {
+                    found.push({ source: fullPath, specifier: pathToFileURL(indexPath).href });
+                }
+            }
+        }
+
+        return found;
+    }
+
+    /**
+     * Import one plugin module and install it
+     */
+    async loadModule(source: string, specifier: string, disabled: string[] = []): Promise<PluginStatus> {
+        const fallbackName = path.basename(source).replace(/\.(m?js)$/, '');
+
+        if (disabled.includes(fallbackName) || disabled.includes(source)) {
+            return this.record({ name: fallbackName, source, status: 'disabled' });
+        }
+
+        let name = fallbackName;
+        try {
+            const mod = await import(specifier);
+            const plugin = mod.default ?? mod.plugin;
+            if (typeof plugin?.name === 'string' && plugin.name.length > 0) {
+                name = plugin.name;
+            }
+
+            if (disabled.includes(name)) {
+                return this.record({ name, source, status: 'disabled', version: plugin.version });
+            }
+
+            return this.install(plugin, source);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return this.record({ name, source, status: 'failed', error: message });
+        }
+    }
+
+    /**
+     * Validate a plugin and register its tools, resources and prompts.
+     * All-or-nothing: the whole plugin is checked before anything is registered, and a
+     * registration that still fails is rolled back.
+     */
+    install(candidate: unknown, source: string): PluginStatus {
+        const parsed = pluginSchema.safeParse(candidate);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map(i => `${i.path.join('.') || 'plugin'}: ${i.message}`).join('; ');
+            throw new Error(`Invalid plugin export: ${issues}`);
+        }
+
+        const plugin = candidate as LetsMCPPlugin;
+        const tools = plugin.tools || [];
+        const resources = plugin.resources || [];
+        const prompts = plugin.prompts || [];
+
+        const collisions: string[] = [
+            ...duplicates(tools.map(t => t.name)).map(name => `Tool "${name}" is defined more than once`),
+            ...duplicates(resources.map(r => r.uri)).map(uri => `Resource "${uri}" is defined more than once`),
+            ...duplicates(prompts.map(p => p.name)).map(name => `Prompt "${name}" is defined more than once`),
+        ];
+        for (const tool of tools) {
+            if (this.registry.has(tool.name)) {
+                collisions.push(this.describeCollision('Tool', tool.name, `tool:${tool.name}`));
+            }
+        }
+        for (const resource of resources) {
+            if (isReservedUri(resource.uri)) {
+                collisions.push(`Resource "${resource.uri}" is reserved by the server`);
+            } else if (this.resources.has(resource.uri)) {
+                collisions.push(this.describeCollision('Resource', resource.uri, `resource:${resource.uri}`));
+            }
+        }
+        for (const prompt of prompts) {
+            if (PROMPT_DEFINITIONS.some(p => p.name === prompt.name) || this.prompts.some(p => p.name === prompt.name)) {
+                collisions.push(this.describeCollision('Prompt', prompt.name, `prompt:${prompt.name}`));
+            }
+        }
+
+        if (collisions.length > 0) {
+            throw new Error(`Name collision: ${collisions.join('; ')}`);
+        }
+
+        const registered: string[] = [];
+        try {
+            for (const tool of tools) {
+                this.registry.register(tool);
+                registered.push(tool.name);
+            }
+        } catch (error) {
+            for (const name of registered) {
+                this.registry.unregister(name);
+            }
+            throw error;
+        }
+
+        for (const tool of tools) {
+            this.owners.set(`tool:${tool.name}`, plugin.name);
+        }
+        for (const resource of resources) {
+            this.resources.set(resource.uri, resource);
+            this.owners.set(`resource:${resource.uri}`, plugin.name);
+        }
+        for (const prompt of prompts) {
+            this.prompts.push(prompt);
+            this.owners.set(`prompt:${prompt.name}`, plugin.name);
+        }
+
+        return this.record({
+            name: plugin.name,
+            source,
+            status: 'loaded',
+            version: plugin.version,
+            tools: tools.map(t => t.name),
+            resources: resources.map(r => r.uri),
+            prompts: prompts.map(p => p.name),
+        });
+    }
+
+    private describeCollision(kind: string, name: string, key: string): string {
+        const owner = this.owners.get(key);
+        return `${kind} "${name}" is already registered${owner ? ` by plugin "${owner}"` : ' by the server'}`;
+    }
+
+    /**
+     * Keep and log a plugin's outcome. Errors are redacted here, since they end up in server://info.
+     */
+    private record(status: Partial<PluginStatus> & Pick<PluginStatus, 'name' | 'source' | 'status'>): PluginStatus {
+        const full: PluginStatus = { tools: [], resources: [], prompts: [], ...status };
+        if (full.error) full.error = redact(full.error);
+        this.statuses.push(full);
+
+        if (full.status === 'failed') {
+            logger.error('plugins', `Plugin ${full.name} failed to load`, { source: full.source, error: full.error });
+        } else {
+            logger.info('plugins', `Plugin ${full.name}: ${full.status}`, { source: full.source });
+        }
+        return full;
+    }
+
+    getStatuses(): PluginStatus[] {
+        return [...this.statuses];
+    }
+
+    getResources(): PluginResource[] {
+        return Array.from(this.resources.values());
+    }
+
+    getResource(uri: string): PluginResource | undefined {
+        return this.resources.get(uri);
+    }
+
+    getPrompts(): PromptDefinition[] {
+        return [...this.prompts];
+    }
+}
+
+// Singleton instance - populated once at startup via loadAll()
+let pluginHostInstance: PluginHost | null = null;
+
+export function getPluginHost(): PluginHost {
+    if (!pluginHostInstance) {
+        pluginHostInstance = new PluginHost();
+    }
+    return pluginHostInstance;
+}
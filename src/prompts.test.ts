@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { registerPrompts } from './prompts.js';
+
+describe('MCP Prompts', () => {
+    let server: Server;
+
+    beforeEach(() => {
+        server = new Server(
+            { name: 'test-server', version: '1.0.0' },
+            { capabilities: { prompts: {}, completions: {} } }
+        );
+        registerPrompts(server);
+    });
+
+    describe('prompts/list', () => {
+        it('should list all prompt templates', async () => {
+            const result = await callHandler('prompts/list', {});
+            const names = result.prompts.map((p: any) => p.name);
+
+            expect(names).toEqual(['extractJobDetails', 'analyzeResume', 'draftEmail']);
+        });
+
+        it('should describe arguments with required flags', async () => {
+            const result = await callHandler('prompts/list', {});
+            const draftEmail = result.prompts.find((p: any) => p.name === 'draftEmail');
+
+            const recipientName = draftEmail.arguments.find((a: any) => a.name === 'recipientName');
+            const tone = draftEmail.arguments.find((a: any) => a.name === 'tone');
+            expect(recipientName.required).toBe(true);
+            expect(tone.required).toBe(false);
+            expect(tone.description).toContain('Enthusiastic');
+        });
+    });
+
+    describe('prompts/get', () => {
+        it('should render extractJobDetails', async () => {
+            const result = await callHandler('prompts/get', {
+                name: 'extractJobDetails',
+                arguments: { text: 'Senior Engineer at Acme' }
+            });
+
+            expect(result.messages).toHaveLength(1);
+            expect(result.messages[0].role).toBe('user');
+            expect(result.messages[0].content.text).toContain('Senior Engineer at Acme');
+        });
+
+        it('should render draftEmail with defaults', async () => {
+            const result = await callHandler('prompts/get', {
+                name: 'draftEmail',
+                arguments: { recipientName: 'Jane', companyName: 'Acme', jobTitle: 'Engineer' }
+            });
+
+            const text = result.messages[0].content.text;
+            expect(text).toContain('Jane, Team Member at Acme');
+            expect(text).toContain('Tone: Professional');
+            expect(text).toContain('Intent: Connect');
+        });
+
+        it('should reject missing required arguments', async () => {
+            await expect(callHandler('prompts/get', {
+                name: 'analyzeResume',
+                arguments: { jobDescription: 'React developer' }
+            })).rejects.toThrow('resumeText');
+        });
+
+        it('should reject invalid enum values', async () => {
+            await expect(callHandler('prompts/get', {
+                name: 'draftEmail',
+                arguments: { recipientName: 'Jane', companyName: 'Acme', jobTitle: 'Engineer', tone: 'Angry' }
+            })).rejects.toThrow('Expected one of');
+        });
+
+        it('should reject unknown prompts', async () => {
+            await expect(callHandler('prompts/get', { name: 'nope' })).rejects.toThrow('Unknown prompt');
+        });
+    });
+
+    describe('completion/complete', () => {
+        it('should complete enum arguments by prefix', async () => {
+            const result = await callHandler('completion/complete', {
+                ref: { type: 'ref/prompt', name: 'draftEmail' },
+                argument: { name: 'intent', value: 'f' }
+            });
+
+            expect(result.completion.values).toEqual(['FollowUp']);
+        });
+
+        it('should return all values for an empty prefix', async () => {
+            const result = await callHandler('completion/complete', {
+                ref: { type: 'ref/prompt', name: 'draftEmail' },
+                argument: { name: 'tone', value: '' }
+            });
+
+            expect(result.completion.values).toHaveLength(4);
+        });
+
+        it('should return no values for free-text arguments', async () => {
+            const result = await callHandler('completion/complete', {
+                ref: { type: 'ref/prompt', name: 'draftEmail' },
+                argument: { name: 'recipientName', value: 'J' }
+            });
+
+            expect(result.completion.values).toEqual([]);
+        });
+    });
+
+    // Helper function to invoke request handlers directly
+    async function callHandler(method: string, params: any) {
+        const handler = (server as any)._requestHandlers.get(method);
+
+        if (!handler) {
+            throw new Error(`${method} handler not registered`);
+        }
+
+        return await handler({ method, params });
+    }
+});
@@ -0,0 +1,169 @@
+import {
+    CompleteRequestSchema,
+    ErrorCode,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { PROMPTS } from './ai/prompts.js';
+import { EMAIL_INTENTS, EMAIL_TONES } from './ai/types.js';
+
+/**
+ * MCP prompt definitions backed by the shared AI PROMPTS.
+ * Clients fill in the arguments and run the resulting message on their own model.
+ */
+
+export interface PromptArgumentDefinition {
+    name: string;
+    description: string;
+    required?: boolean;
+    // Allowed values - validated on prompts/get and offered via completion/complete
+    enum?: readonly string[];
+}
+
+export interface PromptDefinition {
+    name: string;
+    title?: string;
+    description: string;
+    arguments: PromptArgumentDefinition[];
+    render(args: Record<string, string>): string;
+}
+
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+    {
+        name: 'extractJobDetails',
+        title: 'Extract Job Details',
+        description: 'Extract structured job details (title, company, location, salary, requirements) from a job posting as JSON.',
+        arguments: [
+            { name: 'text', description: 'Job posting text', required: true },
+        ],
+        render: (args) => PROMPTS.extractJobDetails(args.text),
+    },
+    {
+        name: 'analyzeResume',
+        title: 'Analyze Resume',
+        description: 'Score how well a resume matches a job description and list strengths, gaps and keywords as JSON.',
+        arguments: [
+            { name: 'jobDescription', description: 'The job description to match against', required: true },
+            { name: 'resumeText', description: 'The resume text', required: true },
+        ],
+        render: (args) => PROMPTS.analyzeResume(args.jobDescription, args.resumeText),
+    },
+    {
+        name: 'draftEmail',
+        title: 'Draft Outreach Email',
+        description: 'Draft a cold outreach email to a recruiter, hiring manager or peer as JSON with subject and body.',
+        arguments: [
+            { name: 'recipientName', description: 'Name of the recipient', required: true },
+            { name: 'recipientRole', description: 'Role of the recipient (default: "Team Member")' },
+            { name: 'companyName', description: 'Company the recipient works at', required: true },
+            { name: 'jobTitle', description: 'Title of the job you are targeting', required: true },
+            { name: 'tone', description: `Tone of the email: ${EMAIL_TONES.join(', ')} (default: "Professional")`, enum: EMAIL_TONES },
+            { name: 'intent', description: `Purpose of the email: ${EMAIL_INTENTS.join(', ')} (default: "Connect")`, enum: EMAIL_INTENTS },
+            { name: 'jobDescription', description: 'Optional job description for context' },
+            { name: 'userBackground', description: 'Optional summary of your background' },
+        ],
+        render: (args) => PROMPTS.draftEmail({
+            recipientName: args.recipientName,
+            recipientRole: args.recipientRole || 'Team Member',
+            companyName: args.companyName,
+            jobTitle: args.jobTitle,
+            tone: args.tone || 'Professional',
+            intent: args.intent || 'Connect',
+            jobDescription: args.jobDescription,
+            userBackground: args.userBackground,
+        }),
+    },
+];
+
+/**
+ * Check required arguments and enum values, returning the first problem found
+ */
+function validatePromptArguments(prompt: PromptDefinition, args: Record<string, string>): string | undefined {
+    for (const arg of prompt.arguments) {
+        const value = args[arg.name];
+
+        if (arg.required && (!value || value.trim().length === 0)) {
+            return `Missing required argument "${arg.name}" for prompt "${prompt.name}"`;
+        }
+        if (value && arg.enum && !arg.enum.includes(value)) {
+            return `Invalid value "${value}" for argument "${arg.name}". Expected one of: ${arg.enum.join(', ')}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Register all prompts with the server
+ */
+export function registerPrompts(server: Server, prompts: PromptDefinition[] = PROMPT_DEFINITIONS) {
+    const findPrompt = (name: string) => prompts.find(p => p.name === name);
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+        return {
+            prompts: prompts.map(prompt => ({
+                name: prompt.name,
+                ...(prompt.title && { title: prompt.title }),
+                description: prompt.description,
+                arguments: prompt.arguments.map(({ name, description, required }) => ({
+                    name,
+                    description,
+                    required: required ?? false,
+                })),
+            })),
+        };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const prompt = findPrompt(request.params.name);
+        if (!prompt) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+        }
+
+        const args = request.params.arguments || {};
+        const problem = validatePromptArguments(prompt, args);
+        if (problem) {
+            throw new McpError(ErrorCode.InvalidParams, problem);
+        }
+
+        return {
+            description: prompt.description,
+            messages: [
+                {
+                    role: 'user' as const,
+                    content: {
+                        type: 'text' as const,
+                        text: prompt.render(args),
+                    },
+                },
+            ],
+        };
+    });
+
+    // Argument completion - offers enum values matching what the user has typed so far
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+        const { ref, argument } = request.params;
+        const empty = { completion: { values: [], hasMore: false } };
+
+        if (ref.type !== 'ref/prompt') {
+            return empty;
+        }
+
+        const definition = findPrompt(ref.name)?.arguments.find(a => a.name === argument.name);
+        if (!definition?.enum) {
+            return empty;
+        }
+
+        const typed = argument.value.toLowerCase();
+        const values = definition.enum.filter(v => v.toLowerCase().startsWith(typed));
+
+        return {
+            completion: {
+                values,
+                total: values.length,
+                hasMore: false,
+            },
+        };
+    });
+}
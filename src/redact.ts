@@ -0,0 +1,108 @@
+/**
+ * Secret redaction
+ * Scrubs configured API keys and well-known token formats from anything that leaves the process:
+ * log lines, error messages, REST error bodies and tool results.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// Environment variables whose values are secrets (GROQ_API_KEY, GITHUB_TOKEN, DB_PASSWORD, ...)
+const SECRET_ENV_NAME = /(^|_)(API_?KEY|KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIALS?)(_|$)/i;
+
+// Shorter values ("true", "8080") are too likely to appear in normal text
+const MIN_SECRET_LENGTH = 8;
+
+// Token formats worth catching even when they aren't configured here
+const TOKEN_PATTERNS: Array<[RegExp, string]> = [
+    [/\bsk-ant-[\w-]{20,}/g, REDACTED],                       // Anthropic
+    [/\bsk-(?:proj-)?[\w-]{20,}/g, REDACTED],                 // OpenAI-style
+    [/\bgsk_[A-Za-z0-9]{20,}/g, REDACTED],                    // Groq
+    [/\bAIza[\w-]{35}/g, REDACTED],                           // Google
+    [/\blmcp_[\w-]{20,}/g, REDACTED],                         // letsmcp REST API keys
+    [/\b(?:ghp|gho|ghs|ghu|ghr)_[A-Za-z0-9]{36}\b/g, REDACTED], // GitHub
+    [/\bgithub_pat_\w{22,}/g, REDACTED],
+    [/\bxox[abprs]-[\w-]{10,}/g, REDACTED],                   // Slack
+    [/\bAKIA[0-9A-Z]{16}\b/g, REDACTED],                      // AWS access key ID
+    [/\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,}/g, REDACTED],   // JWT
+    [/\b(Bearer\s+)[\w.~+/-]{8,}=*/gi, `$1${REDACTED}`],
+    [/([?&](?:key|api_?key|access_token|token)=)[^&\s"']+/gi, `$1${REDACTED}`],
+];
+
+const registered = new Set<string>();
+
+/**
+ * Treat a value as a secret from now on (e.g. an API key set through /api/config)
+ */
+export function registerSecret(value: string | undefined): void {
+    if (value && value.length >= MIN_SECRET_LENGTH) {
+        registered.add(value);
+    }
+}
+
+function knownSecrets(): string[] {
+    const secrets = new Set(registered);
+    for (const [name, value] of Object.entries(process.env)) {
+        if (value && value.length >= MIN_SECRET_LENGTH && SECRET_ENV_NAME.test(name)) {
+            secrets.add(value);
+        }
+    }
+    // Longest first, so a key containing another key is replaced whole
+    return [...secrets].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace secrets in a string
+ */
+export function redact(text: string): string {
+    let result = text;
+    for (const secret of knownSecrets()) {
+        if (result.includes(secret)) {
+            result = result.split(secret).join(REDACTED);
+        }
+    }
+    for (const [pattern, replacement] of TOKEN_PATTERNS) {
+        result = result.replace(pattern, replacement);
+    }
+    return result;
+}
+
+/**
+ * Redact every string in a JSON-like value, returning a copy
+ */
+export function redactValue<T>(value: T): T {
+    if (typeof value === 'string') {
+        return redact(value) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redactValue(item)) as T;
+    }
+    if (value instanceof Error) {
+        return redactError(value) as T;
+    }
+    // Plain objects only; class instances (Dates, Buffers, ...) are passed through
+    if (value && typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)])) as T;
+    }
+    return value;
+}
+
+/**
+ * Copy of an error with its message (and stack) redacted
+ */
+export function redactError(error: unknown): Error {
+    if (!(error instanceof Error)) {
+        return new Error(redact(String(error)));
+    }
+
+    const copy = new Error(redact(error.message));
+    copy.name = error.name;
+    if (error.stack) copy.stack = redact(error.stack);
+    return copy;
+}
+
+/**
+ * Show enough of a secret to recognise it (first and last four characters)
+ */
+export function maskSecret(value: string): string {
+    return value.length > 12 ? `${value.slice(0, 4)}…${value.slice(-4)}` : '****';
+}
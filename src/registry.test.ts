@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+import { ToolRegistry, defineTool, structuredResult } from './registry.js';
+
+describe('ToolRegistry', () => {
+    let registry: ToolRegistry;
+    let server: Server;
+
+    const greetTool = defineTool({
+        name: 'greet',
+        description: 'Greets someone',
+        inputSchema: z.object({
+            name: z.string().min(1).describe('Who to greet'),
+            excited: z.boolean().default(false),
+        }),
+        annotations: { readOnlyHint: true },
+        async handler(input) {
+            return {
+                content: [{ type: 'text', text: `Hello, ${input.name}${input.excited ? '!' : '.'}` }],
+            };
+        },
+    });
+
+    beforeEach(() => {
+        registry = new ToolRegistry();
+        server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+        registry.register(greetTool);
+    });
+
+    describe('register', () => {
+        it('should list registered tool names', () => {
+            expect(registry.names()).toEqual(['greet']);
+            expect(registry.has('greet')).toBe(true);
+        });
+
+        it('should reject duplicate names', () => {
+            expect(() => registry.register(greetTool)).toThrow('already registered');
+        });
+
+        it('should unregister tools', () => {
+            expect(registry.unregister('greet')).toBe(true);
+            expect(registry.has('greet')).toBe(false);
+        });
+    });
+
+    describe('describe', () => {
+        it('should derive JSON schema from the zod input schema', () => {
+            const [tool] = registry.describe();
+
+            expect(tool.name).toBe('greet');
+            expect(tool.inputSchema.type).toBe('object');
+            expect(tool.inputSchema.required).toEqual(['name']);
+            expect((tool.inputSchema.properties as any).name.description).toBe('Who to greet');
+            expect((tool.inputSchema.properties as any).excited.default).toBe(false);
+            expect(tool.inputSchema).not.toHaveProperty('$schema');
+            expect(tool.annotations).toEqual({ readOnlyHint: true });
+        });
+    });
+
+    describe('call', () => {
+        it('should run the handler with parsed input and defaults', async () => {
+            const result = await registry.call('greet', { name: 'Ada' }, { server });
+
+            expect(result.content[0]).toEqual({ type: 'text', text: 'Hello, Ada.' });
+        });
+
+        it('should return validation errors as tool errors', async () => {
+            const result = await registry.call('greet', { name: '' }, { server });
+
+            expect(result.isError).toBe(true);
+            expect((result.content[0] as any).text).toContain('Invalid input for greet');
+            expect((result.content[0] as any).text).toContain('name:');
+        });
+
+        it('should treat missing arguments as an empty object', async () => {
+            const result = await registry.call('greet', undefined, { server });
+
+            expect(result.isError).toBe(true);
+        });
+
+        it('should validate structured content against the outputSchema', async () => {
+            registry.register(defineTool({
+                name: 'broken',
+                description: 'Returns the wrong shape',
+                inputSchema: z.object({}),
+                outputSchema: z.object({ count: z.number() }),
+                async handler() {
+                    return structuredResult({ count: 'three' });
+                },
+            }));
+
+            const result = await registry.call('broken', {}, { server });
+
+            expect(result.isError).toBe(true);
+            expect((result.content[0] as any).text).toContain('invalid structured content');
+        });
+
+        it('should add a JSON text fallback for structured content', async () => {
+            registry.register(defineTool({
+                name: 'count',
+                description: 'Counts',
+                inputSchema: z.object({}),
+                outputSchema: z.object({ count: z.number() }),
+                async handler() {
+                    return { content: [], structuredContent: { count: 3 } };
+                },
+            }));
+
+            const result = await registry.call('count', {}, { server });
+
+            expect(result.structuredContent).toEqual({ count: 3 });
+            expect(JSON.parse((result.content[0] as any).text)).toEqual({ count: 3 });
+        });
+
+        it('should throw for unknown tools', async () => {
+            await expect(registry.call('nope', {}, { server })).rejects.toThrow('Unknown tool: nope');
+        });
+    });
+});
@@ -0,0 +1,244 @@
+/**
+ * Declarative tool registry
+ * Each tool is defined once (name, description, zod input/output schemas, annotations, handler);
+ * the MCP tool list, input/output validation and server://info are all derived from it.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { redact, redactValue } from './redact.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+    CallToolResult,
+    ServerNotification,
+    ServerRequest,
+    Tool,
+    ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * What the caller of ToolRegistry.call() provides
+ */
+export interface ToolCallOptions {
+    server: Server;
+    // Absent when a handler is invoked outside a live MCP request (e.g. in tests)
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>;
+    // Who started the HTTP session, as REST rate limits name callers (key:<name> or ip:<addr>).
+    // Absent over stdio and the CLI.
+    caller?: string;
+}
+
+/**
+ * Per-call context handed to tool handlers
+ */
+export interface ToolContext extends ToolCallOptions {
+    // Aborted when the client cancels the request
+    signal: AbortSignal;
+    // Sends notifications/progress when the client asked for it (no-op otherwise)
+    reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+}
+
+export interface ToolDefinition<T extends z.ZodTypeAny = z.ZodTypeAny> {
+    name: string;
+    title?: string;
+    description: string;
+    inputSchema: T;
+    outputSchema?: z.ZodTypeAny;
+    annotations?: ToolAnnotations;
+    handler(input: z.infer<T>, context: ToolContext): Promise<CallToolResult>;
+}
+
+/**
+ * Identity helper that infers the handler's input type from the schema
+ */
+export function defineTool<T extends z.ZodTypeAny>(definition: ToolDefinition<T>): ToolDefinition<T> {
+    return definition;
+}
+
+/**
+ * Convert a zod schema to the JSON Schema object MCP clients expect
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Tool['inputSchema'] & Tool['outputSchema'] {
+    const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+    return { ...jsonSchema, type: 'object' };
+}
+
+/**
+ * Build the handler context for one tools/call request
+ */
+export function createToolContext({ server, extra, caller }: ToolCallOptions): ToolContext {
+    const progressToken = extra?._meta?.progressToken;
+
+    return {
+        server,
+        extra,
+        caller,
+        signal: extra?.signal ?? new AbortController().signal,
+        async reportProgress(progress, total, message) {
+            if (!extra || progressToken === undefined) return;
+
+            try {
+                await extra.sendNotification({
+                    method: 'notifications/progress',
+                    params: {
+                        progressToken,
+                        progress,
+                        ...(total !== undefined && { total }),
+                        ...(message && { message }),
+                    },
+                });
+            } catch {
+                // Progress is best-effort - never fail the tool because of it
+            }
+        },
+    };
+}
+
+/**
+ * Build a result carrying structured content plus a JSON text block for older clients
+ */
+export function structuredResult<T extends Record<string, unknown>>(data: T, text?: string): CallToolResult & { structuredContent: T } {
+    return {
+        content: [{
+            type: 'text',
+            text: text ?? JSON.stringify(data, null, 2),
+        }],
+        structuredContent: data,
+    };
+}
+
+/**
+ * Format zod issues as a single readable line
+ */
+function formatIssues(error: z.ZodError): string {
+    return error.issues
+        .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'input'}: ${issue.message}`)
+        .join('; ');
+}
+
+export class ToolRegistry {
+    private tools: Map<string, ToolDefinition> = new Map();
+
+    /**
+     * Add a tool. Names must be unique across the registry.
+     */
+    register(tool: ToolDefinition): this {
+        if (this.tools.has(tool.name)) {
+            throw new Error(`Tool "${tool.name}" is already registered`);
+        }
+        this.tools.set(tool.name, tool);
+        return this;
+    }
+
+    /**
+     * Remove a tool by name
+     */
+    unregister(name: string): boolean {
+        return this.tools.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    get(name: string): ToolDefinition | undefined {
+        return this.tools.get(name);
+    }
+
+    /**
+     * Registered tools in registration order
+     */
+    list(): ToolDefinition[] {
+        return Array.from(this.tools.values());
+    }
+
+    names(): string[] {
+        return Array.from(this.tools.keys());
+    }
+
+    /**
+     * Tool descriptors for tools/list
+     */
+    describe(): Tool[] {
+        return this.list().map(tool => ({
+            name: tool.name,
+            ...(tool.title && { title: tool.title }),
+            description: tool.description,
+            inputSchema: toJsonSchema(tool.inputSchema),
+            ...(tool.outputSchema && { outputSchema: toJsonSchema(tool.outputSchema) }),
+            ...(tool.annotations && { annotations: tool.annotations }),
+        }));
+    }
+
+    /**
+     * Validate arguments against the tool's schema and run its handler.
+     * Invalid input and structured content that doesn't match the tool's
+     * outputSchema are reported as isError results; unknown tools throw.
+     * Secrets are redacted from the result.
+     */
+    async call(name: string, args: unknown, options: ToolCallOptions): Promise<CallToolResult> {
+        return redactToolResult(await this.run(name, args, options));
+    }
+
+    private async run(name: string, args: unknown, options: ToolCallOptions): Promise<CallToolResult> {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            throw new Error(`Unknown tool: ${name}`);
+        }
+
+        const parsed = tool.inputSchema.safeParse(args ?? {});
+        if (!parsed.success) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `Error: Invalid input for ${name}. ${formatIssues(parsed.error)}`,
+                }],
+                isError: true,
+            };
+        }
+
+        const result = await tool.handler(parsed.data, createToolContext(options));
+        if (!tool.outputSchema || result.isError) {
+            return result;
+        }
+
+        // Tools with an outputSchema must return structured content that matches it
+        const output = tool.outputSchema.safeParse(result.structuredContent);
+        if (!output.success) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `Error: ${name} returned invalid structured content. ${formatIssues(output.error)}`,
+                }],
+                isError: true,
+            };
+        }
+
+        // Text fallback for clients that predate structured content
+        if (!result.content || result.content.length === 0) {
+            return { ...result, content: [{ type: 'text', text: JSON.stringify(result.structuredContent, null, 2) }] };
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Redact text and structured content; binary blocks (images, audio, blobs) are left intact
+ */
+function redactToolResult(result: CallToolResult): CallToolResult {
+    return {
+        ...result,
+        content: result.content.map(block => {
+            if (block.type === 'text') {
+                return { ...block, text: redact(block.text) };
+            }
+            if (block.type === 'resource' && 'text' in block.resource) {
+                return { ...block, resource: { ...block.resource, text: redact(block.resource.text) } };
+            }
+            return block;
+        }),
+        ...(result.structuredContent && { structuredContent: redactValue(result.structuredContent) }),
+    };
+}
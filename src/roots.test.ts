@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { isWithinRoot, realPath } from './roots.js';
+import { getFilesDir } from './files.js';
+
+describe('Filesystem roots', () => {
+    const testDir = path.join(process.cwd(), 'test-roots-dir');
+    const workspace = path.join(testDir, 'workspace');
+    const sibling = path.join(testDir, 'workspace-old');
+    const clientRoot = path.join(testDir, 'client');
+    const otherRoot = path.join(testDir, 'other');
+    const filesLink = path.join(getFilesDir(), 'test-roots-link');
+
+    let client: Client;
+
+    beforeAll(async () => {
+        for (const dir of [workspace, sibling, clientRoot, otherRoot]) {
+            await fs.mkdir(dir, { recursive: true });
+        }
+        await fs.writeFile(path.join(workspace, 'notes.txt'), 'workspace notes');
+        await fs.writeFile(path.join(sibling, 'secret.txt'), 'secret');
+        await fs.writeFile(path.join(clientRoot, 'notes.txt'), 'client notes');
+        await fs.writeFile(path.join(otherRoot, 'notes.txt'), 'other notes');
+        await fs.symlink(path.join(sibling, 'secret.txt'), path.join(workspace, 'link.txt'));
+        await fs.symlink(sibling, path.join(workspace, 'link-dir'));
+        await fs.symlink(path.join(sibling, 'new.txt'), path.join(workspace, 'dangling.txt'));
+        await fs.mkdir(getFilesDir(), { recursive: true });
+        await fs.symlink(sibling, filesLink);
+    });
+
+    afterAll(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+        await fs.rm(filesLink, { force: true });
+    });
+
+    beforeEach(() => {
+        vi.stubEnv('MCP_WORKSPACE_ROOT', workspace);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        await client?.close();
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    async function connect(roots?: string[]) {
+        client = new Client(
+            { name: 'test-client', version: '1.0.0' },
+            { capabilities: roots ? { roots: { listChanged: true } } : {} }
+        );
+        if (roots) {
+            client.setRequestHandler(ListRootsRequestSchema, async () => ({
+                roots: roots.map(root => ({ uri: pathToFileURL(root).href })),
+            }));
+        }
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer().connect(serverTransport);
+        await client.connect(clientTransport);
+    }
+
+    async function readFile(filePath: string): Promise<any> {
+        return client.callTool({ name: 'readFile', arguments: { path: filePath } });
+    }
+
+    describe('without client roots', () => {
+        it('should resolve relative paths against the workspace root', async () => {
+            await connect();
+            const result = await readFile('notes.txt');
+
+            expect(result.structuredContent.content).toBe('workspace notes');
+        });
+
+        it('should reject paths that only share a prefix with the workspace root', async () => {
+            await connect();
+            const result = await readFile(path.join(sibling, 'secret.txt'));
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Access denied');
+        });
+
+        it('should reject symlinks that point outside the roots', async () => {
+            await connect();
+            const result = await readFile('link.txt');
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Access denied');
+        });
+
+        it('should reject writes through a symlinked directory', async () => {
+            await connect();
+            const result: any = await client.callTool({
+                name: 'saveToFile',
+                arguments: { category: path.relative(getFilesDir(), path.join(workspace, 'link-dir')), filename: 'x.txt', content: 'x' },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Access denied');
+            await expect(fs.access(path.join(sibling, 'x.txt'))).rejects.toThrow();
+        });
+
+        it('should check writes through symlinks inside mcp-files against the roots', async () => {
+            await connect();
+            const result: any = await client.callTool({
+                name: 'saveToFile',
+                arguments: { category: 'test-roots-link', filename: 'y.txt', content: 'y' },
+            });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Access denied');
+            await expect(fs.access(path.join(sibling, 'y.txt'))).rejects.toThrow();
+        });
+
+        it('should restrict summarizeDirectory and searchFiles too', async () => {
+            await connect();
+            const summary: any = await client.callTool({ name: 'summarizeDirectory', arguments: { path: '..' } });
+            const search: any = await client.callTool({ name: 'searchFiles', arguments: { query: 'x', path: '/' } });
+
+            expect(summary.isError).toBe(true);
+            expect(summary.content[0].text).toContain('Access denied');
+            expect(search.isError).toBe(true);
+            expect(search.content[0].text).toContain('Access denied');
+        });
+    });
+
+    describe('with client roots', () => {
+        it('should use the roots from roots/list', async () => {
+            await connect([clientRoot]);
+
+            const inside = await readFile('notes.txt');
+            const workspaceFile = await readFile(path.join(workspace, 'notes.txt'));
+
+            expect(inside.structuredContent.content).toBe('client notes');
+            expect(workspaceFile.isError).toBe(true);
+        });
+
+        it('should allow any of several roots', async () => {
+            await connect([clientRoot, otherRoot]);
+            const result = await readFile(path.join(otherRoot, 'notes.txt'));
+
+            expect(result.structuredContent.content).toBe('other notes');
+        });
+
+        it('should deny everything when the client shares no roots', async () => {
+            await connect([]);
+            const result = await readFile('notes.txt');
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('has not shared any filesystem roots');
+        });
+
+        it('should deny access when roots/list fails', async () => {
+            await connect([clientRoot]);
+            client.setRequestHandler(ListRootsRequestSchema, async () => {
+                throw new Error('roots unavailable');
+            });
+
+            const result = await readFile(path.join(workspace, 'notes.txt'));
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('could not get the client\'s filesystem roots');
+        });
+
+        it('should refetch roots after roots/list_changed', async () => {
+            const roots = [clientRoot];
+            await connect(roots);
+            expect((await readFile('notes.txt')).structuredContent.content).toBe('client notes');
+
+            roots[0] = otherRoot;
+            await client.sendRootsListChanged();
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            expect((await readFile('notes.txt')).structuredContent.content).toBe('other notes');
+        });
+    });
+
+    describe('realPath', () => {
+        it('should resolve symlinked ancestors of paths that do not exist yet', async () => {
+            const real = await fs.realpath(sibling);
+
+            expect(await realPath(path.join(workspace, 'link-dir', 'a', 'b.txt'))).toBe(path.join(real, 'a', 'b.txt'));
+            expect(await realPath(path.join(workspace, 'dangling.txt'))).toBe(path.join(real, 'new.txt'));
+        });
+    });
+
+    describe('isWithinRoot', () => {
+        it('should accept the root and paths below it', () => {
+            expect(isWithinRoot('/work', '/work')).toBe(true);
+            expect(isWithinRoot('/work', '/work/a/b.txt')).toBe(true);
+            expect(isWithinRoot('/work', '/work/..hidden')).toBe(true);
+        });
+
+        it('should reject parents and prefix siblings', () => {
+            expect(isWithinRoot('/work', '/')).toBe(false);
+            expect(isWithinRoot('/work', '/work-old/file')).toBe(false);
+            expect(isWithinRoot('/work', '/work/../etc')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * Filesystem roots
+ * Filesystem tools are restricted to the roots the MCP client shares via roots/list,
+ * or to MCP_WORKSPACE_ROOT (default: the working directory) when the client doesn't support roots.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListRootsResultSchema, RootsListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolCallOptions } from './registry.js';
+import { logger } from './logger.js';
+
+/**
+ * Root used when the client doesn't provide any
+ */
+export function getWorkspaceRoot(): string {
+    return path.resolve(process.env.MCP_WORKSPACE_ROOT || process.cwd());
+}
+
+// roots/list result per connected client; dropped on roots/list_changed
+const rootsCache = new WeakMap<Server, Promise<string[]>>();
+
+/**
+ * Refetch the client's roots whenever it reports a change
+ */
+export function registerRoots(server: Server): void {
+    server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+        rootsCache.delete(server);
+        logger.info('roots', 'Client roots changed');
+    });
+}
+
+/**
+ * Ask the client for its roots. Only file:// roots map to directories.
+ */
+async function fetchRoots({ server, extra }: ToolCallOptions): Promise<string[]> {
+    const result = extra
+        ? await extra.sendRequest({ method: 'roots/list' }, ListRootsResultSchema)
+        : await server.listRoots();
+
+    return result.roots
+        .filter(root => root.uri.startsWith('file://'))
+        .map(root => path.resolve(fileURLToPath(root.uri)));
+}
+
+/**
+ * Directories the current client allows filesystem tools to touch.
+ * The first one is the base for relative paths. Throws when roots/list fails.
+ */
+export async function getAllowedRoots(options: ToolCallOptions): Promise<string[]> {
+    const { server } = options;
+    if (!server.getClientCapabilities()?.roots) {
+        return [getWorkspaceRoot()];
+    }
+
+    let roots = rootsCache.get(server);
+    if (!roots) {
+        roots = fetchRoots(options);
+        rootsCache.set(server, roots);
+    }
+
+    try {
+        return await roots;
+    } catch (error) {
+        // Try again on the next call rather than caching the failure. The client said it has
+        // roots, so the workspace root (possibly much wider) is no substitute.
+        rootsCache.delete(server);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.warning('roots', 'roots/list failed, refusing filesystem access', { error: message });
+        throw new Error(`Access denied: could not get the client's filesystem roots (${message})`);
+    }
+}
+
+/**
+ * Whether target is root itself or inside it (not just sharing a prefix like /work vs /work-old)
+ */
+export function isWithinRoot(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (
+        relative !== '..' &&
+        !relative.startsWith(`..${path.sep}`) &&
+        !path.isAbsolute(relative)
+    );
+}
+
+// Same bound as Linux's MAXSYMLINKS
+const MAX_SYMLINKS = 40;
+
+/**
+ * Resolve a symlink-free path. For a path that doesn't exist yet, the nearest existing ancestor
+ * is resolved and the rest appended, so a file about to be created under a symlinked directory
+ * (or through a dangling symlink) maps to where it would actually be written.
+ */
+export async function realPath(target: string, links = 0): Promise<string> {
+    const resolved = path.resolve(target);
+    try {
+        return await fs.realpath(resolved);
+    } catch {
+        // Doesn't exist (yet): resolve the parent instead
+    }
+
+    const parent = path.dirname(resolved);
+    if (parent === resolved) {
+        return resolved;
+    }
+
+    const joined = path.join(await realPath(parent, links), path.basename(resolved));
+    const link = await fs.readlink(joined).catch(() => undefined);
+    if (link === undefined || links >= MAX_SYMLINKS) {
+        return joined;
+    }
+    return realPath(path.resolve(path.dirname(joined), link), links + 1);
+}
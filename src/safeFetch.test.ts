@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { FetchBlockedError, isBlockedAddress, isLinkedInJobUrl, safeFetch, type FetchPolicy } from './safeFetch.js';
+import { toolRegistry } from './tools.js';
+import { createServer } from './server.js';
+
+const POLICY: FetchPolicy = {
+    allowHosts: [],
+    denyHosts: ['*.internal.example'],
+    maxRedirects: 2,
+    maxBytes: 1024,
+    contentTypes: ['text/*', 'application/json'],
+};
+
+describe('safeFetch', () => {
+    let server: http.Server;
+    let port: number;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            switch (req.url) {
+                case '/job':
+                    res.writeHead(200, { 'Content-Type': 'text/html' }).end('<body>Engineer</body>');
+                    break;
+                case '/to-loopback':
+                    res.writeHead(302, { Location: `http://127.0.0.1:${port}/job` }).end();
+                    break;
+                case '/loop':
+                    res.writeHead(302, { Location: '/loop' }).end();
+                    break;
+                case '/image':
+                    res.writeHead(200, { 'Content-Type': 'image/png' }).end(Buffer.alloc(16));
+                    break;
+                case '/large':
+                    // Chunked, so only the streamed size gives it away
+                    res.writeHead(200, { 'Content-Type': 'text/plain' });
+                    res.write('x'.repeat(1000));
+                    res.end('x'.repeat(1000));
+                    break;
+                default:
+                    res.writeHead(404).end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    // The test server is on loopback, so it must be allowlisted to be reachable at all
+    const trusted: FetchPolicy = { ...POLICY, allowHosts: ['localhost'] };
+
+    it('should classify private, loopback and link-local addresses', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fe80::1', 'fd00::1', '::ffff:7f00:1']) {
+            expect(isBlockedAddress(address), address).toBe(true);
+        }
+        for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111']) {
+            expect(isBlockedAddress(address), address).toBe(false);
+        }
+    });
+
+    it('should only take HTTPS linkedin.com job pages for LinkedIn job URLs', () => {
+        for (const url of ['https://www.linkedin.com/jobs/view/123', 'https://linkedin.com/jobs/', 'https://uk.linkedin.com/jobs/search?currentJobId=1']) {
+            expect(isLinkedInJobUrl(url), url).toBe(true);
+        }
+        for (const url of [
+            'http://169.254.169.254/latest/?x=linkedin.com/jobs',
+            'https://linkedin.com.evil.tld/jobs/view/123',
+            'https://evil-linkedin.com/jobs/view/123',
+            'https://evil.tld/linkedin.com/jobs/view/123',
+            'http://www.linkedin.com/jobs/view/123',
+            'https://www.linkedin.com/jobsearch',
+            'linkedin.com/jobs/view/123',
+        ]) {
+            expect(isLinkedInJobUrl(url), url).toBe(false);
+        }
+    });
+
+    it('should refuse private IP literals without connecting', async () => {
+        for (const url of ['http://169.254.169.254/latest/meta-data/', 'http://10.0.0.1/', 'http://[::1]/', 'http://[::ffff:127.0.0.1]/', 'http://0x7f000001/']) {
+            await expect(safeFetch(url, { policy: POLICY }), url).rejects.toBeInstanceOf(FetchBlockedError);
+        }
+    });
+
+    it('should refuse hostnames that resolve to private addresses', async () => {
+        await expect(safeFetch(`http://localhost:${port}/job`, { policy: POLICY }))
+            .rejects.toThrow('Blocked: localhost resolves to a private address');
+    });
+
+    it('should refuse other protocols and denied hosts', async () => {
+        await expect(safeFetch('file:///etc/passwd', { policy: POLICY })).rejects.toThrow('only HTTP and HTTPS');
+        await expect(safeFetch('https://jobs.internal.example/', { policy: POLICY })).rejects.toThrow('on the deny list');
+    });
+
+    it('should fetch allowlisted hosts', async () => {
+        const response = await safeFetch(`http://localhost:${port}/job`, { policy: trusted });
+
+        expect(response.status).toBe(200);
+        expect(response.contentType).toBe('text/html');
+        expect(await response.text()).toBe('<body>Engineer</body>');
+    });
+
+    it('should check every redirect hop', async () => {
+        await expect(safeFetch(`http://localhost:${port}/to-loopback`, { policy: trusted }))
+            .rejects.toThrow('Blocked: 127.0.0.1 is a private address');
+    });
+
+    it('should cap redirects', async () => {
+        await expect(safeFetch(`http://localhost:${port}/loop`, { policy: trusted }))
+            .rejects.toThrow('too many redirects (more than 2)');
+    });
+
+    it('should refuse disallowed content types and oversized bodies', async () => {
+        const image = await safeFetch(`http://localhost:${port}/image`, { policy: trusted });
+        const large = await safeFetch(`http://localhost:${port}/large`, { policy: trusted });
+
+        await expect(image.text()).rejects.toThrow('content type image/png is not allowed');
+        await expect(large.text()).rejects.toThrow('larger than 1024 bytes');
+    });
+
+    it('should return error statuses without reading the body', async () => {
+        const response = await safeFetch(`http://localhost:${port}/missing`, { policy: trusted });
+
+        expect(response.ok).toBe(false);
+        expect(response.status).toBe(404);
+    });
+
+    it('should not send look-alike LinkedIn URLs to the scraper', async () => {
+        for (const url of ['http://169.254.169.254/latest/?x=linkedin.com/jobs', 'https://linkedin.com.evil.tld/jobs/view/1']) {
+            const result = await toolRegistry.call('scrapeLinkedInJob', { url }, { server: createServer() });
+
+            expect(result.isError, url).toBe(true);
+            expect(result.content[0]).toMatchObject({ text: expect.stringContaining('Expected a LinkedIn job URL') });
+        }
+    });
+
+    it('should protect the webFetch tool', async () => {
+        const result = await toolRegistry.call('webFetch', { url: 'http://169.254.169.254/latest/meta-data/' }, { server: createServer() });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0]).toMatchObject({ text: expect.stringContaining('Blocked: 169.254.169.254 is a private address') });
+    });
+});
@@ -0,0 +1,263 @@
+/**
+ * Outbound HTTP guard (SSRF protection)
+ * URLs that users or models hand to webFetch, extractJob and /api/extract-job must not reach the
+ * server's own network: every hop is resolved and refused if it lands on a private, loopback or
+ * link-local address. Redirects, response size and content types are capped as well.
+ */
+
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import type { Readable } from 'stream';
+import fetch from 'node-fetch';
+import { readInteger, splitList } from './env.js';
+
+export interface FetchPolicy {
+    // Hosts that may resolve to private addresses (e.g. an intranet job board)
+    allowHosts: string[];
+    // Hosts that are never fetched
+    denyHosts: string[];
+    maxRedirects: number;
+    maxBytes: number;
+    // MIME types; "text/*" matches any text type. Responses without a Content-Type are accepted.
+    contentTypes: string[];
+}
+
+export interface SafeFetchOptions {
+    signal?: AbortSignal;
+    policy?: FetchPolicy;
+}
+
+export interface SafeFetchResponse {
+    // Final URL after redirects
+    url: string;
+    status: number;
+    statusText: string;
+    ok: boolean;
+    contentType: string | null;
+    // Reads the body, enforcing the content type and size limits
+    text(): Promise<string>;
+}
+
+/**
+ * The request was refused by the policy (as opposed to a network or HTTP failure)
+ */
+export class FetchBlockedError extends Error {
+    constructor(message: string) {
+        super(`Blocked: ${message}`);
+        this.name = 'FetchBlockedError';
+    }
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_CONTENT_TYPES = [
+    'text/*', 'application/json', 'application/ld+json', 'application/xml', 'application/xhtml+xml',
+    'application/rss+xml', 'application/atom+xml',
+];
+
+/** How long extractJob and /api/extract-job wait for a job posting URL */
+export const JOB_FETCH_TIMEOUT_MS = 30000;
+
+// Addresses a public URL has no business resolving to. BlockList checks IPv4-mapped
+// IPv6 addresses (::ffff:a.b.c.d) against the IPv4 ranges.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],         // "this" network
+    ['10.0.0.0', 8],        // private
+    ['100.64.0.0', 10],     // carrier-grade NAT
+    ['127.0.0.0', 8],       // loopback
+    ['169.254.0.0', 16],    // link-local, including cloud metadata (169.254.169.254)
+    ['172.16.0.0', 12],     // private
+    ['192.0.0.0', 24],      // IETF protocol assignments
+    ['192.168.0.0', 16],    // private
+    ['198.18.0.0', 15],     // benchmarking
+    ['224.0.0.0', 4],       // multicast
+    ['240.0.0.0', 4],       // reserved and broadcast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128],            // unspecified
+    ['::1', 128],           // loopback
+    ['64:ff9b::', 96],      // NAT64
+    ['fc00::', 7],          // unique local
+    ['fe80::', 10],         // link-local
+    ['ff00::', 8],          // multicast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Hosts and content types compare case-insensitively
+function splitLowerCaseList(value?: string): string[] {
+    return splitList(value?.toLowerCase());
+}
+
+/**
+ * Read the fetch policy from the environment
+ */
+export function getFetchPolicy(): FetchPolicy {
+    const contentTypes = splitLowerCaseList(process.env.FETCH_CONTENT_TYPES);
+    return {
+        allowHosts: splitLowerCaseList(process.env.FETCH_ALLOW_HOSTS),
+        denyHosts: splitLowerCaseList(process.env.FETCH_DENY_HOSTS),
+        maxRedirects: readInteger('FETCH_MAX_REDIRECTS', DEFAULT_MAX_REDIRECTS),
+        maxBytes: readInteger('FETCH_MAX_BYTES', DEFAULT_MAX_BYTES),
+        contentTypes: contentTypes.length > 0 ? contentTypes : DEFAULT_CONTENT_TYPES,
+    };
+}
+
+export function isBlockedAddress(address: string): boolean {
+    const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+    return BLOCKED_ADDRESSES.check(address, family);
+}
+
+/**
+ * Whether a URL is a LinkedIn job posting. These are opened by the headless browser rather than
+ * safeFetch, so the URL is parsed: a "linkedin.com/jobs" anywhere in the query doesn't count.
+ */
+export function isLinkedInJobUrl(input: string): boolean {
+    let url: URL;
+    try {
+        url = new URL(input);
+    } catch {
+        return false;
+    }
+    const host = url.hostname.toLowerCase();
+    return url.protocol === 'https:'
+        && (host === 'linkedin.com' || host.endsWith('.linkedin.com'))
+        && /^\/jobs(\/|$)/.test(url.pathname);
+}
+
+/**
+ * Host list match: "example.com" matches exactly, "*.example.com" matches subdomains
+ */
+function matchesHost(patterns: string[], hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return patterns.some(pattern => pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern);
+}
+
+/**
+ * dns.lookup replacement for the agents: refuses private addresses at connect time,
+ * so a hostname can't pass a check and then resolve somewhere else
+ */
+function guardedLookup(policy: FetchPolicy, onBlocked: (error: FetchBlockedError) => void): net.LookupFunction {
+    return (hostname, options, callback) => {
+        dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+            if (error) {
+                callback(error, '', 0);
+                return;
+            }
+
+            const blocked = matchesHost(policy.allowHosts, hostname)
+                ? undefined
+                : addresses.find(({ address }) => isBlockedAddress(address));
+            if (blocked) {
+                const blockedError = new FetchBlockedError(`${hostname} resolves to a private address (${blocked.address})`);
+                onBlocked(blockedError);
+                callback(blockedError, '', 0);
+            } else if (options.all) {
+                (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+            } else {
+                callback(null, addresses[0].address, addresses[0].family);
+            }
+        });
+    };
+}
+
+/**
+ * Check a URL before connecting to it (hostnames are checked again when they resolve)
+ */
+function checkURL(url: URL, policy: FetchPolicy): void {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new FetchBlockedError(`only HTTP and HTTPS URLs are supported (${url.protocol})`);
+    }
+
+    // URL keeps IPv6 literals in brackets
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (matchesHost(policy.denyHosts, hostname)) {
+        throw new FetchBlockedError(`${hostname} is on the deny list`);
+    }
+    if (net.isIP(hostname) && isBlockedAddress(hostname) && !matchesHost(policy.allowHosts, hostname)) {
+        throw new FetchBlockedError(`${hostname} is a private address`);
+    }
+}
+
+function isAllowedContentType(contentType: string | null, allowed: string[]): boolean {
+    if (!contentType) return true;
+
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    return allowed.some(pattern => pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern);
+}
+
+/**
+ * Fetch a URL from the public internet, following redirects manually so every hop is checked
+ */
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+    const policy = options.policy ?? getFetchPolicy();
+    // node-fetch replaces lookup errors with its own, so remember ours
+    let blockedError: FetchBlockedError | undefined;
+    const lookup = guardedLookup(policy, (error) => { blockedError = error; });
+    const httpAgent = new http.Agent({ lookup });
+    const httpsAgent = new https.Agent({ lookup });
+
+    let url = new URL(input);
+    for (let redirects = 0; ; redirects++) {
+        checkURL(url, policy);
+
+        let response;
+        try {
+            response = await fetch(url.href, {
+                redirect: 'manual',
+                signal: options.signal,
+                agent: (target: URL) => target.protocol === 'http:' ? httpAgent : httpsAgent,
+            });
+        } catch (error) {
+            throw blockedError ?? error;
+        }
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+            response.body?.resume();
+            if (redirects >= policy.maxRedirects) {
+                throw new FetchBlockedError(`too many redirects (more than ${policy.maxRedirects})`);
+            }
+            url = new URL(location, url);
+            continue;
+        }
+
+        const contentType = response.headers.get('content-type');
+        const body = response.body as Readable | null;
+        return {
+            url: url.href,
+            status: response.status,
+            statusText: response.statusText,
+            ok: response.ok,
+            contentType,
+            async text() {
+                if (!isAllowedContentType(contentType, policy.contentTypes)) {
+                    body?.resume();
+                    throw new FetchBlockedError(`content type ${contentType} is not allowed`);
+                }
+                const declared = Number(response.headers.get('content-length'));
+                if (declared > policy.maxBytes) {
+                    body?.resume();
+                    throw new FetchBlockedError(`response is larger than ${policy.maxBytes} bytes`);
+                }
+
+                const chunks: Buffer[] = [];
+                let size = 0;
+                for await (const chunk of body ?? []) {
+                    size += (chunk as Buffer).length;
+                    if (size > policy.maxBytes) {
+                        body?.destroy();
+                        throw new FetchBlockedError(`response is larger than ${policy.maxBytes} bytes`);
+                    }
+                    chunks.push(chunk as Buffer);
+                }
+                return Buffer.concat(chunks).toString('utf-8');
+            },
+        };
+    }
+}
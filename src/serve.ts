@@ -0,0 +1,105 @@
+/**
+ * Server startup
+ * Shared by src/index.ts and `letsmcp serve`: the HTTP server (health, REST API, MCP over
+ * Streamable HTTP) and/or the stdio MCP transport.
+ */
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import cors from 'cors';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createServer } from './server.js';
+import { createAPIRoutes } from './api/index.js';
+import { getTrustProxy } from './api/rateLimit.js';
+import { createMCPRoutes, closeMCPSessions } from './mcp/index.js';
+import type { MCPSessionStore } from './mcp/index.js';
+import { getPluginHost } from './plugins.js';
+import { redactError } from './redact.js';
+
+export interface ServeOptions {
+    stdio: boolean;
+    http: boolean;
+}
+
+/**
+ * Express app with health check, REST API and the /mcp endpoint
+ */
+export function createApp(mcpSessions: MCPSessionStore = new Map()): express.Application {
+    const app = express();
+
+    // Client IPs (rate limits, audit log) come from X-Forwarded-For only behind a trusted proxy
+    app.set('trust proxy', getTrustProxy());
+
+    // Enable CORS for browser access (JobOS)
+    app.use(cors({
+        origin: true, // Allow all origins in dev, configure for production
+        methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID'],
+        exposedHeaders: ['Mcp-Session-Id'],
+    }));
+
+    // Parse JSON bodies
+    app.use(express.json({ limit: '10mb' }));
+
+    // Health check endpoint
+    app.get('/health', (_req: Request, res: Response) => {
+        res.json({ status: 'ok', server: 'letsmcp', version: '2.0.0' });
+    });
+
+    // Mount API routes
+    app.use('/api', createAPIRoutes());
+
+    // Mount MCP Streamable HTTP transport
+    app.use('/mcp', createMCPRoutes(mcpSessions));
+
+    return app;
+}
+
+/**
+ * Start the requested transports and shut them down on SIGINT
+ */
+export async function startServer(options: ServeOptions): Promise<void> {
+    const PORT = parseInt(process.env.PORT || '3000', 10);
+    const HOST = process.env.HOST || 'localhost';
+
+    // Load plugins before any MCP server is created - the host logs each one, failures
+    // are also reported in server://info
+    await getPluginHost().loadAll();
+
+    // Create MCP server for the stdio transport
+    const server = options.stdio ? createServer() : null;
+
+    // Streamable HTTP sessions - each gets its own MCP server
+    const mcpSessions: MCPSessionStore = new Map();
+
+    // Start HTTP server
+    const httpServer = options.http
+        ? createApp(mcpSessions).listen(PORT, HOST, () => {
+            console.error(`HTTP Server running at http://${HOST}:${PORT}`);
+            console.error(`Health check: http://${HOST}:${PORT}/health`);
+            console.error(`API endpoints: http://${HOST}:${PORT}/api/*`);
+            console.error(`MCP endpoint (Streamable HTTP): http://${HOST}:${PORT}/mcp`);
+        })
+        : null;
+
+    // Start stdio transport for MCP communication
+    if (server) {
+        const transport = new StdioServerTransport();
+        server.connect(transport).then(() => {
+            console.error(`\nMCP Server ready on stdio transport`);
+            console.error(`Configure in Claude Desktop/Antigravity as a stdio server`);
+        }).catch((error) => {
+            console.error('Failed to start MCP server:', redactError(error));
+            process.exit(1);
+        });
+    }
+
+    // Graceful shutdown
+    process.on('SIGINT', async () => {
+        console.error('\nShutting down...');
+        httpServer?.close();
+        await closeMCPSessions(mcpSessions);
+        await server?.close();
+        process.exit(0);
+    });
+}
@@ -1,18 +1,58 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
     ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { registerTools } from './tools.js';
+import { registerTools, toolRegistry } from './tools.js';
+import { registerPrompts, PROMPT_DEFINITIONS } from './prompts.js';
+import { getPluginHost } from './plugins.js';
+import { registerLogging } from './logger.js';
+import { registerRoots } from './roots.js';
+import { FILES_RESOURCE_TEMPLATE, FILES_URI_PREFIX, listFileResources, readFileResource, registerFileResources } from './files.js';
+import { AUDIT_RESOURCE_TEMPLATE, AUDIT_RESOURCE_URI, readAuditResource } from './audit.js';
+import type { PluginStatus } from './plugins.js';
 
 // Configuration from environment
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const HOST = process.env.HOST || 'localhost';
 
+/**
+ * One line per plugin for server://info
+ */
+function describePlugin(plugin: PluginStatus): string {
+    switch (plugin.status) {
+        case 'loaded': {
+            const parts = [
+                plugin.tools.length > 0 ? `tools: ${plugin.tools.join(', ')}` : '',
+                plugin.resources.length > 0 ? `resources: ${plugin.resources.join(', ')}` : '',
+                plugin.prompts.length > 0 ? `prompts: ${plugin.prompts.join(', ')}` : '',
+            ].filter(Boolean);
+            return `  - ${plugin.name}${plugin.version ? ` v${plugin.version}` : ''} (loaded${parts.length > 0 ? `; ${parts.join('; ')}` : ''})`;
+        }
+        case 'disabled':
+            return `  - ${plugin.name} (disabled)`;
+        case 'failed':
+            return `  - ${plugin.name} (FAILED: ${plugin.error}) [${plugin.source}]`;
+    }
+}
+
+export interface ServerOptions {
+    // Serve audit://log. The stdio client runs on this machine; HTTP sessions need the
+    // admin:config scope, as for /api/audit.
+    auditLog?: boolean;
+    // Who started the HTTP session (key:<name> or ip:<addr>); tools share rate limits with
+    // the same caller's REST requests
+    caller?: string;
+}
+
 /**
  * Create and configure the MCP server
  */
-export function createServer(): Server {
+export function createServer(options: ServerOptions = {}): Server {
+    const plugins = getPluginHost();
+    const auditLog = options.auditLog ?? true;
+
     const server = new Server(
         {
             name: 'letsmcp',
@@ -21,15 +61,35 @@ export function createServer(): Server {
         {
             capabilities: {
                 tools: {},
-                resources: {},
+                resources: { subscribe: true, listChanged: true },
+                prompts: {},
+                completions: {},
+                logging: {},
             },
         }
     );
 
-    // Register all tools
-    registerTools(server);
+    // Per-session log level for notifications/message
+    registerLogging(server);
+
+    // Filesystem tools follow the client's roots
+    registerRoots(server);
+
+    // Register all tools (built-in and plugin tools share the registry)
+    registerTools(server, { caller: options.caller });
+
+    // Register prompts (with argument completion)
+    const prompts = [...PROMPT_DEFINITIONS, ...plugins.getPrompts()];
+    registerPrompts(server, prompts);
+
+    // Register resources (saved files under mcp-files are mcpfiles:// resources,
+    // the audit log is queried through audit://log)
+    registerFileResources(server);
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        return { resourceTemplates: [FILES_RESOURCE_TEMPLATE, ...(auditLog ? [AUDIT_RESOURCE_TEMPLATE] : [])] };
+    });
 
-    // Register resources
     server.setRequestHandler(ListResourcesRequestSchema, async () => {
         return {
             resources: [
@@ -39,12 +99,29 @@ export function createServer(): Server {
                     description: 'Information about this MCP server',
                     mimeType: 'text/plain',
                 },
+                ...(auditLog ? [{
+                    uri: AUDIT_RESOURCE_URI,
+                    name: 'Audit Log',
+                    description: 'Most recent tool calls and API requests (filter with the audit://log query template)',
+                    mimeType: 'application/json',
+                }] : []),
+                ...plugins.getResources().map(({ uri, name, description, mimeType }) => ({
+                    uri,
+                    name,
+                    ...(description && { description }),
+                    ...(mimeType && { mimeType }),
+                })),
+                ...await listFileResources(),
             ],
         };
     });
 
     server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
         if (request.params.uri === 'server://info') {
+            const pluginStatuses = plugins.getStatuses();
+            const resourceUris = ['server://info', ...(auditLog ? [AUDIT_RESOURCE_URI] : []), ...plugins.getResources().map(r => r.uri)];
+            const templates = [FILES_RESOURCE_TEMPLATE, ...(auditLog ? [AUDIT_RESOURCE_TEMPLATE] : [])];
+
             return {
                 contents: [
                     {
@@ -52,9 +129,34 @@ export function createServer(): Server {
                         mimeType: 'text/plain',
                         text: `letsmcp MCP Server v2.0.0
 Running on: ${HOST}:${PORT}
-Capabilities: Tools, Resources
-Available Tools: echoText, summarizeDirectory, saveToFile, readFile, searchFiles, executeCommand, webFetch, scrapeLinkedInJob
-Available Resources: server://info`,
+Capabilities: Tools, Resources, Prompts, Logging
+Available Tools: ${toolRegistry.names().join(', ')}
+Available Prompts: ${prompts.map(p => p.name).join(', ')}
+Available Resources: ${resourceUris.join(', ')}
+Resource Templates: ${templates.map(t => t.uriTemplate).join(', ')}
+Plugins: ${pluginStatuses.length === 0 ? 'none' : `\n${pluginStatuses.map(describePlugin).join('\n')}`}`,
+                    },
+                ],
+            };
+        }
+
+        if (request.params.uri.startsWith(FILES_URI_PREFIX)) {
+            return { contents: [await readFileResource(request.params.uri)] };
+        }
+
+        if (auditLog && (request.params.uri === AUDIT_RESOURCE_URI || request.params.uri.startsWith(`${AUDIT_RESOURCE_URI}?`))) {
+            return { contents: [await readAuditResource(request.params.uri)] };
+        }
+
+        const resource = plugins.getResource(request.params.uri);
+        if (resource) {
+            const contents = await resource.read();
+            return {
+                contents: [
+                    {
+                        uri: resource.uri,
+                        ...(resource.mimeType && { mimeType: resource.mimeType }),
+                        ...contents,
                     },
                 ],
             };
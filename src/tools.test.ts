@@ -1,9 +1,36 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { registerTools } from './tools.js';
+import { getAIService } from './ai/service.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+// Mock the AI service
+const mockAIService = {
+    hasProvider: vi.fn(() => true),
+    generateText: vi.fn(async () => ({ text: 'Generated text', provider: 'groq' })),
+    extractJobDetails: vi.fn(async () => ({
+        data: { title: 'Engineer', company: 'Corp', location: 'NYC', description: 'Job desc' },
+        provider: 'groq'
+    })),
+    analyzeResume: vi.fn(async () => ({
+        data: { matchScore: 80, strengths: ['React'], gaps: ['AWS'], recommendations: ['Learn AWS'], keywords: { matched: ['React'], missing: ['AWS'] } },
+        provider: 'claude'
+    })),
+    draftEmail: vi.fn(async () => ({
+        data: { subject: 'Hello', body: 'Email body', confidence: 85 },
+        provider: 'groq'
+    }))
+};
+
+vi.mock('./ai/service.js', async () => {
+    const actual = await vi.importActual('./ai/service.js');
+    return {
+        ...actual,
+        getAIService: vi.fn(() => mockAIService)
+    };
+});
+
 describe('MCP Tools', () => {
     let server: Server;
 
@@ -26,6 +53,7 @@ describe('MCP Tools', () => {
 
                 const response = JSON.parse(result.content[0].text);
                 expect(response).toEqual({ echoed: 'Hello, World!' });
+                expect(result.structuredContent).toEqual({ echoed: 'Hello, World!' });
             });
 
             it('should echo text with special characters', async () => {
@@ -127,6 +155,19 @@ describe('MCP Tools', () => {
                 expect(text).toContain('5 total');
             });
 
+            it('should return structured directory counts', async () => {
+                const result = await callTool('summarizeDirectory', { path: 'test-temp-dir' });
+
+                expect(result.structuredContent).toMatchObject({
+                    path: 'test-temp-dir',
+                    totalFiles: 3,
+                    totalDirectories: 2,
+                    totalItems: 5,
+                });
+                expect(result.structuredContent.entries).toContainEqual({ name: 'subdir1', type: 'directory' });
+                expect(result.structuredContent.entries).toContainEqual({ name: 'file3.md', type: 'file' });
+            });
+
             it('should show example file names', async () => {
                 const result = await callTool('summarizeDirectory', { path: 'test-temp-dir' });
 
@@ -289,6 +330,7 @@ describe('MCP Tools', () => {
             const response = JSON.parse(result.content[0].text);
             expect(response.success).toBe(true);
             expect(response.path).toContain('test.txt');
+            expect(result.structuredContent).toEqual(response);
 
             // Verify file was created
             const content = await fs.readFile(response.path, 'utf-8');
@@ -376,6 +418,16 @@ describe('MCP Tools', () => {
             expect(response.metadata.encoding).toBe('utf-8');
         });
 
+        it('should return typed metadata as structured content', async () => {
+            const result = await callTool('readFile', {
+                path: 'test-read-files/test.txt'
+            });
+
+            expect(result.structuredContent.content).toBe('Test content');
+            expect(result.structuredContent.metadata.size).toBe(12);
+            expect(typeof result.structuredContent.metadata.modified).toBe('string');
+        });
+
         it('should return error for non-existent file', async () => {
             const result = await callTool('readFile', {
                 path: 'non-existent.txt'
@@ -423,6 +475,12 @@ describe('MCP Tools', () => {
             const response = JSON.parse(result.content[0].text);
             expect(response.totalMatches).toBeGreaterThan(0);
             expect(response.matches.some((m: any) => m.content.includes('Python'))).toBe(true);
+            expect(result.structuredContent.filesSearched).toBe(3);
+            expect(result.structuredContent.matches[0]).toEqual({
+                file: expect.any(String),
+                line: expect.any(Number),
+                content: expect.any(String),
+            });
         });
 
         it('should filter by file type', async () => {
@@ -461,6 +519,8 @@ describe('MCP Tools', () => {
             const response = JSON.parse(result.content[0].text);
             expect(response.exitCode).toBe(0);
             expect(response.stdout).toContain('v');
+            expect(result.structuredContent.exitCode).toBe(0);
+            expect(typeof result.structuredContent.duration).toBe('number');
         });
 
         it('should handle command errors', async () => {
@@ -515,8 +575,202 @@ describe('MCP Tools', () => {
         });
     });
 
+    describe('output schemas', () => {
+        it('should declare an outputSchema for every tool', async () => {
+            const handlers = (server as any)._requestHandlers;
+            const { tools } = await handlers.get('tools/list')({ method: 'tools/list', params: {} });
+
+            for (const tool of tools) {
+                expect(tool.outputSchema, tool.name).toBeDefined();
+                expect(tool.outputSchema.type).toBe('object');
+            }
+        });
+    });
+
+    describe('AI tools', () => {
+        beforeEach(() => {
+            vi.mocked(getAIService).mockClear();
+            mockAIService.hasProvider.mockReturnValue(true);
+        });
+
+        it('should list AI tools with output schemas', async () => {
+            const handlers = (server as any)._requestHandlers;
+            const { tools } = await handlers.get('tools/list')({ method: 'tools/list', params: {} });
+            const names = tools.map((t: any) => t.name);
+
+            expect(names).toEqual(expect.arrayContaining(['extractJob', 'analyzeResume', 'draftOutreachEmail', 'generateText']));
+            expect(tools.find((t: any) => t.name === 'analyzeResume').outputSchema.required).toContain('matchScore');
+        });
+
+        it('should extract job details as structured content', async () => {
+            const result = await callTool('extractJob', { text: 'Engineer at Corp in NYC', provider: 'gemini' });
+
+            expect(result.isError).toBeUndefined();
+            expect(result.structuredContent.title).toBe('Engineer');
+            expect(result._meta.provider).toBe('groq');
+            expect(mockAIService.extractJobDetails).toHaveBeenCalledWith('Engineer at Corp in NYC', 'gemini', { cache: undefined });
+        });
+
+        it('should stop fetching a job URL when cancelled', async () => {
+            mockAIService.extractJobDetails.mockClear();
+            const { extra, controller } = createExtra();
+            controller.abort();
+
+            const result = await callTool('extractJob', { url: 'https://93.184.215.14/jobs/1' }, extra);
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toMatch(/Error extracting job details: .*abort/i);
+            expect(mockAIService.extractJobDetails).not.toHaveBeenCalled();
+        });
+
+        it('should analyze resume', async () => {
+            const result = await callTool('analyzeResume', {
+                jobDescription: 'Looking for React developer',
+                resumeText: '5 years React experience'
+            });
+
+            expect(result.isError).toBeUndefined();
+            expect(result.structuredContent.matchScore).toBe(80);
+            expect(JSON.parse(result.content[0].text).provider).toBe('claude');
+        });
+
+        it('should draft outreach email with REST defaults', async () => {
+            const result = await callTool('draftOutreachEmail', {
+                recipientName: 'John',
+                companyName: 'TechCorp',
+                jobTitle: 'Engineer'
+            });
+
+            expect(result.isError).toBeUndefined();
+            expect(result.structuredContent.subject).toBe('Hello');
+            expect(mockAIService.draftEmail).toHaveBeenCalledWith(
+                expect.objectContaining({ tone: 'Professional', intent: 'Connect', recipientRole: 'Team Member' }),
+                undefined,
+                { cache: undefined }
+            );
+        });
+
+        it('should generate text', async () => {
+            const result = await callTool('generateText', { prompt: 'Hello' });
+
+            expect(result.isError).toBeUndefined();
+            expect(result.structuredContent).toEqual({ text: 'Generated text' });
+        });
+
+        it('should return error for invalid input', async () => {
+            const result = await callTool('draftOutreachEmail', { recipientName: 'John' });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Invalid input');
+        });
+
+        it('should return error when no providers are configured', async () => {
+            mockAIService.hasProvider.mockReturnValue(false);
+
+            const result = await callTool('generateText', { prompt: 'Hello' });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('No AI providers configured');
+        });
+
+        it('should surface provider failures as tool errors', async () => {
+            mockAIService.generateText.mockRejectedValueOnce(new Error('All providers failed'));
+
+            const result = await callTool('generateText', { prompt: 'Hello' });
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('All providers failed');
+        });
+    });
+
+    describe('progress and cancellation', () => {
+        const testProgressDir = path.join(process.cwd(), 'test-progress-dir');
+
+        beforeEach(async () => {
+            await fs.mkdir(testProgressDir, { recursive: true });
+            for (let i = 0; i < 25; i++) {
+                await fs.writeFile(path.join(testProgressDir, `file${i}.txt`), `line ${i}`);
+            }
+        });
+
+        afterEach(async () => {
+            try {
+                await fs.rm(testProgressDir, { recursive: true, force: true });
+            } catch (error) {
+                // Ignore cleanup errors
+            }
+        });
+
+        it('should report files searched when a progress token is given', async () => {
+            const { extra, notifications } = createExtra('search-1');
+
+            const result = await callTool('searchFiles', { query: 'line', path: 'test-progress-dir' }, extra);
+
+            expect(result.isError).toBeUndefined();
+            const progress = notifications.map(n => n.params);
+            expect(progress.every(p => p.progressToken === 'search-1')).toBe(true);
+            expect(progress.map(p => p.progress)).toEqual([10, 20, 25]);
+            expect(progress[progress.length - 1].total).toBe(25);
+        });
+
+        it('should not send progress without a progress token', async () => {
+            const { extra, notifications } = createExtra();
+
+            await callTool('searchFiles', { query: 'line', path: 'test-progress-dir' }, extra);
+
+            expect(notifications).toHaveLength(0);
+        });
+
+        it('should stop searching when cancelled', async () => {
+            const { extra, controller } = createExtra();
+            controller.abort();
+
+            const result = await callTool('searchFiles', { query: 'line', path: 'test-progress-dir' }, extra);
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Cancelled');
+        });
+
+        it('should report bytes of command output', async () => {
+            const { extra, notifications } = createExtra('cmd-1');
+
+            const result = await callTool('executeCommand', { command: 'node', args: ['-e', 'process.stdout.write("hello")'] }, extra);
+
+            expect(result.structuredContent.stdout).toBe('hello');
+            expect(notifications[notifications.length - 1].params).toMatchObject({ progressToken: 'cmd-1', progress: 5 });
+        });
+
+        it('should kill the child process when cancelled', async () => {
+            const { extra, controller } = createExtra();
+            const startTime = Date.now();
+            setTimeout(() => controller.abort(), 200);
+
+            const result = await callTool('executeCommand', { command: 'node', args: ['-e', 'setTimeout(() => {}, 10000)'] }, extra);
+
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain('Cancelled');
+            expect(Date.now() - startTime).toBeLessThan(5000);
+        });
+    });
+
+    // Minimal RequestHandlerExtra that records outgoing notifications
+    function createExtra(progressToken?: string) {
+        const controller = new AbortController();
+        const notifications: any[] = [];
+        const extra = {
+            signal: controller.signal,
+            requestId: 1,
+            _meta: progressToken ? { progressToken } : undefined,
+            sendNotification: vi.fn(async (notification: any) => {
+                notifications.push(notification);
+            }),
+            sendRequest: vi.fn(),
+        };
+        return { extra, controller, notifications };
+    }
+
     // Helper function to call tools
-    async function callTool(name: string, args: any) {
+    async function callTool(name: string, args: any, extra?: any) {
         const handlers = (server as any)._requestHandlers;
         const callHandler = handlers.get('tools/call');
 
@@ -527,6 +781,6 @@ describe('MCP Tools', () => {
         return await callHandler({
             method: 'tools/call',
             params: { name, arguments: args }
-        });
+        }, extra);
     }
 });
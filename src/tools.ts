@@ -2,69 +2,266 @@ import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { spawn } from 'child_process';
-import fetch from 'node-fetch';
 import * as cheerio from 'cheerio';
 import { chromium } from 'playwright';
+import { getAIService } from './ai/service.js';
+import { EMAIL_INTENTS, EMAIL_TONES } from './ai/types.js';
+import { ToolRegistry, defineTool, structuredResult } from './registry.js';
+import type { ToolContext, ToolDefinition } from './registry.js';
+import { log, logger } from './logger.js';
+import { runWithRequestContext } from './context.js';
+import { getAuditLog } from './audit.js';
+import { getAllowedRoots, isWithinRoot, realPath } from './roots.js';
+import { confirmAction, formatCommandLine, isCommandAllowlisted } from './confirmation.js';
+import { getFilesDir } from './files.js';
+import { getLimits } from './limits.js';
+import { isLinkedInJobUrl, JOB_FETCH_TIMEOUT_MS, safeFetch } from './safeFetch.js';
+import { evaluateCommand, loadCommandPolicy, scrubEnv, type CommandPolicy } from './commandPolicy.js';
 
 /**
- * Type definitions for tool inputs
+ * Input schemas for the built-in tools
  */
 
 // Existing tools
-export interface EchoTextInput {
-    text: string;
-}
+const echoTextSchema = z.object({
+    // Empty/whitespace text gets a friendlier error from the handler
+    text: z.string().describe('The text to echo back'),
+});
 
-export interface SummarizeDirectoryInput {
-    path: string;
-}
+const summarizeDirectorySchema = z.object({
+    path: z.string().min(1).describe('Absolute or relative path to the directory to summarize'),
+});
 
 // New tools
-export interface SaveToFileInput {
-    content: string;
-    filename: string;
-    category?: string;
-    overwrite?: boolean;
-}
-
-export interface ReadFileInput {
-    path: string;
-    encoding?: string;
-    maxSize?: number;
-}
+const saveToFileSchema = z.object({
+    content: z.string().describe('The text content to save'),
+    filename: z.string().describe('Name of the file (e.g., "cover-letter.txt")'),
+    category: z.string().optional().describe('Optional folder/category for organization (e.g., "applications/google")'),
+    overwrite: z.boolean().default(false).describe('Allow overwriting existing files (default: false)'),
+});
+
+const readFileSchema = z.object({
+    path: z.string().min(1).describe('Path to the file (absolute or relative)'),
+    encoding: z.string().default('utf-8').describe('File encoding (default: "utf-8")'),
+    maxSize: z.number().default(10485760).describe('Maximum file size in bytes (default: 10MB)'),
+});
+
+const searchFilesSchema = z.object({
+    query: z.string().describe('Search pattern (text or regex)'),
+    path: z.string().describe('Directory to search'),
+    fileTypes: z.array(z.string()).optional().describe('Filter by file extensions (e.g., ["txt", "md"])'),
+    caseSensitive: z.boolean().default(false).describe('Case-sensitive search (default: false)'),
+    maxResults: z.number().default(50).describe('Maximum results to return (default: 50)'),
+    recursive: z.boolean().default(true).describe('Search subdirectories (default: true)'),
+});
+
+const executeCommandSchema = z.object({
+    command: z.string().describe('Command to execute (e.g., "git", "npm")'),
+    args: z.array(z.string()).optional().describe('Command arguments (e.g., ["status"])'),
+    cwd: z.string().optional().describe('Working directory (default: current directory)'),
+    timeout: z.number().default(30000).describe('Timeout in milliseconds (default: 30000)'),
+});
+
+const webFetchSchema = z.object({
+    url: z.string().min(1).describe('URL to fetch'),
+    selector: z.string().optional().describe('CSS selector to extract specific content'),
+    format: z.enum(['text', 'html', 'json']).default('text').describe('Output format (default: "text")'),
+    timeout: z.number().default(30000).describe('Request timeout in milliseconds (default: 30000)'),
+});
+
+const scrapeLinkedInJobSchema = z.object({
+    url: z.string()
+        .refine(isLinkedInJobUrl, { message: 'Expected a LinkedIn job URL' })
+        .describe('LinkedIn job URL (e.g., https://www.linkedin.com/jobs/view/123456789)'),
+    includeDescription: z.boolean().default(true).describe('Include full job description (default: true)'),
+    screenshot: z.boolean().default(false).describe('Save screenshot of the job posting (default: false)'),
+});
+
+// AI tools
+// Any registered provider name; unknown or unconfigured names just fall back
+const providerSchema = z.string()
+    .min(1)
+    .optional()
+    .describe('Preferred AI provider: groq, claude, gemini, local, any provider added to the registry, or "sampling" to use your own model. Falls back to the other configured providers if it fails.');
+
+const cacheSchema = z.enum(['bypass', 'refresh'])
+    .optional()
+    .describe('Response cache: "bypass" skips it, "refresh" asks the provider again and stores the new answer. By default a cached answer for the same input is returned.');
+
+const extractJobSchema = z.object({
+    text: z.string().optional().describe('Job posting text'),
+    url: z.string().optional().describe('URL of the job posting (used when text is not provided)'),
+    provider: providerSchema,
+    cache: cacheSchema,
+}).refine(input => !!input.text || !!input.url, { message: 'Either text or url is required' });
+
+const analyzeResumeSchema = z.object({
+    jobDescription: z.string().min(1).describe('The job description to match against'),
+    resumeText: z.string().min(1).describe('The resume text'),
+    provider: providerSchema,
+    cache: cacheSchema,
+});
+
+const draftOutreachEmailSchema = z.object({
+    recipientName: z.string().min(1).describe('Name of the recipient'),
+    recipientRole: z.string().default('Team Member').describe('Role of the recipient (default: "Team Member")'),
+    companyName: z.string().min(1).describe('Company the recipient works at'),
+    jobTitle: z.string().min(1).describe('Title of the job you are targeting'),
+    tone: z.enum(EMAIL_TONES).default('Professional').describe('Tone of the email (default: "Professional")'),
+    intent: z.enum(EMAIL_INTENTS).default('Connect').describe('Purpose of the email (default: "Connect")'),
+    jobDescription: z.string().optional().describe('Optional job description for context'),
+    userBackground: z.string().optional().describe('Optional summary of your background'),
+    provider: providerSchema,
+    cache: cacheSchema,
+});
+
+const generateTextSchema = z.object({
+    prompt: z.string().min(1).describe('The prompt to send to the AI provider'),
+    provider: providerSchema,
+    cache: cacheSchema,
+});
 
-export interface SearchFilesInput {
-    query: string;
-    path: string;
-    fileTypes?: string[];
-    caseSensitive?: boolean;
-    maxResults?: number;
-    recursive?: boolean;
-}
-
-export interface ExecuteCommandInput {
-    command: string;
-    args?: string[];
-    cwd?: string;
-    timeout?: number;
-}
+/**
+ * Output schemas - every tool returns structuredContent matching one of these
+ */
+const echoTextOutputSchema = z.object({
+    echoed: z.string(),
+});
+
+const summarizeDirectoryOutputSchema = z.object({
+    path: z.string(),
+    totalFiles: z.number(),
+    totalDirectories: z.number(),
+    totalItems: z.number(),
+    entries: z.array(z.object({
+        name: z.string(),
+        type: z.enum(['file', 'directory', 'other']),
+    })).describe('First 20 entries'),
+});
+
+const saveToFileOutputSchema = z.object({
+    success: z.boolean(),
+    path: z.string(),
+    message: z.string(),
+});
+
+const readFileOutputSchema = z.object({
+    content: z.string(),
+    metadata: z.object({
+        path: z.string(),
+        size: z.number(),
+        modified: z.string(),
+        encoding: z.string(),
+    }),
+});
+
+const searchFilesOutputSchema = z.object({
+    matches: z.array(z.object({
+        file: z.string(),
+        line: z.number(),
+        content: z.string(),
+    })),
+    totalMatches: z.number(),
+    filesSearched: z.number(),
+});
+
+const executeCommandOutputSchema = z.object({
+    stdout: z.string(),
+    stderr: z.string(),
+    exitCode: z.number(),
+    duration: z.number(),
+    // Set when stdout or stderr exceeded the policy's maxOutputBytes
+    truncated: z.boolean().optional(),
+});
+
+const webFetchOutputSchema = z.object({
+    content: z.string(),
+    metadata: z.object({
+        url: z.string(),
+        statusCode: z.number(),
+        contentType: z.string().nullable(),
+        size: z.number(),
+        fetchedAt: z.string(),
+    }),
+});
+
+const scrapeLinkedInJobOutputSchema = z.object({
+    title: z.string(),
+    company: z.string(),
+    location: z.string(),
+    description: z.string(),
+    postedDate: z.string(),
+    url: z.string(),
+    scrapedAt: z.string(),
+    screenshot: z.string().optional(),
+});
+
+// AI tools
+const jobDetailsSchema = z.object({
+    title: z.string(),
+    company: z.string(),
+    location: z.string(),
+    description: z.string(),
+    salary: z.string().optional(),
+    requirements: z.array(z.string()).optional(),
+    source: z.string().optional(),
+});
+
+const resumeAnalysisSchema = z.object({
+    matchScore: z.number().min(0).max(100),
+    strengths: z.array(z.string()),
+    gaps: z.array(z.string()),
+    recommendations: z.array(z.string()),
+    keywords: z.object({
+        matched: z.array(z.string()),
+        missing: z.array(z.string()),
+    }),
+});
+
+const emailDraftSchema = z.object({
+    subject: z.string(),
+    body: z.string(),
+    confidence: z.number().min(0).max(100),
+});
 
-export interface WebFetchInput {
-    url: string;
-    selector?: string;
-    format?: 'text' | 'html' | 'json';
-    timeout?: number;
-}
+/**
+ * Type definitions for tool inputs
+ */
+export type EchoTextInput = z.infer<typeof echoTextSchema>;
+export type SummarizeDirectoryInput = z.infer<typeof summarizeDirectorySchema>;
+export type SaveToFileInput = z.input<typeof saveToFileSchema>;
+export type ReadFileInput = z.input<typeof readFileSchema>;
+export type SearchFilesInput = z.input<typeof searchFilesSchema>;
+export type ExecuteCommandInput = z.input<typeof executeCommandSchema>;
+export type WebFetchInput = z.input<typeof webFetchSchema>;
+export type ScrapeLinkedInJobInput = z.input<typeof scrapeLinkedInJobSchema>;
+export type AIProviderName = NonNullable<z.infer<typeof providerSchema>>;
+export type ExtractJobInput = z.input<typeof extractJobSchema>;
+export type AnalyzeResumeInput = z.input<typeof analyzeResumeSchema>;
+export type DraftOutreachEmailInput = z.input<typeof draftOutreachEmailSchema>;
+export type GenerateTextInput = z.input<typeof generateTextSchema>;
 
-export interface ScrapeLinkedInJobInput {
-    url: string;
-    includeDescription?: boolean;
-    screenshot?: boolean;
-}
+/**
+ * Type definitions for tool outputs (structuredContent)
+ */
+export type EchoTextOutput = z.infer<typeof echoTextOutputSchema>;
+export type SummarizeDirectoryOutput = z.infer<typeof summarizeDirectoryOutputSchema>;
+export type SaveToFileOutput = z.infer<typeof saveToFileOutputSchema>;
+export type ReadFileOutput = z.infer<typeof readFileOutputSchema>;
+export type SearchFilesOutput = z.infer<typeof searchFilesOutputSchema>;
+export type ExecuteCommandOutput = z.infer<typeof executeCommandOutputSchema>;
+export type WebFetchOutput = z.infer<typeof webFetchOutputSchema>;
+export type ScrapeLinkedInJobOutput = z.infer<typeof scrapeLinkedInJobOutputSchema>;
+
+// LinkedIn job title (public and logged-in layouts); its presence means the job loaded
+const JOB_TITLE_SELECTOR = '.top-card-layout__title, .job-details-jobs-unified-top-card__job-title';
+const SCRAPE_ATTEMPTS = 2;
 
 // Directory entry type for internal use
 export interface DirectoryEntry {
@@ -74,797 +271,881 @@ export interface DirectoryEntry {
 }
 
 /**
- * Validation helpers
+ * Build a tool result from an AIService response.
+ * The data goes out as structured content; the provider that answered (and whether the
+ * answer came from the response cache) is reported in _meta.
  */
-function validateEchoTextInput(args: unknown): args is EchoTextInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.text === 'string';
+function aiToolResult<T extends object>(data: T, { provider, cached }: { provider: string; cached?: true }) {
+    return {
+        ...structuredResult(data as Record<string, unknown>, JSON.stringify({ data, provider, ...(cached && { cached }) }, null, 2)),
+        _meta: { provider, ...(cached && { cached }) },
+    };
 }
 
-function validateSummarizeDirectoryInput(args: unknown): args is SummarizeDirectoryInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.path === 'string' && input.path.length > 0;
-}
-
-function validateSaveToFileInput(args: unknown): args is SaveToFileInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.content === 'string' && typeof input.filename === 'string';
+/**
+ * Result for a call the client cancelled (the SDK drops it, but handlers still need a return value)
+ */
+function cancelledResult(what: string) {
+    return {
+        content: [{
+            type: 'text' as const,
+            text: `Cancelled: ${what} was aborted by the client.`,
+        }],
+        isError: true,
+    };
 }
 
-function validateReadFileInput(args: unknown): args is ReadFileInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.path === 'string' && input.path.length > 0;
-}
+/**
+ * Collects a child process stream up to a byte limit, dropping the rest
+ */
+class OutputBuffer {
+    private chunks: Buffer[] = [];
+    private size = 0;
+    private dropped = 0;
 
-function validateSearchFilesInput(args: unknown): args is SearchFilesInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.query === 'string' && typeof input.path === 'string';
-}
+    constructor(private maxBytes: number) {}
 
-function validateExecuteCommandInput(args: unknown): args is ExecuteCommandInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.command === 'string';
-}
+    get truncated(): boolean {
+        return this.dropped > 0;
+    }
 
-function validateWebFetchInput(args: unknown): args is WebFetchInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.url === 'string' && input.url.length > 0;
-}
+    append(data: Buffer): void {
+        const room = this.maxBytes - this.size;
+        if (room > 0) {
+            const kept = data.subarray(0, room);
+            this.chunks.push(kept);
+            this.size += kept.length;
+        }
+        this.dropped += Math.max(0, data.length - room);
+    }
 
-function validateScrapeLinkedInJobInput(args: unknown): args is ScrapeLinkedInJobInput {
-    const input = args as Record<string, unknown>;
-    return typeof input.url === 'string' && input.url.includes('linkedin.com/jobs');
+    toString(): string {
+        const text = Buffer.concat(this.chunks).toString();
+        return this.truncated ? `${text}\n[output truncated: ${this.dropped} more bytes]` : text;
+    }
 }
 
 /**
- * Security helper: Validate and resolve file paths
+ * Scrape a LinkedIn job page in a fresh browser (callers hold a browser slot)
  */
-function validatePath(inputPath: string, baseDir?: string): string {
-    const base = baseDir || process.cwd();
-    const resolved = path.resolve(base, inputPath);
+async function scrapeLinkedInPage(
+    input: z.infer<typeof scrapeLinkedInJobSchema>,
+    { signal, reportProgress }: ToolContext
+): Promise<CallToolResult> {
+    const includeDescription = input.includeDescription;
+    const totalSteps = input.screenshot ? 5 : 4;
+
+    let browser: Awaited<ReturnType<typeof chromium.launch>> | undefined;
+    // Closing the browser aborts any pending navigation or wait
+    const onCancel = () => {
+        browser?.close().catch(() => {});
+    };
+    signal.addEventListener('abort', onCancel, { once: true });
+
+    try {
+        // Launch browser
+        await reportProgress(0, totalSteps, 'Launching browser');
+        browser = await chromium.launch({ headless: true });
+        if (signal.aborted) throw new Error('Cancelled');
+        const page = await browser.newPage();
+
+        // Navigate to job posting; LinkedIn sometimes serves an interstitial
+        // instead of the job, so reload once before giving up
+        for (let attempt = 1; ; attempt++) {
+            await reportProgress(1, totalSteps, 'Loading job page');
+            await page.goto(input.url, { waitUntil: 'networkidle', timeout: 30000 });
+
+            // Wait for job content to load
+            await reportProgress(2, totalSteps, 'Page loaded, waiting for job details');
+            try {
+                await page.waitForSelector(JOB_TITLE_SELECTOR, { timeout: 10000 });
+                break;
+            } catch (error) {
+                if (attempt >= SCRAPE_ATTEMPTS || signal.aborted) throw error;
+                logger.warning('scraper', 'Job details did not load, retrying', {
+                    url: input.url,
+                    attempt,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                });
+            }
+        }
 
-    // Prevent directory traversal outside base directory
-    if (!resolved.startsWith(base)) {
-        throw new Error('Invalid path: Directory traversal not allowed');
-    }
+        // Extract job details
+        const jobData = await page.evaluate(({ includeDesc, titleSelector }: { includeDesc: boolean; titleSelector: string }) => {
+            // @ts-ignore - Running in browser context
+            const getText = (selector: string): string => {
+                // @ts-ignore - Running in browser context
+                const el = document.querySelector(selector);
+                return el?.textContent?.trim() || '';
+            };
+
+            return {
+                title: getText(titleSelector),
+                company: getText('.top-card-layout__first-subline, .job-details-jobs-unified-top-card__company-name'),
+                location: getText('.top-card-layout__second-subline, .job-details-jobs-unified-top-card__bullet'),
+                description: includeDesc ? getText('.show-more-less-html__markup, .jobs-description__content') : '',
+                postedDate: getText('.posted-time-ago__text, .job-details-jobs-unified-top-card__posted-date'),
+            };
+        }, { includeDesc: includeDescription, titleSelector: JOB_TITLE_SELECTOR });
+        await reportProgress(3, totalSteps, 'Extracted job details');
+
+        // Take screenshot if requested
+        let screenshotPath: string | undefined;
+        if (input.screenshot) {
+            await reportProgress(4, totalSteps, 'Saving screenshot');
+            screenshotPath = path.join(getFilesDir(), 'screenshots', `linkedin-job-${Date.now()}.png`);
+            await fs.mkdir(path.dirname(screenshotPath), { recursive: true });
+            await page.screenshot({ path: screenshotPath, fullPage: true });
+        }
 
-    return resolved;
-}
+        await browser.close();
+        await reportProgress(totalSteps, totalSteps, 'Done');
 
-/**
- * Register all tools with the server
- */
-export function registerTools(server: Server) {
-    // Register tools list with proper JSON schemas
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
+        const response: ScrapeLinkedInJobOutput = {
+            ...jobData,
+            url: input.url,
+            scrapedAt: new Date().toISOString(),
+            ...(screenshotPath && { screenshot: screenshotPath }),
+        };
+
+        return structuredResult(response);
+
+    } catch (error) {
+        if (browser) await browser.close().catch(() => {});
+
+        if (signal.aborted) {
+            return cancelledResult('LinkedIn scrape');
+        }
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('scraper', 'LinkedIn scrape failed', { url: input.url, error: errorMessage });
         return {
-            tools: [
-                {
-                    name: 'echoText',
-                    description: 'Echoes back the provided text. Useful for testing and verification.',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            text: {
-                                type: 'string',
-                                description: 'The text to echo back',
-                                minLength: 1,
-                            },
-                        },
-                        required: ['text'],
-                        additionalProperties: false,
-                    },
-                },
-                {
-                    name: 'summarizeDirectory',
-                    description: 'Lists all files and subdirectories in the specified directory with their metadata (name, type, size in bytes).',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            path: {
-                                type: 'string',
-                                description: 'Absolute or relative path to the directory to summarize',
-                                minLength: 1,
-                            },
-                        },
-                        required: ['path'],
-                        additionalProperties: false,
-                    },
-                },
-                {
-                    name: 'saveToFile',
-                    description: 'Saves text content to a file. Creates directories if needed. Useful for saving AI-generated content like cover letters, notes, or code.',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            content: {
-                                type: 'string',
-                                description: 'The text content to save',
-                            },
-                            filename: {
-                                type: 'string',
-                                description: 'Name of the file (e.g., "cover-letter.txt")',
-                            },
-                            category: {
-                                type: 'string',
-                                description: 'Optional folder/category for organization (e.g., "applications/google")',
-                            },
-                            overwrite: {
-                                type: 'boolean',
-                                description: 'Allow overwriting existing files (default: false)',
-                                default: false,
-                            },
-                        },
-                        required: ['content', 'filename'],
-                        additionalProperties: false,
-                    },
-                },
-                {
-                    name: 'readFile',
-                    description: 'Reads the contents of a file and returns it as text. Useful for loading resumes, templates, or configuration files.',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            path: {
-                                type: 'string',
-                                description: 'Path to the file (absolute or relative)',
-                            },
-                            encoding: {
-                                type: 'string',
-                                description: 'File encoding (default: "utf-8")',
-                                default: 'utf-8',
-                            },
-                            maxSize: {
-                                type: 'number',
-                                description: 'Maximum file size in bytes (default: 10MB)',
-                                default: 10485760,
-                            },
-                        },
-                        required: ['path'],
-                        additionalProperties: false,
-                    },
-                },
-                {
-                    name: 'searchFiles',
-                    description: 'Searches for text patterns within files in a directory using regular expressions. Returns matches with context.',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            query: {
-                                type: 'string',
-                                description: 'Search pattern (text or regex)',
-                            },
-                            path: {
-                                type: 'string',
-                                description: 'Directory to search',
-                            },
-                            fileTypes: {
-                                type: 'array',
-                                items: { type: 'string' },
-                                description: 'Filter by file extensions (e.g., ["txt", "md"])',
-                            },
-                            caseSensitive: {
-                                type: 'boolean',
-                                description: 'Case-sensitive search (default: false)',
-                                default: false,
-                            },
-                            maxResults: {
-                                type: 'number',
-                                description: 'Maximum results to return (default: 50)',
-                                default: 50,
-                            },
-                            recursive: {
-                                type: 'boolean',
-                                description: 'Search subdirectories (default: true)',
-                                default: true,
-                            },
-                        },
-                        required: ['query', 'path'],
-                        additionalProperties: false,
-                    },
-                },
-                {
-                    name: 'executeCommand',
-                    description: 'Executes a shell command and returns the output. Useful for git operations, running scripts, or system commands.',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            command: {
-                                type: 'string',
-                                description: 'Command to execute (e.g., "git", "npm")',
-                            },
-                            args: {
-                                type: 'array',
-                                items: { type: 'string' },
-                                description: 'Command arguments (e.g., ["status"])',
-                            },
-                            cwd: {
-                                type: 'string',
-                                description: 'Working directory (default: current directory)',
-                            },
-                            timeout: {
-                                type: 'number',
-                                description: 'Timeout in milliseconds (default: 30000)',
-                                default: 30000,
-                            },
-                        },
-                        required: ['command'],
-                        additionalProperties: false,
-                    },
-                },
-                {
-                    name: 'webFetch',
-                    description: 'Fetches content from a URL and optionally parses HTML. Useful for getting job postings, company info, or web content.',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            url: {
-                                type: 'string',
-                                description: 'URL to fetch',
-                            },
-                            selector: {
-                                type: 'string',
-                                description: 'CSS selector to extract specific content',
-                            },
-                            format: {
-                                type: 'string',
-                                enum: ['text', 'html', 'json'],
-                                description: 'Output format (default: "text")',
-                                default: 'text',
-                            },
-                            timeout: {
-                                type: 'number',
-                                description: 'Request timeout in milliseconds (default: 30000)',
-                                default: 30000,
-                            },
-                        },
-                        required: ['url'],
-                        additionalProperties: false,
-                    },
-                },
-                {
-                    name: 'scrapeLinkedInJob',
-                    description: 'Scrapes job details from a LinkedIn job posting using browser automation. Returns structured job data including title, company, description, requirements, and salary.',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            url: {
-                                type: 'string',
-                                description: 'LinkedIn job URL (e.g., https://www.linkedin.com/jobs/view/123456789)',
-                            },
-                            includeDescription: {
-                                type: 'boolean',
-                                description: 'Include full job description (default: true)',
-                                default: true,
-                            },
-                            screenshot: {
-                                type: 'boolean',
-                                description: 'Save screenshot of the job posting (default: false)',
-                                default: false,
-                            },
-                        },
-                        required: ['url'],
-                        additionalProperties: false,
-                    },
-                },
-            ],
+            content: [{
+                type: 'text',
+                text: `Error scraping LinkedIn job: ${errorMessage}\n\nNote: LinkedIn may require authentication or may have blocked automated access.`,
+            }],
+            isError: true,
         };
-    });
+    } finally {
+        signal.removeEventListener('abort', onCancel);
+    }
+}
 
-    // Register tool call handler with validation
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-        const args = request.params.arguments as Record<string, unknown>;
+function noAIProviderResult() {
+    return {
+        content: [{
+            type: 'text' as const,
+            text: 'Error: No AI providers configured. Set GROQ_API_KEY, CLAUDE_API_KEY or GEMINI_API_KEY, or use a client that supports MCP sampling.',
+        }],
+        isError: true,
+    };
+}
 
-        switch (request.params.name) {
-            case 'echoText': {
-                // Validate input type
-                if (!validateEchoTextInput(args)) {
-                    return {
-                        content: [
-                            {
-                                type: 'text',
-                                text: 'Error: Invalid input. Expected { text: string }.',
-                            },
-                        ],
-                        isError: true,
-                    };
-                }
+/**
+ * Security helper: Resolve a path (relative to the first root) and make sure it,
+ * and whatever its symlinks point at, stays inside one of the allowed roots
+ */
+async function validatePath(inputPath: string, roots: string[]): Promise<string> {
+    if (roots.length === 0) {
+        throw new Error('Access denied: the client has not shared any filesystem roots');
+    }
 
-                const input: EchoTextInput = args;
+    const resolved = path.resolve(roots[0], inputPath);
+    const target = await realPath(resolved);
 
-                // Check for empty input and provide friendly error
-                if (!input.text || input.text.trim().length === 0) {
-                    return {
-                        content: [
-                            {
-                                type: 'text',
-                                text: 'Oops! It looks like you sent me empty text. Please provide some text to echo back. 😊',
-                            },
-                        ],
-                        isError: true,
-                    };
-                }
+    for (const root of roots) {
+        if (isWithinRoot(root, resolved) && isWithinRoot(await realPath(root), target)) {
+            return resolved;
+        }
+    }
 
-                // Return structured response
-                const response = {
-                    echoed: input.text
-                };
+    throw new Error(`Access denied: "${inputPath}" is outside the allowed roots (${roots.join(', ')})`);
+}
 
+/**
+ * Built-in tool definitions
+ */
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+    defineTool({
+        name: 'echoText',
+        description: 'Echoes back the provided text. Useful for testing and verification.',
+        inputSchema: echoTextSchema,
+        outputSchema: echoTextOutputSchema,
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        async handler(input) {
+            // Check for empty input and provide friendly error
+            if (!input.text || input.text.trim().length === 0) {
                 return {
                     content: [
                         {
-                            type: 'text' as const,
-                            text: JSON.stringify(response, null, 2),
+                            type: 'text',
+                            text: 'Oops! It looks like you sent me empty text. Please provide some text to echo back. 😊',
                         },
                     ],
+                    isError: true,
                 };
             }
 
-            case 'summarizeDirectory': {
-                // Validate input
-                if (!validateSummarizeDirectoryInput(args)) {
+            // Return structured response
+            const response: EchoTextOutput = {
+                echoed: input.text
+            };
+
+            return structuredResult(response);
+        },
+    }),
+
+    defineTool({
+        name: 'summarizeDirectory',
+        description: 'Lists all files and subdirectories in the specified directory with their metadata (name, type, size in bytes).',
+        inputSchema: summarizeDirectorySchema,
+        outputSchema: summarizeDirectoryOutputSchema,
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        async handler(input, context) {
+            try {
+                // Resolve path relative to the first allowed root
+                const resolvedPath = await validatePath(input.path, await getAllowedRoots(context));
+
+                // Check if path exists
+                try {
+                    await fs.access(resolvedPath);
+                } catch {
                     return {
                         content: [
                             {
                                 type: 'text',
-                                text: 'Error: Invalid input. Expected { path: string } where path is non-empty.',
+                                text: `The directory "${input.path}" doesn't seem to exist. Please check the path and try again. 📁`,
                             },
                         ],
                         isError: true,
                     };
                 }
 
-                const input: SummarizeDirectoryInput = args;
-
-                try {
-                    // Resolve path relative to project root (current working directory)
-                    const resolvedPath = path.resolve(process.cwd(), input.path);
-
-                    // Check if path exists
-                    try {
-                        await fs.access(resolvedPath);
-                    } catch {
-                        return {
-                            content: [
-                                {
-                                    type: 'text',
-                                    text: `The directory "${input.path}" doesn't seem to exist. Please check the path and try again. 📁`,
-                                },
-                            ],
-                            isError: true,
-                        };
-                    }
-
-                    // Read directory entries
-                    const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
-
-                    // Separate files and directories
-                    const files = entries.filter(e => e.isFile());
-                    const directories = entries.filter(e => e.isDirectory());
-
-                    const totalFiles = files.length;
-                    const totalDirs = directories.length;
-                    const totalItems = entries.length;
-
-                    // Limit to 20 items for display
-                    const displayLimit = 20;
-                    const itemsToShow = entries.slice(0, displayLimit);
+                // Read directory entries
+                const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
 
-                    // Get a few example names
-                    const exampleFiles = files.slice(0, 3).map(f => f.name);
-                    const exampleDirs = directories.slice(0, 3).map(d => d.name);
+                // Separate files and directories
+                const files = entries.filter(e => e.isFile());
+                const directories = entries.filter(e => e.isDirectory());
 
-                    // Build plain-text summary
-                    let summary = `Directory: ${input.path}\n\n`;
-                    summary += `Found ${totalFiles} file${totalFiles !== 1 ? 's' : ''} and ${totalDirs} director${totalDirs !== 1 ? 'ies' : 'y'} (${totalItems} total)\n\n`;
+                const totalFiles = files.length;
+                const totalDirs = directories.length;
+                const totalItems = entries.length;
 
-                    if (exampleFiles.length > 0) {
-                        summary += `Example files: ${exampleFiles.join(', ')}\n`;
-                    }
-                    if (exampleDirs.length > 0) {
-                        summary += `Example directories: ${exampleDirs.join(', ')}\n`;
-                    }
+                // Limit to 20 items for display
+                const displayLimit = 20;
+                const itemsToShow = entries.slice(0, displayLimit);
 
-                    if (totalItems > displayLimit) {
-                        summary += `\nShowing first ${displayLimit} of ${totalItems} items:\n`;
-                    } else if (totalItems > 0) {
-                        summary += `\nAll items:\n`;
-                    }
+                // Get a few example names
+                const exampleFiles = files.slice(0, 3).map(f => f.name);
+                const exampleDirs = directories.slice(0, 3).map(d => d.name);
 
-                    // List items (up to 20)
-                    if (itemsToShow.length > 0) {
-                        const itemList = itemsToShow.map(item =>
-                            `  ${item.isDirectory() ? '📁' : '📄'} ${item.name}`
-                        ).join('\n');
-                        summary += itemList;
-                    }
+                // Build plain-text summary
+                let summary = `Directory: ${input.path}\n\n`;
+                summary += `Found ${totalFiles} file${totalFiles !== 1 ? 's' : ''} and ${totalDirs} director${totalDirs !== 1 ? 'ies' : 'y'} (${totalItems} total)\n\n`;
 
-                    return {
-                        content: [
-                            {
-                                type: 'text' as const,
-                                text: summary,
-                            },
-                        ],
-                    };
+                if (exampleFiles.length > 0) {
+                    summary += `Example files: ${exampleFiles.join(', ')}\n`;
+                }
+                if (exampleDirs.length > 0) {
+                    summary += `Example directories: ${exampleDirs.join(', ')}\n`;
+                }
 
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                    return {
-                        content: [
-                            {
-                                type: 'text',
-                                text: `Oops! Something went wrong reading "${input.path}": ${errorMessage}`,
-                            },
-                        ],
-                        isError: true,
-                    };
+                if (totalItems > displayLimit) {
+                    summary += `\nShowing first ${displayLimit} of ${totalItems} items:\n`;
+                } else if (totalItems > 0) {
+                    summary += `\nAll items:\n`;
                 }
-            }
 
-            case 'saveToFile': {
-                if (!validateSaveToFileInput(args)) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: 'Error: Invalid input. Expected { content: string, filename: string }.',
-                        }],
-                        isError: true,
-                    };
+                // List items (up to 20)
+                if (itemsToShow.length > 0) {
+                    const itemList = itemsToShow.map(item =>
+                        `  ${item.isDirectory() ? '📁' : '📄'} ${item.name}`
+                    ).join('\n');
+                    summary += itemList;
                 }
 
-                const input: SaveToFileInput = args;
+                const response: SummarizeDirectoryOutput = {
+                    path: input.path,
+                    totalFiles,
+                    totalDirectories: totalDirs,
+                    totalItems,
+                    entries: itemsToShow.map(item => ({
+                        name: item.name,
+                        type: item.isDirectory() ? 'directory' : item.isFile() ? 'file' : 'other',
+                    })),
+                };
 
-                try {
-                    // Build file path
-                    const baseDir = path.join(process.cwd(), 'mcp-files');
-                    let filePath: string;
-
-                    if (input.category) {
-                        filePath = path.join(baseDir, input.category, input.filename);
-                    } else {
-                        filePath = path.join(baseDir, input.filename);
-                    }
+                // Human-readable summary stays as the text block
+                return structuredResult(response, summary);
 
-                    // Validate path (prevent directory traversal)
-                    const resolved = path.resolve(filePath);
-                    if (!resolved.startsWith(path.resolve(baseDir))) {
-                        return {
-                            content: [{
-                                type: 'text',
-                                text: 'Error: Invalid path. Directory traversal not allowed.',
-                            }],
-                            isError: true,
-                        };
-                    }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Oops! Something went wrong reading "${input.path}": ${errorMessage}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'saveToFile',
+        description: 'Saves text content to a file. Creates directories if needed. Useful for saving AI-generated content like cover letters, notes, or code.',
+        inputSchema: saveToFileSchema,
+        outputSchema: saveToFileOutputSchema,
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+        async handler(input, context) {
+            try {
+                // Build file path
+                const baseDir = getFilesDir();
+                let filePath: string;
+
+                if (input.category) {
+                    filePath = path.join(baseDir, input.category, input.filename);
+                } else {
+                    filePath = path.join(baseDir, input.filename);
+                }
 
-                    // Check if file exists
-                    const exists = await fs.access(resolved).then(() => true).catch(() => false);
-                    if (exists && !input.overwrite) {
+                // Writing outside mcp-files needs the user's OK (and must stay inside the client's roots).
+                // Compared after resolving symlinks, so a link inside mcp-files doesn't count as inside.
+                let resolved = path.resolve(filePath);
+                if (!isWithinRoot(await realPath(baseDir), await realPath(resolved))) {
+                    resolved = await validatePath(resolved, await getAllowedRoots(context));
+                    const confirmation = await confirmAction(
+                        context,
+                        'writeOutsideFiles',
+                        `Save a file outside mcp-files?\n\n${resolved}`
+                    );
+                    if (!confirmation.allowed) {
                         return {
                             content: [{
                                 type: 'text',
-                                text: `File already exists at "${resolved}". Set overwrite=true to replace it.`,
+                                text: `Error: Invalid path. Writing outside mcp-files is not allowed: ${confirmation.reason}.`,
                             }],
                             isError: true,
                         };
                     }
-
-                    // Create directory if needed
-                    await fs.mkdir(path.dirname(resolved), { recursive: true });
-
-                    // Write file
-                    await fs.writeFile(resolved, input.content, 'utf-8');
-
-                    const response = {
-                        success: true,
-                        path: resolved,
-                        message: 'File saved successfully'
-                    };
-
-                    return {
-                        content: [{
-                            type: 'text' as const,
-                            text: JSON.stringify(response, null, 2),
-                        }],
-                    };
-
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `Error saving file: ${errorMessage}`,
-                        }],
-                        isError: true,
-                    };
                 }
-            }
 
-            case 'readFile': {
-                if (!validateReadFileInput(args)) {
+                // Check if file exists
+                const exists = await fs.access(resolved).then(() => true).catch(() => false);
+                if (exists && !input.overwrite) {
                     return {
                         content: [{
                             type: 'text',
-                            text: 'Error: Invalid input. Expected { path: string }.',
+                            text: `File already exists at "${resolved}". Set overwrite=true to replace it.`,
                         }],
                         isError: true,
                     };
                 }
 
-                const input: ReadFileInput = args;
-                const encoding = (input.encoding || 'utf-8') as BufferEncoding;
-                const maxSize = input.maxSize || 10485760; // 10MB default
-
-                try {
-                    // Resolve path
-                    const resolved = path.resolve(process.cwd(), input.path);
-
-                    // Check if file exists
-                    const stats = await fs.stat(resolved);
-
-                    if (!stats.isFile()) {
+                if (exists) {
+                    const confirmation = await confirmAction(
+                        context,
+                        'overwriteFile',
+                        `Overwrite an existing file?\n\n${resolved}`
+                    );
+                    if (!confirmation.allowed) {
                         return {
                             content: [{
                                 type: 'text',
-                                text: `Error: "${input.path}" is not a file.`,
+                                text: `File at "${resolved}" was not overwritten: ${confirmation.reason}.`,
                             }],
                             isError: true,
                         };
                     }
+                }
 
-                    // Check file size
-                    if (stats.size > maxSize) {
-                        return {
-                            content: [{
-                                type: 'text',
-                                text: `Error: File too large (${stats.size} bytes). Maximum size is ${maxSize} bytes.`,
-                            }],
-                            isError: true,
-                        };
-                    }
+                // Create directory if needed
+                await fs.mkdir(path.dirname(resolved), { recursive: true });
 
-                    // Read file
-                    const content = await fs.readFile(resolved, encoding);
+                // Write file
+                await fs.writeFile(resolved, input.content, 'utf-8');
+                logger.info('files', exists ? 'Overwrote file' : 'Wrote file', {
+                    path: resolved,
+                    bytes: Buffer.byteLength(input.content, 'utf-8'),
+                });
 
-                    const response = {
-                        content,
-                        metadata: {
-                            path: resolved,
-                            size: stats.size,
-                            modified: stats.mtime.toISOString(),
-                            encoding,
-                        }
-                    };
+                const response: SaveToFileOutput = {
+                    success: true,
+                    path: resolved,
+                    message: 'File saved successfully'
+                };
 
-                    return {
-                        content: [{
-                            type: 'text' as const,
-                            text: JSON.stringify(response, null, 2),
-                        }],
-                    };
+                return structuredResult(response);
 
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error saving file: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'readFile',
+        description: 'Reads the contents of a file and returns it as text. Useful for loading resumes, templates, or configuration files.',
+        inputSchema: readFileSchema,
+        outputSchema: readFileOutputSchema,
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        async handler(input, context) {
+            const encoding = input.encoding as BufferEncoding;
+            const maxSize = input.maxSize;
+
+            try {
+                // Resolve path within the allowed roots
+                const resolved = await validatePath(input.path, await getAllowedRoots(context));
+
+                // Check if file exists
+                const stats = await fs.stat(resolved);
+
+                if (!stats.isFile()) {
                     return {
                         content: [{
                             type: 'text',
-                            text: `Error reading file: ${errorMessage}`,
+                            text: `Error: "${input.path}" is not a file.`,
                         }],
                         isError: true,
                     };
                 }
-            }
 
-            case 'searchFiles': {
-                if (!validateSearchFilesInput(args)) {
+                // Check file size
+                if (stats.size > maxSize) {
                     return {
                         content: [{
                             type: 'text',
-                            text: 'Error: Invalid input. Expected { query: string, path: string }.',
+                            text: `Error: File too large (${stats.size} bytes). Maximum size is ${maxSize} bytes.`,
                         }],
                         isError: true,
                     };
                 }
 
-                const input: SearchFilesInput = args;
-                const caseSensitive = input.caseSensitive ?? false;
-                const maxResults = input.maxResults ?? 50;
-                const recursive = input.recursive ?? true;
+                // Read file
+                const content = await fs.readFile(resolved, encoding);
 
-                try {
-                    // Resolve path
-                    const resolved = path.resolve(process.cwd(), input.path);
-
-                    // Create regex pattern
-                    const flags = caseSensitive ? 'g' : 'gi';
-                    const regex = new RegExp(input.query, flags);
-
-                    const matches: any[] = [];
-                    let filesSearched = 0;
-
-                    // Recursive search function
-                    async function searchDirectory(dir: string) {
-                        if (matches.length >= maxResults) return;
-
-                        const entries = await fs.readdir(dir, { withFileTypes: true });
-
-                        for (const entry of entries) {
-                            if (matches.length >= maxResults) break;
-
-                            const fullPath = path.join(dir, entry.name);
-
-                            if (entry.isDirectory() && recursive) {
-                                await searchDirectory(fullPath);
-                            } else if (entry.isFile()) {
-                                // Check file type filter
-                                if (input.fileTypes && input.fileTypes.length > 0) {
-                                    const ext = path.extname(entry.name).slice(1);
-                                    if (!input.fileTypes.includes(ext)) continue;
-                                }
-
-                                filesSearched++;
-
-                                try {
-                                    const content = await fs.readFile(fullPath, 'utf-8');
-                                    const lines = content.split('\n');
-
-                                    lines.forEach((line, index) => {
-                                        if (matches.length >= maxResults) return;
-                                        if (regex.test(line)) {
-                                            matches.push({
-                                                file: path.relative(process.cwd(), fullPath),
-                                                line: index + 1,
-                                                content: line.trim(),
-                                            });
-                                        }
-                                    });
-                                } catch {
-                                    // Skip files that can't be read as text
-                                }
+                const response: ReadFileOutput = {
+                    content,
+                    metadata: {
+                        path: resolved,
+                        size: stats.size,
+                        modified: stats.mtime.toISOString(),
+                        encoding,
+                    }
+                };
+
+                return structuredResult(response);
+
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error reading file: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'searchFiles',
+        description: 'Searches for text patterns within files in a directory using regular expressions. Returns matches with context.',
+        inputSchema: searchFilesSchema,
+        outputSchema: searchFilesOutputSchema,
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        async handler(input, context) {
+            const { signal, reportProgress } = context;
+            const { caseSensitive, maxResults, recursive } = input;
+
+            try {
+                // Resolve path within the allowed roots; matches are reported relative to the first
+                const roots = await getAllowedRoots(context);
+                const resolved = await validatePath(input.path, roots);
+
+                // Create regex pattern
+                const flags = caseSensitive ? 'g' : 'gi';
+                const regex = new RegExp(input.query, flags);
+
+                const matches: SearchFilesOutput['matches'] = [];
+                let filesSearched = 0;
+
+                // Recursive search function
+                async function searchDirectory(dir: string) {
+                    if (matches.length >= maxResults) return;
+
+                    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+                    for (const entry of entries) {
+                        if (matches.length >= maxResults) break;
+                        // Stop walking as soon as the client cancels
+                        if (signal.aborted) return;
+
+                        const fullPath = path.join(dir, entry.name);
+
+                        if (entry.isDirectory() && recursive) {
+                            await searchDirectory(fullPath);
+                        } else if (entry.isFile()) {
+                            // Check file type filter
+                            if (input.fileTypes && input.fileTypes.length > 0) {
+                                const ext = path.extname(entry.name).slice(1);
+                                if (!input.fileTypes.includes(ext)) continue;
+                            }
+
+                            filesSearched++;
+                            if (filesSearched % 10 === 0) {
+                                await reportProgress(filesSearched, undefined, `Searched ${filesSearched} files`);
+                            }
+
+                            try {
+                                const content = await fs.readFile(fullPath, 'utf-8');
+                                const lines = content.split('\n');
+
+                                lines.forEach((line, index) => {
+                                    if (matches.length >= maxResults) return;
+                                    if (regex.test(line)) {
+                                        matches.push({
+                                            file: path.relative(roots[0], fullPath),
+                                            line: index + 1,
+                                            content: line.trim(),
+                                        });
+                                    }
+                                });
+                            } catch {
+                                // Skip files that can't be read as text
                             }
                         }
                     }
+                }
 
-                    await searchDirectory(resolved);
+                await searchDirectory(resolved);
 
-                    const response = {
-                        matches,
-                        totalMatches: matches.length,
-                        filesSearched,
-                    };
+                if (signal.aborted) {
+                    return cancelledResult(`Search after ${filesSearched} files`);
+                }
 
-                    return {
-                        content: [{
-                            type: 'text' as const,
-                            text: JSON.stringify(response, null, 2),
-                        }],
-                    };
+                await reportProgress(filesSearched, filesSearched, `Searched ${filesSearched} files`);
 
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `Error searching files: ${errorMessage}`,
-                        }],
-                        isError: true,
-                    };
-                }
+                const response: SearchFilesOutput = {
+                    matches,
+                    totalMatches: matches.length,
+                    filesSearched,
+                };
+
+                return structuredResult(response);
+
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error searching files: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'executeCommand',
+        description: 'Executes a shell command and returns the output. Useful for git operations, running scripts, or system commands.',
+        inputSchema: executeCommandSchema,
+        outputSchema: executeCommandOutputSchema,
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+        async handler(input, context) {
+            const { signal, reportProgress } = context;
+            const timeout = input.timeout;
+            const args = input.args || [];
+            const commandLine = formatCommandLine(input.command, args);
+
+            const blocked = (rule: string, reason: string) => {
+                logger.warning('command', 'Command blocked by policy', { command: input.command, args, rule });
+                return {
+                    content: [{
+                        type: 'text' as const,
+                        text: `Command "${commandLine}" was not run: blocked by command policy rule "${rule}" (${reason}).`,
+                    }],
+                    isError: true,
+                };
+            };
+
+            let policy: CommandPolicy;
+            try {
+                policy = await loadCommandPolicy();
+            } catch (error) {
+                return blocked('policy-file', error instanceof Error ? error.message : 'Unknown error');
+            }
+
+            const decision = evaluateCommand(policy, input.command, args);
+            if (!decision.allowed) {
+                return blocked(decision.rule, decision.reason);
             }
 
-            case 'executeCommand': {
-                if (!validateExecuteCommandInput(args)) {
+            // Commands only run inside the workspace roots
+            let cwd: string;
+            try {
+                cwd = await validatePath(input.cwd || '.', await getAllowedRoots(context));
+            } catch (error) {
+                return blocked('cwd', error instanceof Error ? error.message : 'Unknown error');
+            }
+
+            // Commands outside the allowlist need the user's OK
+            if (decision.rule.confirm && !isCommandAllowlisted(input.command)) {
+                const confirmation = await confirmAction(
+                    context,
+                    'runCommand',
+                    `Run this command?\n\n${commandLine}\n\nin ${cwd}`
+                );
+                if (!confirmation.allowed) {
                     return {
                         content: [{
                             type: 'text',
-                            text: 'Error: Invalid input. Expected { command: string }.',
+                            text: `Command "${commandLine}" was not run: ${confirmation.reason}.`,
                         }],
                         isError: true,
                     };
                 }
+            }
 
-                const input: ExecuteCommandInput = args;
-                const timeout = input.timeout || 30000;
-                const cwd = input.cwd || process.cwd();
-
-                try {
-                    const startTime = Date.now();
-
-                    const result = await new Promise<{ stdout: string; stderr: string; exitCode: number }>((resolve, reject) => {
-                        const child = spawn(input.command, input.args || [], {
-                            cwd,
-                            timeout,
-                        });
+            try {
+                const startTime = Date.now();
+                logger.info('command', 'Executing command', { command: input.command, args, cwd, rule: decision.rule.name });
+
+                const result = await new Promise<{ stdout: string; stderr: string; exitCode: number; truncated?: boolean }>((resolve, reject) => {
+                    // Cancelling the request kills the child process
+                    const child = spawn(input.command, args, {
+                        cwd,
+                        timeout,
+                        signal,
+                        env: scrubEnv(process.env, policy.envAllow),
+                    });
 
-                        let stdout = '';
-                        let stderr = '';
+                    const stdout = new OutputBuffer(policy.maxOutputBytes);
+                    const stderr = new OutputBuffer(policy.maxOutputBytes);
+                    let bytes = 0;
 
-                        child.stdout?.on('data', (data) => {
-                            stdout += data.toString();
-                        });
+                    const onOutput = (data: Buffer) => {
+                        bytes += data.length;
+                        void reportProgress(bytes, undefined, `${bytes} bytes of output`);
+                    };
 
-                        child.stderr?.on('data', (data) => {
-                            stderr += data.toString();
-                        });
+                    child.stdout?.on('data', (data: Buffer) => {
+                        stdout.append(data);
+                        onOutput(data);
+                    });
 
-                        child.on('close', (code) => {
-                            resolve({
-                                stdout,
-                                stderr,
-                                exitCode: code || 0,
-                            });
-                        });
+                    child.stderr?.on('data', (data: Buffer) => {
+                        stderr.append(data);
+                        onOutput(data);
+                    });
 
-                        child.on('error', (error) => {
-                            reject(error);
+                    child.on('close', (code) => {
+                        resolve({
+                            stdout: stdout.toString(),
+                            stderr: stderr.toString(),
+                            exitCode: code || 0,
+                            ...((stdout.truncated || stderr.truncated) && { truncated: true }),
                         });
                     });
 
-                    const duration = Date.now() - startTime;
+                    child.on('error', (error) => {
+                        reject(error);
+                    });
+                });
+
+                const duration = Date.now() - startTime;
+                log(result.exitCode === 0 ? 'info' : 'warning', 'command', 'Command exited', {
+                    command: input.command,
+                    exitCode: result.exitCode,
+                    duration,
+                });
+
+                const response: ExecuteCommandOutput = {
+                    ...result,
+                    duration,
+                };
 
-                    const response = {
-                        ...result,
-                        duration,
-                    };
+                return structuredResult(response);
 
-                    return {
-                        content: [{
-                            type: 'text' as const,
-                            text: JSON.stringify(response, null, 2),
-                        }],
-                    };
+            } catch (error) {
+                if (signal.aborted) {
+                    logger.info('command', 'Command cancelled', { command: input.command });
+                    return cancelledResult(`Command "${input.command}"`);
+                }
 
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('command', 'Command failed', { command: input.command, error: errorMessage });
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error executing command: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'webFetch',
+        description: 'Fetches content from a URL and optionally parses HTML. Useful for getting job postings, company info, or web content.',
+        inputSchema: webFetchSchema,
+        outputSchema: webFetchOutputSchema,
+        annotations: { readOnlyHint: true, openWorldHint: true },
+        async handler(input, { signal }) {
+            const { timeout, format } = input;
+
+            try {
+                // Validate URL
+                const url = new URL(input.url);
+                if (!['http:', 'https:'].includes(url.protocol)) {
                     return {
                         content: [{
                             type: 'text',
-                            text: `Error executing command: ${errorMessage}`,
+                            text: 'Error: Only HTTP and HTTPS URLs are supported.',
                         }],
                         isError: true,
                     };
                 }
-            }
 
-            case 'webFetch': {
-                if (!validateWebFetchInput(args)) {
+                // Fetch content (aborted on timeout or client cancellation)
+                const controller = new AbortController();
+                const timeoutId = setTimeout(() => controller.abort(), timeout);
+                const onCancel = () => controller.abort();
+                signal.addEventListener('abort', onCancel, { once: true });
+
+                // Refuses private addresses, too many redirects, oversized or binary responses
+                const response = await safeFetch(input.url, {
+                    signal: controller.signal,
+                }).finally(() => {
+                    clearTimeout(timeoutId);
+                    signal.removeEventListener('abort', onCancel);
+                });
+
+                if (!response.ok) {
                     return {
                         content: [{
                             type: 'text',
-                            text: 'Error: Invalid input. Expected { url: string }.',
+                            text: `Error: HTTP ${response.status} ${response.statusText}`,
                         }],
                         isError: true,
                     };
                 }
 
-                const input: WebFetchInput = args;
-                const timeout = input.timeout || 30000;
-                const format = input.format || 'text';
+                const html = await response.text();
+                let content = html;
 
-                try {
-                    // Validate URL
-                    const url = new URL(input.url);
-                    if (!['http:', 'https:'].includes(url.protocol)) {
-                        return {
-                            content: [{
-                                type: 'text',
-                                text: 'Error: Only HTTP and HTTPS URLs are supported.',
-                            }],
-                            isError: true,
-                        };
+                // Parse HTML if selector provided
+                if (input.selector) {
+                    const $ = cheerio.load(html);
+                    const selected = $(input.selector);
+
+                    if (format === 'text') {
+                        content = selected.text();
+                    } else if (format === 'html') {
+                        content = selected.html() || '';
+                    }
+                } else if (format === 'text') {
+                    const $ = cheerio.load(html);
+                    content = $('body').text();
+                }
+
+                const result: WebFetchOutput = {
+                    content,
+                    metadata: {
+                        url: input.url,
+                        statusCode: response.status,
+                        contentType: response.contentType,
+                        size: html.length,
+                        fetchedAt: new Date().toISOString(),
                     }
+                };
 
-                    // Fetch content
-                    const controller = new AbortController();
-                    const timeoutId = setTimeout(() => controller.abort(), timeout);
+                return structuredResult(result);
 
-                    const response = await fetch(input.url, {
-                        signal: controller.signal,
-                    });
+            } catch (error) {
+                if (signal.aborted) {
+                    return cancelledResult(`Fetch of ${input.url}`);
+                }
 
-                    clearTimeout(timeoutId);
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error fetching URL: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'scrapeLinkedInJob',
+        description: 'Scrapes job details from a LinkedIn job posting using browser automation. Returns structured job data including title, company, description, requirements, and salary.',
+        inputSchema: scrapeLinkedInJobSchema,
+        outputSchema: scrapeLinkedInJobOutputSchema,
+        annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
+        async handler(input, context) {
+            const limits = getLimits();
+            // Same bucket as the caller's REST scrapes, however many sessions it opens
+            const rate = limits.scrape.consume(context.caller ?? 'stdio');
+            if (rate && !rate.allowed) {
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Rate limit exceeded for LinkedIn scraping (${rate.limit} per ${limits.scrape.rule?.windowSeconds}s). Try again in ${rate.retryAfterSeconds}s.`,
+                    }],
+                    isError: true,
+                };
+            }
+
+            try {
+                return await limits.browsers.run(() => scrapeLinkedInPage(input, context), context.signal);
+            } catch (error) {
+                if (context.signal.aborted) {
+                    return cancelledResult('LinkedIn scrape');
+                }
+                return {
+                    content: [{ type: 'text', text: `Error scraping LinkedIn job: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'extractJob',
+        description: 'Extracts structured job details (title, company, location, salary, requirements) from job posting text or a URL using AI.',
+        inputSchema: extractJobSchema,
+        outputSchema: jobDetailsSchema,
+        annotations: { readOnlyHint: true, openWorldHint: true },
+        async handler(input, { signal }) {
+            const service = getAIService();
+            if (!service.hasProvider()) {
+                return noAIProviderResult();
+            }
+
+            try {
+                let contentToAnalyze = input.text || '';
 
+                // Fetch the posting when only a URL is given (aborted on timeout or client cancellation)
+                if (!contentToAnalyze && input.url) {
+                    const response = await safeFetch(input.url, {
+                        signal: AbortSignal.any([signal, AbortSignal.timeout(JOB_FETCH_TIMEOUT_MS)]),
+                    });
                     if (!response.ok) {
                         return {
                             content: [{
@@ -874,138 +1155,179 @@ export function registerTools(server: Server) {
                             isError: true,
                         };
                     }
+                    const $ = cheerio.load(await response.text());
+                    contentToAnalyze = $('body').text().trim();
+                }
 
-                    const html = await response.text();
-                    let content = html;
-
-                    // Parse HTML if selector provided
-                    if (input.selector) {
-                        const $ = cheerio.load(html);
-                        const selected = $(input.selector);
+                const result = await service.extractJobDetails(contentToAnalyze, input.provider, { cache: input.cache });
+                return aiToolResult(result.data, result);
 
-                        if (format === 'text') {
-                            content = selected.text();
-                        } else if (format === 'html') {
-                            content = selected.html() || '';
-                        }
-                    } else if (format === 'text') {
-                        const $ = cheerio.load(html);
-                        content = $('body').text();
-                    }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error extracting job details: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'analyzeResume',
+        description: 'Analyzes how well a resume matches a job description using AI. Returns a match score, strengths, gaps, recommendations and keywords.',
+        inputSchema: analyzeResumeSchema,
+        outputSchema: resumeAnalysisSchema,
+        annotations: { readOnlyHint: true, openWorldHint: true },
+        async handler(input) {
+            const service = getAIService();
+            if (!service.hasProvider()) {
+                return noAIProviderResult();
+            }
 
-                    const result = {
-                        content,
-                        metadata: {
-                            url: input.url,
-                            statusCode: response.status,
-                            contentType: response.headers.get('content-type'),
-                            size: html.length,
-                            fetchedAt: new Date().toISOString(),
-                        }
-                    };
+            try {
+                const result = await service.analyzeResume(input.jobDescription, input.resumeText, input.provider, { cache: input.cache });
+                return aiToolResult(result.data, result);
 
-                    return {
-                        content: [{
-                            type: 'text' as const,
-                            text: JSON.stringify(result, null, 2),
-                        }],
-                    };
-
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `Error fetching URL: ${errorMessage}`,
-                        }],
-                        isError: true,
-                    };
-                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error analyzing resume: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'draftOutreachEmail',
+        description: 'Drafts a cold outreach email to a recruiter, hiring manager or peer using AI.',
+        inputSchema: draftOutreachEmailSchema,
+        outputSchema: emailDraftSchema,
+        annotations: { readOnlyHint: true, openWorldHint: true },
+        async handler(input) {
+            const service = getAIService();
+            if (!service.hasProvider()) {
+                return noAIProviderResult();
             }
 
-            case 'scrapeLinkedInJob': {
-                if (!validateScrapeLinkedInJobInput(args)) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: 'Error: Invalid input. Expected { url: string } with a LinkedIn job URL.',
-                        }],
-                        isError: true,
-                    };
-                }
+            // Schema defaults match POST /api/draft-email
+            const { provider, cache, ...context } = input;
 
-                const input: ScrapeLinkedInJobInput = args;
-                const includeDescription = input.includeDescription ?? true;
+            try {
+                const result = await service.draftEmail(context, provider, { cache });
+                return aiToolResult(result.data, result);
 
-                let browser;
-                try {
-                    // Launch browser
-                    browser = await chromium.launch({ headless: true });
-                    const page = await browser.newPage();
-
-                    // Navigate to job posting
-                    await page.goto(input.url, { waitUntil: 'networkidle', timeout: 30000 });
-
-                    // Wait for job content to load
-                    await page.waitForSelector('.top-card-layout__title, .job-details-jobs-unified-top-card__job-title', { timeout: 10000 });
-
-                    // Extract job details
-                    const jobData = await page.evaluate((includeDesc: boolean) => {
-                        // @ts-ignore - Running in browser context
-                        const getText = (selector: string): string => {
-                            // @ts-ignore - Running in browser context
-                            const el = document.querySelector(selector);
-                            return el?.textContent?.trim() || '';
-                        };
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error drafting email: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+
+    defineTool({
+        name: 'generateText',
+        description: 'Generates text from a prompt using the configured AI providers.',
+        inputSchema: generateTextSchema,
+        outputSchema: z.object({ text: z.string() }),
+        annotations: { readOnlyHint: true, openWorldHint: true },
+        async handler(input) {
+            const service = getAIService();
+            if (!service.hasProvider()) {
+                return noAIProviderResult();
+            }
 
-                        return {
-                            title: getText('.top-card-layout__title, .job-details-jobs-unified-top-card__job-title'),
-                            company: getText('.top-card-layout__first-subline, .job-details-jobs-unified-top-card__company-name'),
-                            location: getText('.top-card-layout__second-subline, .job-details-jobs-unified-top-card__bullet'),
-                            description: includeDesc ? getText('.show-more-less-html__markup, .jobs-description__content') : '',
-                            postedDate: getText('.posted-time-ago__text, .job-details-jobs-unified-top-card__posted-date'),
-                        };
-                    }, includeDescription);
-
-                    // Take screenshot if requested
-                    if (input.screenshot) {
-                        const screenshotPath = path.join(process.cwd(), 'mcp-files', 'screenshots', `linkedin-job-${Date.now()}.png`);
-                        await fs.mkdir(path.dirname(screenshotPath), { recursive: true });
-                        await page.screenshot({ path: screenshotPath, fullPage: true });
-                        (jobData as any).screenshot = screenshotPath;
-                    }
+            try {
+                const result = await service.generateText(input.prompt, input.provider, { cache: input.cache });
+                return aiToolResult({ text: result.text }, result);
 
-                    await browser.close();
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `Error generating text: ${errorMessage}`,
+                    }],
+                    isError: true,
+                };
+            }
+        },
+    }),
+];
 
-                    const response = {
-                        ...jobData,
-                        url: input.url,
-                        scrapedAt: new Date().toISOString(),
-                    };
+/**
+ * Shared registry used by createServer(). Other modules can add tools with
+ * toolRegistry.register(defineTool({ ... })) before servers are created.
+ */
+export const toolRegistry = new ToolRegistry();
+for (const tool of BUILTIN_TOOLS) {
+    toolRegistry.register(tool);
+}
 
-                    return {
-                        content: [{
-                            type: 'text' as const,
-                            text: JSON.stringify(response, null, 2),
-                        }],
-                    };
+export interface RegisterToolsOptions {
+    // Defaults to the shared registry
+    registry?: ToolRegistry;
+    // Identity of the HTTP session's caller (see ToolCallOptions.caller)
+    caller?: string;
+}
 
-                } catch (error) {
-                    if (browser) await browser.close();
+/**
+ * Register all tools with the server
+ */
+export function registerTools(server: Server, { registry = toolRegistry, caller }: RegisterToolsOptions = {}) {
+    // Tool list is derived from the registry
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+        return {
+            tools: registry.describe(),
+        };
+    });
 
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `Error scraping LinkedIn job: ${errorMessage}\n\nNote: LinkedIn may require authentication or may have blocked automated access.`,
-                        }],
-                        isError: true,
-                    };
-                }
-            }
+    // Validate against the tool's schema and dispatch to its handler; logging
+    // and sampling done while it runs go back to this client. Every call is audited.
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const options = { server, extra, caller };
+        const { name, arguments: args } = request.params;
+        const started = Date.now();
+        const audit = (outcome: 'success' | 'error', details: { provider?: unknown; error?: string }) => {
+            // HTTP sessions are recorded as the key (or IP) that opened them; the client
+            // name is self-reported, so it only identifies the local stdio client
+            const client = server.getClientVersion()?.name;
+            getAuditLog().record({
+                // Only the Streamable HTTP transport has sessions
+                transport: extra?.sessionId ? 'http' : 'stdio',
+                caller: caller ?? (client ? `client:${client}` : null),
+                kind: 'tool',
+                name,
+                args,
+                durationMs: Date.now() - started,
+                outcome,
+                ...(typeof details.provider === 'string' && { provider: details.provider }),
+                ...(details.error && { error: details.error }),
+            });
+        };
 
-            default:
-                throw new Error(`Unknown tool: ${request.params.name}`);
+        try {
+            const result = await runWithRequestContext(options, () => registry.call(name, args, options));
+            const text = result.content?.find(item => item.type === 'text');
+            audit(result.isError ? 'error' : 'success', {
+                provider: result._meta?.provider,
+                error: result.isError && text?.type === 'text' ? text.text : undefined,
+            });
+            return result;
+        } catch (error) {
+            audit('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+            throw error;
         }
     });
 }
@@ -5,6 +5,9 @@ export default defineConfig({
         globals: true,
         environment: 'node',
         include: ['src/**/*.test.ts'],
+        // Tool calls and REST requests in tests must not land in the real .letsmcp/audit;
+        // audit tests configure their own log in a temp directory
+        env: { AUDIT_LOG: 'off' },
         coverage: {
             provider: 'v8',
             reporter: ['text', 'json', 'html'],